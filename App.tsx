@@ -1,83 +1,194 @@
 
-import React, { useState, useCallback, useEffect, useRef, forwardRef } from 'react';
-import { solveLimitFromImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useRef, forwardRef, createContext, useContext, useMemo, useId } from 'react';
+import { getSolverProvider } from './services/solverProvider';
+import { solutionLanguageOf } from './services/solutionPrompt';
+import { SOLVING_METHODS } from './services/methodPrompts';
+import { checkAnswerEquivalence, verifyLimitAnswer, verifySolution, verifyStructuredSolution, type AnswerCheck, type LimitVerification } from './utils/limitVerification';
+import { isTransientError, solveWithRetry, type SolveOptions } from './services/solveRequest';
+import { clearHistory, createThumbnail, deleteHistoryEntry, getHistoryEntries, migrateLegacyHistory, queryHistory, saveHistoryEntry, updateHistoryEntry, type HistoryPage } from './services/historyStore';
+import { exportHistoryBundle, importHistoryBundle, HistoryBundleError } from './services/historyBundle';
+import { cacheSolution, getCachedSolution, solveCacheKey } from './services/solveCache';
+import { getNextQueuedSolve, getQueuedSolves, queueSolve, removeQueuedSolve, type QueuedSolve } from './services/offlineQueue';
+import { base64ToBlob, blobToBase64, cropImageToBox } from './utils/imageData';
+import { downloadBlob } from './utils/download';
+import { buildLatexDocument } from './utils/latexDocument';
+import { canvasToBlob, cropToCanvas, detectSkew, DEFAULT_PREPROCESS_SETTINGS, MAX_DIMENSION_CHOICES, MAX_SKEW_DEGREES, preprocessedMimeType, preprocessImage, type ImageEnhancement, type PreprocessOptions, type PreprocessSettings } from './utils/imagePreprocess';
+import { formatBytes, recordUploadSavings, type UploadSavings } from './utils/uploadSavings';
+import { analyzeImageQuality, type ImageQualityIssue } from './utils/imageQuality';
+import { evaluate, parseLimitHeading, parseLimitLatex, type LimitProblem } from './utils/latexMath';
+import { analyzeLimitGraph, defaultViewport, formatGraphValue, gridStep, sampleCurve, zoomViewport, type PlotPoint, type Viewport } from './utils/limitGraph';
+import { getQuizScores, recordQuizScore, type QuizScore } from './utils/quizScores';
+import { findSolutionMathErrors, sanitizeMathMarkdown, type MathError } from './utils/mathFormatting';
+import { summarizeMisreadings } from './utils/misreadings';
+import { classifyLimitForm, INDETERMINATE_FORM_LATEX } from './utils/limitForm';
+import { isLimitTopic, problemSnippet, topicOf, TOPICS, withTopic } from './utils/topics';
+import { getMessages, LANGUAGE_NAMES, LANGUAGES, stepExplanations, type Messages } from './i18n/messages';
+import type { ChatMessage, DetectedProblem, DocumentProblem, FollowUpContext, HistoryEntry, Language, MethodChoice, PartialSolution, PracticeRecord, ProblemCorrection, ProblemDifficulty, SimilarProblem, SolutionLanguage, SolveError, SolveResult, StructuredSolution, Topic, TopicChoice } from './types';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import ReactCrop, { type Crop, type PixelCrop, centerCrop, makeAspectCrop } from 'react-image-crop';
+import ReactCrop, { type Crop, type PixelCrop, centerCrop, convertToPixelCrop, makeAspectCrop } from 'react-image-crop';
 
 
 // --- Type Definitions ---
 
-interface HistoryEntry {
-  id: number;
-  imageData: { base64: string; mimeType: string };
-  problemSnippet: string;
-  fullSolution: string;
+// `worksheet` takes a photo of several problems, detects them and solves the chosen ones one by one.
+type InputMode = 'image' | 'text' | 'worksheet';
+
+/** A chosen worksheet problem as it moves through the solve queue. */
+interface WorksheetCard {
+    /** 1-based position of the problem on the worksheet. */
+    number: number;
+    status: 'queued' | 'solving' | 'solved' | 'failed';
+    /** The problem's region of the worksheet photo, once cut out. */
+    image?: Blob;
+    partialSolution: PartialSolution | null;
+    solution: StructuredSolution | null;
+    verification: LimitVerification | null;
+    error: SolveError | null;
 }
 
+/** One image in the batch solve queue. `ready` items wait for the user to start them, so they can be cropped first. */
+interface BatchItem {
+    id: number;
+    /** The file name, for the list. */
+    name: string;
+    image: Blob;
+    /** Object URL of `image`, owned by the item. */
+    imageUrl: string;
+    status: 'ready' | 'queued' | 'solving' | 'solved' | 'failed';
+    solution: StructuredSolution | null;
+    verification: LimitVerification | null;
+    error: SolveError | null;
+    /** The history entry the solution was saved as, so a follow-up chat can be saved with it. */
+    entryId: number | null;
+}
+
+// How many batch images are solved at the same time; more tends to hit provider rate limits.
+const BATCH_CONCURRENCY = 2;
+// Delay before solving the offline queue again after a run stopped on a transient failure; doubled for each further stop.
+const QUEUE_RETRY_BASE_MS = 30_000;
+const QUEUE_RETRY_MAX_MS = 10 * 60_000;
+
 // --- Helper Functions & Components ---
 
+interface I18n {
+    language: Language;
+    /** Whether solutions show their Khmer and English explanations side by side. */
+    bilingual: boolean;
+    t: Messages;
+}
+
+// Provided by `App`, so components read their text from the current language instead of taking it as props.
+const I18nContext = createContext<I18n>({ language: 'km', bilingual: false, t: getMessages('km') });
+
+const useI18n = (): I18n => useContext(I18nContext);
+
 const fileToUrl = (file: File): Promise<string> => {
     return new Promise((resolve) => {
         resolve(URL.createObjectURL(file));
     });
 };
 
-const getCroppedImg = (image: HTMLImageElement, crop: PixelCrop, mimeType: string): Promise<{ base64: string; url: string }> => {
-    return new Promise((resolve) => {
-        const canvas = document.createElement('canvas');
-        const scaleX = image.naturalWidth / image.width;
-        const scaleY = image.naturalHeight / image.height;
+// Copies a rendered solution as rich HTML (with a plain-text fallback) so it pastes into documents.
+const copySolutionToClipboard = async (container: HTMLElement, failureMessage: string): Promise<boolean> => {
+    const contentToCopy = container.querySelector<HTMLElement>('.markdown-content');
+    if (!contentToCopy) return false;
 
-        canvas.width = crop.width;
-        canvas.height = crop.height;
-        const ctx = canvas.getContext('2d');
+    const htmlContent = contentToCopy.innerHTML;
+    const textContent = contentToCopy.innerText;
 
-        if (!ctx) {
-            throw new Error('Could not get canvas context');
-        }
+    try {
+        await navigator.clipboard.write([
+            new ClipboardItem({
+                'text/html': new Blob([htmlContent], { type: 'text/html' }),
+                'text/plain': new Blob([textContent], { type: 'text/plain' })
+            })
+        ]);
+        return true;
+    } catch (err) {
+        console.error("Failed to copy rich text, falling back to plain text:", err);
+    }
+    try {
+        await navigator.clipboard.writeText(textContent);
+        return true;
+    } catch (err) {
+        console.error("Failed to copy plain text:", err);
+        alert(failureMessage);
+        return false;
+    }
+};
 
-        const pixelRatio = window.devicePixelRatio || 1;
-        canvas.width = crop.width * pixelRatio;
-        canvas.height = crop.height * pixelRatio;
-        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-        ctx.imageSmoothingQuality = 'high';
+let lastHistoryId = 0;
 
-        ctx.drawImage(
-            image,
-            crop.x * scaleX,
-            crop.y * scaleY,
-            crop.width * scaleX,
-            crop.height * scaleY,
-            0,
-            0,
-            crop.width,
-            crop.height
-        );
-        
-        const base64 = canvas.toDataURL(mimeType).split(',')[1];
-        canvas.toBlob((blob) => {
-            if (!blob) {
-                console.error('Canvas is empty');
-                return;
-            }
-            const url = URL.createObjectURL(blob);
-            resolve({ base64, url });
-        }, mimeType, 1);
-    });
+// Entries are keyed by time, but concurrent batch solves can finish within the same millisecond.
+const nextHistoryId = (): number => {
+    lastHistoryId = Math.max(Date.now(), lastHistoryId + 1);
+    return lastHistoryId;
+};
+
+const createHistoryEntry = async (
+    solution: StructuredSolution,
+    verification: LimitVerification,
+    source: { image: Blob } | { problemText: string },
+    details: Pick<HistoryEntry, 'correction' | 'method'> = {},
+): Promise<HistoryEntry> => {
+    const id = nextHistoryId();
+    return {
+        id,
+        createdAt: id,
+        ...('image' in source
+            ? { image: source.image, thumbnail: await createThumbnail(source.image).catch(() => undefined) }
+            : { problemText: source.problemText }),
+        problemSnippet: problemSnippet(solution),
+        solution,
+        verification,
+        favorite: false,
+        tags: [],
+        ...details,
+    };
 };
 
+const Loader: React.FC = () => {
+    const { t } = useI18n();
+    return (
+      <div className="flex flex-col items-center justify-center space-y-2">
+        <svg className="animate-spin h-8 w-8 text-blue-600 dark:text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        <p className="text-blue-600 dark:text-blue-400">{t.common.calculating}</p>
+      </div>
+    );
+};
 
-const Loader: React.FC = () => (
-  <div className="flex flex-col items-center justify-center space-y-2">
-    <svg className="animate-spin h-8 w-8 text-blue-600 dark:text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-    </svg>
-    <p className="text-blue-600 dark:text-blue-400">កំពុងគណនា... សូមរង់ចាំបន្តិច</p>
-  </div>
-);
+// Typed input may be bare LaTeX (`\lim_{x \to 1} ...`) or already use `$` delimiters.
+const toPreviewMarkdown = (text: string): string => {
+    const trimmed = text.trim();
+    return trimmed.includes('$') ? trimmed : `$$${trimmed}$$`;
+};
+
+// Cuts a streamed Markdown string before an unclosed `$`/`$$` span so half-written LaTeX never reaches KaTeX.
+const trimIncompleteMath = (text: string): string => {
+    let openAt = -1;
+    let openDelimiter = '';
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (text[i] !== '$') continue;
+        const delimiter = text[i + 1] === '$' ? '$$' : '$';
+        if (openAt === -1) {
+            openAt = i;
+            openDelimiter = delimiter;
+        } else if (delimiter === openDelimiter) {
+            openAt = -1;
+        }
+        i += delimiter.length - 1;
+    }
+    return openAt === -1 ? text : text.slice(0, openAt);
+};
 
 // --- Icon Components ---
 
@@ -87,6 +198,13 @@ const UploadIcon: React.FC = () => (
     </svg>
 );
 
+const CameraIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0zM18.75 10.5h.008v.008h-.008V10.5z" />
+    </svg>
+);
+
 const MoonIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
         <path d="M12 3a6 6 0 0 0 9 9 9 9 0 1 1-9-9Z"></path>
@@ -127,6 +245,14 @@ const CheckCircleIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
     </svg>
 );
 
+const TypeIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+        <polyline points="4 7 4 4 20 4 20 7"></polyline>
+        <line x1="9" y1="20" x2="15" y2="20"></line>
+        <line x1="12" y1="4" x2="12" y2="20"></line>
+    </svg>
+);
+
 const HistoryIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
     <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
@@ -144,6 +270,43 @@ const TrashIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   </svg>
 );
 
+const StarIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
+  </svg>
+);
+
+const TagIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <path d="M12.586 2.586A2 2 0 0 0 11.172 2H4a2 2 0 0 0-2 2v7.172a2 2 0 0 0 .586 1.414l8.704 8.704a2.426 2.426 0 0 0 3.42 0l6.58-6.58a2.426 2.426 0 0 0 0-3.42z" />
+    <circle cx="7.5" cy="7.5" r=".5" fill="currentColor" />
+  </svg>
+);
+
+const DownloadIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+    <polyline points="7 10 12 15 17 10" />
+    <line x1="12" y1="15" x2="12" y2="3" />
+  </svg>
+);
+
+const FileImportIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+    <polyline points="17 8 12 3 7 8" />
+    <line x1="12" y1="3" x2="12" y2="15" />
+  </svg>
+);
+
+const PrinterIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <polyline points="6 9 6 2 18 2 18 9" />
+    <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
+    <rect x="6" y="14" width="12" height="8" />
+  </svg>
+);
+
 const ChevronDownIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
     <polyline points="6 9 12 15 18 9"></polyline>
@@ -157,292 +320,2392 @@ interface ThemeToggleProps {
     onToggle: () => void;
 }
 
-const ThemeToggle: React.FC<ThemeToggleProps> = ({ theme, onToggle }) => (
-    <button
-        onClick={onToggle}
-        className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-50 dark:focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
-        aria-label={theme === 'light' ? 'Switch to dark mode' : 'Switch to light mode'}
-    >
-        {theme === 'light' ? <MoonIcon className="h-6 w-6" /> : <SunIcon className="h-6 w-6" />}
-    </button>
-);
+const ThemeToggle: React.FC<ThemeToggleProps> = ({ theme, onToggle }) => {
+    const { t } = useI18n();
+    return (
+        <button
+            onClick={onToggle}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-50 dark:focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            aria-label={theme === 'light' ? t.settings.darkMode : t.settings.lightMode}
+        >
+            {theme === 'light' ? <MoonIcon className="h-6 w-6" /> : <SunIcon className="h-6 w-6" />}
+        </button>
+    );
+};
 
-const ImageGuidelines: React.FC = () => (
-    <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
-        <p className="font-semibold text-center mb-2">💡 គន្លឹះដើម្បីទទួលបានលទ្ធផលល្អបំផុត៖</p>
-        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-left max-w-md mx-auto">
-            <li className="flex items-center">
-                <CheckCircleIcon className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />
-                <span>ពន្លឺគ្រប់គ្រាន់ និងច្បាស់</span>
-            </li>
-            <li className="flex items-center">
-                <CheckCircleIcon className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />
-                <span>គ្មានស្រមោល ឬពន្លឺចាំង</span>
-            </li>
-            <li className="flex items-center">
-                <CheckCircleIcon className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />
-                <span>រូបថតចំលំហាត់</span>
-            </li>
-             <li className="flex items-center">
-                <CheckCircleIcon className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />
-                <span>អក្សរដែលសរសេរច្បាស់ៗ</span>
-            </li>
-        </ul>
-    </div>
-);
+interface LanguageSwitcherProps {
+    language: Language;
+    onChange: (language: Language) => void;
+    bilingual: boolean;
+    onToggleBilingual: () => void;
+}
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ language, onChange, bilingual, onToggleBilingual }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex items-center gap-2">
+            <select
+                value={language}
+                onChange={(e) => onChange(e.target.value as Language)}
+                className="text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 px-2 py-1"
+                aria-label={t.settings.language}
+            >
+                {LANGUAGES.map(code => <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>)}
+            </select>
+            <button
+                onClick={onToggleBilingual}
+                aria-pressed={bilingual}
+                title={t.settings.bilingualHint}
+                className={`text-sm px-2 py-1 rounded-md border transition-colors ${bilingual ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+            >
+                {t.settings.bilingual}
+            </button>
+        </div>
+    );
+};
+
+type GuidelineId = 'lighting' | 'glare' | 'straight' | 'legible';
+
+const IMAGE_GUIDELINES: GuidelineId[] = ['lighting', 'glare', 'straight', 'legible'];
+
+// Each automatic check points back to the tip it enforces.
+const QUALITY_ISSUE_GUIDELINES: Record<ImageQualityIssue, GuidelineId> = {
+    blurry: 'lighting',
+    tooDark: 'lighting',
+    tooBright: 'lighting',
+    glare: 'glare',
+    tilted: 'straight',
+    textTooSmall: 'legible',
+};
+
+/** The result of the local photo check: `issues` is null while it runs. */
+interface ImageQualityState {
+    issues: ImageQualityIssue[] | null;
+    /** The user chose to solve despite the warnings. */
+    overridden: boolean;
+}
+
+const isQualityBlocking = (quality: ImageQualityState | null): boolean =>
+    !!quality && (quality.issues === null || (quality.issues.length > 0 && !quality.overridden));
+
+const ImageGuidelines: React.FC<{ failed?: GuidelineId[] }> = ({ failed = [] }) => {
+    const { t } = useI18n();
+    return (
+        <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            <p className="font-semibold text-center mb-2">{t.guidelines.title}</p>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-left max-w-md mx-auto">
+                {IMAGE_GUIDELINES.map(guideline => (
+                    <li key={guideline} className={`flex items-center ${failed.includes(guideline) ? 'text-amber-700 dark:text-amber-300 font-medium' : ''}`}>
+                        {failed.includes(guideline)
+                            ? <span className="h-4 w-4 mr-2 flex-shrink-0 text-center leading-4" aria-hidden="true">⚠️</span>
+                            : <CheckCircleIcon className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />}
+                        <span>{t.guidelines[guideline]}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+interface ImageQualityWarningProps {
+    issues: ImageQualityIssue[];
+    onOverride: () => void;
+}
+
+const ImageQualityWarning: React.FC<ImageQualityWarningProps> = ({ issues, onOverride }) => {
+    const { t } = useI18n();
+    return (
+        <div className="mt-4 p-4 rounded-lg border border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200" role="alert">
+            <p className="font-semibold mb-2">{t.quality.title}</p>
+            <ul className="list-disc pl-5 space-y-1 text-sm">
+                {issues.map(issue => (
+                    <li key={issue}>
+                        {t.quality.issues[issue]}{' '}
+                        <span className="text-amber-700 dark:text-amber-400">{t.quality.tip(t.guidelines[QUALITY_ISSUE_GUIDELINES[issue]])}</span>
+                    </li>
+                ))}
+            </ul>
+            <div className="mt-3 text-right">
+                <button onClick={onOverride} className="text-sm font-medium text-amber-800 underline hover:text-amber-950 dark:text-amber-200 dark:hover:text-white">
+                    {t.quality.useAnyway}
+                </button>
+            </div>
+        </div>
+    );
+};
 
 interface ImageUploaderProps {
-  onImageChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  /** Receives images from the file picker, a drop, a paste or the camera. */
+  onImageFiles: (files: File[]) => void;
   onSolve: () => void;
   imageUrl: string | null;
   isLoading: boolean;
   hasImage: boolean;
+  solveLabel?: string;
+  /** Lets the user pick several files at once (they go to the batch queue). */
+  allowMultiple?: boolean;
+  /** A line under the image, e.g. how much preprocessing shrank it. */
+  imageNote?: string;
+  /** The photo check for the current image; solving waits until it passes or is overridden. */
+  quality?: ImageQualityState | null;
+  onOverrideQuality?: () => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, onSolve, imageUrl, isLoading, hasImage }) => (
-    <div className="w-full max-w-2xl mx-auto">
-        <label htmlFor="file-upload" className="relative cursor-pointer bg-white dark:bg-gray-700/50 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-blue-500 dark:hover:border-blue-400 transition-colors duration-300 flex justify-center items-center h-64 p-4 text-center">
-            {imageUrl ? (
-                <img src={imageUrl} alt="ការបង្ហាញរូបភាពលីមីត" className="max-h-full max-w-full object-contain rounded-md" />
-            ) : (
-                <div className="flex flex-col items-center">
-                    <UploadIcon />
-                    <span className="mt-2 block text-sm font-medium text-gray-900 dark:text-gray-100">
-                        អូសរូបភាពមកដាក់ទីនេះ ឬ <span className="text-blue-600 dark:text-blue-400">ចុចដើម្បីជ្រើសរើស</span>
-                    </span>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">ប្រភេទរូបភាព PNG, JPG, WEBP</p>
+const hasCamera = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const imageFilesOf = (files: FileList | null | undefined): File[] =>
+    Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageFiles, onSolve, imageUrl, isLoading, hasImage, solveLabel, allowMultiple = false, imageNote, quality = null, onOverrideQuality }) => {
+    const { t } = useI18n();
+    const [isDragging, setIsDragging] = useState(false);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+    const acceptFiles = useCallback((files: File[]) => {
+        if (isLoading || files.length === 0) return;
+        onImageFiles(allowMultiple ? files : files.slice(0, 1));
+    }, [isLoading, allowMultiple, onImageFiles]);
+
+    // Ctrl+V anywhere on the page, e.g. a screenshot of the problem.
+    useEffect(() => {
+        const handlePaste = (event: ClipboardEvent) => {
+            const files = imageFilesOf(event.clipboardData?.files);
+            if (files.length === 0) return;
+            event.preventDefault();
+            acceptFiles(files);
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [acceptFiles]);
+
+    const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        acceptFiles(imageFilesOf(event.dataTransfer.files));
+    };
+
+    return (
+        <div className="w-full max-w-2xl mx-auto">
+            <label
+                htmlFor="file-upload"
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(!isLoading); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`relative cursor-pointer bg-white dark:bg-gray-700/50 rounded-lg border-2 border-dashed hover:border-blue-500 dark:hover:border-blue-400 transition-colors duration-300 flex justify-center items-center h-64 p-4 text-center ${
+                    isDragging ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-900/20' : 'border-gray-300 dark:border-gray-600'
+                }`}
+            >
+                {imageUrl ? (
+                    <img src={imageUrl} alt={t.uploader.imageAlt} className="max-h-full max-w-full object-contain rounded-md" />
+                ) : (
+                    <div className="flex flex-col items-center">
+                        <UploadIcon />
+                        <span className="mt-2 block text-sm font-medium text-gray-900 dark:text-gray-100">
+                            {t.uploader.dropHere}<span className="text-blue-600 dark:text-blue-400">{t.uploader.clickToChoose}</span>
+                        </span>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t.uploader.fileTypes}</p>
+                    </div>
+                )}
+                <input
+                    id="file-upload"
+                    name="file-upload"
+                    type="file"
+                    className="sr-only"
+                    onChange={(e) => { acceptFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+                    accept="image/png, image/jpeg, image/webp"
+                    multiple={allowMultiple}
+                    disabled={isLoading}
+                />
+            </label>
+            {imageNote && <p className="mt-2 text-xs text-center text-gray-500 dark:text-gray-400">{imageNote}</p>}
+            {hasCamera && (
+                <div className="mt-3 flex justify-center">
+                    <button
+                        onClick={() => setIsCameraOpen(true)}
+                        disabled={isLoading}
+                        className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-blue-600 bg-blue-50 hover:bg-blue-100 dark:text-blue-300 dark:bg-blue-900/30 dark:hover:bg-blue-900/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <CameraIcon className="h-5 w-5 mr-2" />
+                        {t.uploader.takePhoto}
+                    </button>
                 </div>
             )}
-            <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={onImageChange} accept="image/png, image/jpeg, image/webp" disabled={isLoading} />
-        </label>
-        <ImageGuidelines />
-        <div className="mt-6 flex justify-center">
+            {quality?.issues && quality.issues.length > 0 && !quality.overridden && onOverrideQuality && (
+                <ImageQualityWarning issues={quality.issues} onOverride={onOverrideQuality} />
+            )}
+            <ImageGuidelines failed={quality?.overridden ? [] : quality?.issues?.map(issue => QUALITY_ISSUE_GUIDELINES[issue])} />
+            <div className="mt-6 flex justify-center">
+                <button
+                    onClick={onSolve}
+                    disabled={!hasImage || isLoading || isQualityBlocking(quality)}
+                    className="w-full sm:w-auto inline-flex items-center justify-center px-12 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-transform transform hover:scale-105"
+                >
+                    {quality && quality.issues === null ? t.quality.checking : solveLabel ?? t.common.solve}
+                </button>
+            </div>
+            <CameraCaptureModal
+                isOpen={isCameraOpen}
+                onClose={() => setIsCameraOpen(false)}
+                onCapture={(file) => { setIsCameraOpen(false); acceptFiles([file]); }}
+            />
+        </div>
+    );
+};
+
+interface OfflineNoticeProps {
+    isOnline: boolean;
+    /** Photos waiting in the offline queue. */
+    queuedCount: number;
+    isSolvingQueue: boolean;
+    /** The outcome of the last run through the queue. */
+    queueResult: { solved: number; failed: number } | null;
+}
+
+// Connection status and the photos solved, or waiting to be solved, from the offline queue.
+const OfflineNotice: React.FC<OfflineNoticeProps> = ({ isOnline, queuedCount, isSolvingQueue, queueResult }) => {
+    const { t } = useI18n();
+    const messages = [
+        !isOnline && t.offline.banner,
+        queuedCount > 0 && (isSolvingQueue ? t.offline.solving(queuedCount) : t.offline.queued(queuedCount)),
+        !!queueResult?.solved && t.offline.solved(queueResult.solved),
+        !!queueResult?.failed && t.offline.failed(queueResult.failed),
+    ].filter((message): message is string => !!message);
+    if (messages.length === 0) return null;
+    return (
+        <div className="mb-6 p-3 rounded-lg border border-amber-300 bg-amber-50 text-sm text-amber-900 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200" role="status">
+            {messages.map(message => <p key={message}>{message}</p>)}
+        </div>
+    );
+};
+
+interface InputModeTabsProps {
+    mode: InputMode;
+    onChange: (mode: InputMode) => void;
+    isLoading: boolean;
+}
+
+const InputModeTabs: React.FC<InputModeTabsProps> = ({ mode, onChange, isLoading }) => {
+    const { t } = useI18n();
+    const tabClass = (tab: InputMode) =>
+        `flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:cursor-not-allowed ${
+            mode === tab
+                ? 'bg-white text-blue-600 shadow dark:bg-gray-800 dark:text-blue-400'
+                : 'text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'
+        }`;
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mb-6 flex p-1 rounded-lg bg-gray-100 dark:bg-gray-700/50" role="tablist">
+            <button role="tab" aria-selected={mode === 'image'} onClick={() => onChange('image')} disabled={isLoading} className={tabClass('image')}>
+                {t.inputModes.image}
+            </button>
+            <button role="tab" aria-selected={mode === 'text'} onClick={() => onChange('text')} disabled={isLoading} className={tabClass('text')}>
+                {t.inputModes.text}
+            </button>
+            <button role="tab" aria-selected={mode === 'worksheet'} onClick={() => onChange('worksheet')} disabled={isLoading} className={tabClass('worksheet')}>
+                {t.inputModes.worksheet}
+            </button>
+        </div>
+    );
+};
+
+interface PracticeToggleProps {
+    enabled: boolean;
+    onToggle: () => void;
+    isLoading: boolean;
+}
+
+const PracticeToggle: React.FC<PracticeToggleProps> = ({ enabled, onToggle, isLoading }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex justify-center mb-6">
             <button
-                onClick={onSolve}
-                disabled={!hasImage || isLoading}
-                className="w-full sm:w-auto inline-flex items-center justify-center px-12 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-transform transform hover:scale-105"
+                role="switch"
+                aria-checked={enabled}
+                onClick={onToggle}
+                disabled={isLoading}
+                title={t.practice.toggleHint}
+                className="inline-flex items-center gap-3 text-sm font-medium text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-                ដោះស្រាយ
+                <span className={`relative inline-block h-6 w-11 rounded-full transition-colors ${enabled ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'}`}>
+                    <span className={`absolute top-0.5 left-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform ${enabled ? 'translate-x-5' : ''}`} />
+                </span>
+                {t.practice.toggle}
             </button>
         </div>
-    </div>
-);
+    );
+};
 
+const METHOD_CHOICES: MethodChoice[] = ['auto', ...SOLVING_METHODS, 'twoMethods'];
 
-interface SolutionDisplayProps {
-    solution: string | null;
-    isLoading: boolean;
-    error: string | null;
-    onCopy: () => void;
-    isCopied: boolean;
+interface MethodSelectProps {
+    value: MethodChoice;
+    onChange: (method: MethodChoice) => void;
+    disabled?: boolean;
 }
 
-const SolutionDisplay = forwardRef<HTMLDivElement, SolutionDisplayProps>(({ solution, isLoading, error, onCopy, isCopied }, ref) => {
-    if (isLoading) {
-        return <div className="mt-8"><Loader /></div>;
-    }
+const MethodSelect: React.FC<MethodSelectProps> = ({ value, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    const id = useId();
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+            <label htmlFor={id} className="text-sm font-medium text-gray-700 dark:text-gray-300">{t.methods.label}</label>
+            <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(e.target.value as MethodChoice)}
+                disabled={disabled}
+                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-1.5 text-sm disabled:opacity-50"
+            >
+                {METHOD_CHOICES.map(method => <option key={method} value={method}>{t.methods.choices[method]}</option>)}
+            </select>
+        </div>
+    );
+};
 
-    if (error) {
-        return (
-            <div className="mt-8 w-full max-w-3xl mx-auto bg-red-50 dark:bg-red-900/20 border-l-4 border-red-400 dark:border-red-500 p-4 rounded-md">
-                <div className="flex">
-                    <div className="flex-shrink-0">
-                        <svg className="h-5 w-5 text-red-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                        </svg>
-                    </div>
-                    <div className="ml-3">
-                        <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
-                    </div>
-                </div>
-            </div>
-        );
-    }
+const TOPIC_CHOICES: TopicChoice[] = ['auto', ...TOPICS];
 
-    if (!solution) {
-        return null;
-    }
+interface TopicSelectProps {
+    value: TopicChoice;
+    onChange: (topic: TopicChoice) => void;
+    disabled?: boolean;
+}
 
+const TopicSelect: React.FC<TopicSelectProps> = ({ value, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    const id = useId();
     return (
-        <div className="mt-8 w-full max-w-3xl mx-auto">
-            <div className="flex justify-between items-center mb-4">
-                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">ចម្លើយលម្អិត</h2>
-                <button
-                    onClick={onCopy}
-                    disabled={isCopied}
-                    className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm transition-colors duration-200 disabled:cursor-not-allowed
-                               bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600
-                               disabled:bg-green-100 disabled:text-green-800 dark:disabled:bg-green-900/50 dark:disabled:text-green-300"
-                    aria-label={isCopied ? 'Solution copied' : 'Copy solution'}
-                >
-                    {isCopied ? (
-                        <>
-                            <CheckIcon className="h-5 w-5 mr-2" />
-                            <span>បានចម្លង</span>
-                        </>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+            <label htmlFor={id} className="text-sm font-medium text-gray-700 dark:text-gray-300">{t.topics.label}</label>
+            <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(e.target.value as TopicChoice)}
+                disabled={disabled}
+                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-1.5 text-sm disabled:opacity-50"
+            >
+                {TOPIC_CHOICES.map(topic => <option key={topic} value={topic}>{t.topics.choices[topic]}</option>)}
+            </select>
+        </div>
+    );
+};
+
+// The indeterminate form of a typed or recognized limit, classified locally so it shows before any solve.
+const LimitFormNote: React.FC<{ latex: string }> = ({ latex }) => {
+    const { t } = useI18n();
+    const form = useMemo(() => {
+        const problem = parseLimitLatex(latex);
+        return problem && classifyLimitForm(problem);
+    }, [latex]);
+    if (!form) return null;
+    return (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+            <InlineMarkdown>{form === 'determinate' ? t.methods.determinate : t.methods.form(INDETERMINATE_FORM_LATEX[form])}</InlineMarkdown>
+        </p>
+    );
+};
+
+interface TextProblemInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    onSolve: () => void;
+    isLoading: boolean;
+}
+
+const TextProblemInput: React.FC<TextProblemInputProps> = ({ value, onChange, onSolve, isLoading }) => {
+    const { t } = useI18n();
+    return (
+        <div className="w-full max-w-2xl mx-auto">
+            <label htmlFor="problem-text" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {t.textInput.label}
+            </label>
+            <textarea
+                id="problem-text"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                disabled={isLoading}
+                rows={4}
+                placeholder="\lim_{x \to 1} \frac{x^2-1}{x-1}"
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700/50 p-3 font-mono text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="mt-4">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t.textInput.preview}</p>
+                <div className="min-h-[5rem] flex items-center justify-center rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 text-gray-800 dark:text-gray-200 overflow-x-auto">
+                    {value.trim() ? (
+                        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                            {toPreviewMarkdown(value)}
+                        </ReactMarkdown>
                     ) : (
-                        <>
-                            <CopyIcon className="h-5 w-5 mr-2" />
-                            <span>ចម្លង</span>
-                        </>
+                        <span className="text-sm text-gray-400">{t.textInput.previewEmpty}</span>
                     )}
+                </div>
+                <div className="mt-2 text-center">
+                    <LimitFormNote latex={value} />
+                </div>
+            </div>
+            <div className="mt-6 flex justify-center">
+                <button
+                    onClick={onSolve}
+                    disabled={!value.trim() || isLoading}
+                    className="w-full sm:w-auto inline-flex items-center justify-center px-12 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-transform transform hover:scale-105"
+                >
+                    {t.common.solve}
                 </button>
             </div>
-            <div ref={ref} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
-                <div className="markdown-content text-gray-800 dark:text-gray-200 leading-relaxed">
-                    <ReactMarkdown
-                        remarkPlugins={[remarkMath]}
-                        rehypePlugins={[rehypeKatex]}
-                        components={{
-                            p: ({node, ...props}) => <p className="mb-4" {...props} />,
-                            ul: ({node, ...props}) => <ul className="list-disc list-inside mb-4 pl-4 space-y-2" {...props} />,
-                            ol: ({node, ...props}) => <ol className="list-decimal list-inside mb-4 pl-4 space-y-2" {...props} />,
-                            // FIX: Cast props to `any` to resolve a TypeScript error where the `inline` property is not recognized.
-                            // This is a common issue with `react-markdown` version updates and type mismatches.
-                            code: ({node, inline, className, children, ...props}: any) => {
-                                return !inline ? (
-                                  <pre className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-md overflow-x-auto my-4 font-mono text-sm"><code className={className} {...props}>{children}</code></pre>
-                                ) : (
-                                  <code className="bg-gray-200 dark:bg-gray-700 rounded-sm px-1.5 py-1 font-mono text-sm" {...props}>
-                                    {children}
-                                  </code>
-                                )
-                            },
-                            blockquote: ({node, ...props}) => <blockquote className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic my-4" {...props} />,
-                            strong: ({node, ...props}) => <strong className="font-bold" {...props} />,
-                            h1: ({node, ...props}) => <h1 className="text-2xl font-bold mt-6 mb-3 border-b pb-2" {...props} />,
-                            h2: ({node, ...props}) => <h2 className="text-xl font-bold mt-5 mb-3" {...props} />,
-                            h3: ({node, ...props}) => <h3 className="text-lg font-bold mt-4 mb-2" {...props} />,
-                        }}
-                    >
-                        {solution}
+        </div>
+    );
+};
+
+
+const VERIFICATION_BADGE_CLASSES: Record<LimitVerification['status'], string> = {
+    verified: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    disagrees: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+    unchecked: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const VerificationBadge: React.FC<{ verification: LimitVerification }> = ({ verification }) => {
+    const { t } = useI18n();
+    return (
+        <div className="mb-4 flex flex-wrap items-center gap-3 text-sm">
+            <span className={`inline-flex items-center px-3 py-1 rounded-full font-medium ${VERIFICATION_BADGE_CLASSES[verification.status]}`}>
+                {verification.status === 'verified' && <CheckCircleIcon className="h-4 w-4 mr-1.5" />}
+                {t.verification[verification.status]}
+            </span>
+            {verification.numericEstimate && (
+                <span className="text-gray-600 dark:text-gray-400">
+                    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]} components={{ p: ({node, ...props}) => <span {...props} /> }}>
+                        {`${t.verification.estimate} $\approx ${verification.numericEstimate}$`}
                     </ReactMarkdown>
-                 </div>
-            </div>
+                </span>
+            )}
         </div>
     );
-});
+};
 
+const GRAPH_WIDTH = 600;
+const GRAPH_HEIGHT = 320;
+const GRAPH_ZOOM_STEP = 1.25;
 
-interface HistorySectionProps {
-    history: HistoryEntry[];
-    onSelect: (entry: HistoryEntry) => void;
-    onClear: () => void;
-    onDelete: (id: number) => void;
-}
+// Legacy solutions only name the limit in their `## $\lim ...$` heading.
+const parseSolutionLimit = (solution: StructuredSolution | string): LimitProblem | null =>
+    typeof solution === 'string' ? parseLimitHeading(solution) : parseLimitLatex(solution.problemLatex);
 
-const HistorySection: React.FC<HistorySectionProps> = ({ history, onSelect, onClear, onDelete }) => {
-    const [isOpen, setIsOpen] = useState(false);
+const InlineMarkdown: React.FC<{ children: string }> = ({ children }) => (
+    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]} components={{ p: ({node, ...props}) => <span {...props} /> }}>
+        {children}
+    </ReactMarkdown>
+);
 
-    if (history.length === 0) {
-        return null;
+// The function plotted around the limit point, marking the approach point, any hole or asymptote and the one-sided values.
+// Scrolling or the buttons zoom, dragging pans, and hovering reads off f(x).
+const LimitGraph: React.FC<{ solution: StructuredSolution | string }> = ({ solution }) => {
+    const { t } = useI18n();
+    const problem = useMemo(() => parseSolutionLimit(solution), [solution]);
+    const features = useMemo(() => problem && analyzeLimitGraph(problem), [problem]);
+    const initialViewport = useMemo(() => problem && features && defaultViewport(problem, features), [problem, features]);
+    const [viewport, setViewport] = useState<Viewport | null>(initialViewport);
+    const [hoverX, setHoverX] = useState<number | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    // Worksheets show several graphs at once, so each needs its own clip path id.
+    const clipId = useId();
+    const dragRef = useRef<{ clientX: number; clientY: number; viewport: Viewport } | null>(null);
+
+    useEffect(() => {
+        setViewport(initialViewport);
+        setHoverX(null);
+    }, [initialViewport]);
+
+    const zoom = useCallback((factor: number, anchorX?: number, anchorY?: number) => {
+        setViewport(current => {
+            if (!current) return current;
+            const next = zoomViewport(current, factor, anchorX, anchorY);
+            const width = next.xMax - next.xMin;
+            // Past these spans the samples are lost to round-off or too sparse to draw.
+            return width < 1e-6 || width > 1e6 ? current : next;
+        });
+    }, []);
+
+    // React registers wheel listeners as passive, so the page would scroll along with the zoom.
+    useEffect(() => {
+        const svg = svgRef.current;
+        if (!svg) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = svg.getBoundingClientRect();
+            zoom(e.deltaY > 0 ? GRAPH_ZOOM_STEP : 1 / GRAPH_ZOOM_STEP, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+        };
+        svg.addEventListener('wheel', handleWheel, { passive: false });
+        return () => svg.removeEventListener('wheel', handleWheel);
+    }, [problem, zoom]);
+
+    const curve = useMemo(() => problem && viewport ? sampleCurve(problem.expression, viewport) : [], [problem, viewport]);
+
+    if (!problem || !features || !viewport) {
+        return <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">{t.graph.unavailable}</p>;
     }
 
+    const { xMin, xMax, yMin, yMax } = viewport;
+    const toScreenX = (x: number) => ((x - xMin) / (xMax - xMin)) * GRAPH_WIDTH;
+    const toScreenY = (y: number) => ((yMax - y) / (yMax - yMin)) * GRAPH_HEIGHT;
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { clientX: e.clientX, clientY: e.clientY, viewport };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const drag = dragRef.current;
+        if (!drag) {
+            setHoverX(xMin + ((e.clientX - rect.left) / rect.width) * (xMax - xMin));
+            return;
+        }
+        const start = drag.viewport;
+        const dx = ((e.clientX - drag.clientX) / rect.width) * (start.xMax - start.xMin);
+        const dy = ((e.clientY - drag.clientY) / rect.height) * (start.yMax - start.yMin);
+        setViewport({ xMin: start.xMin - dx, xMax: start.xMax - dx, yMin: start.yMin + dy, yMax: start.yMax + dy });
+    };
+
+    const endDrag = () => {
+        dragRef.current = null;
+    };
+
+    const xStep = gridStep(xMax - xMin);
+    const yStep = gridStep(yMax - yMin);
+    const xTicks = Array.from({ length: Math.floor(xMax / xStep) - Math.ceil(xMin / xStep) + 1 }, (_, i) => (Math.ceil(xMin / xStep) + i) * xStep);
+    const yTicks = Array.from({ length: Math.floor(yMax / yStep) - Math.ceil(yMin / yStep) + 1 }, (_, i) => (Math.ceil(yMin / yStep) + i) * yStep);
+    const tickLabel = (value: number) => Number(value.toPrecision(6)).toString();
+
+    const { approachX, leftValue, rightValue, hole, valueAt, verticalAsymptote, horizontalAsymptote } = features;
+    // Open circles where the curve ends at the approach point without reaching it: a hole, or both ends of a jump.
+    const openPoints: PlotPoint[] = hole ? [hole] : approachX === undefined ? [] : [leftValue, rightValue]
+        .filter((y): y is number => y !== undefined && Number.isFinite(y) && !(valueAt && Math.abs(valueAt.y - y) <= 1e-3 * Math.max(1, Math.abs(y))))
+        .map(y => ({ x: approachX, y }));
+
+    const hoverY = hoverX === null ? null : evaluate(problem.expression, hoverX);
+    const legend = [
+        approachX !== undefined && t.graph.approach(formatGraphValue(approachX)),
+        leftValue !== undefined && t.graph.left(formatGraphValue(leftValue)),
+        rightValue !== undefined && t.graph.right(formatGraphValue(rightValue)),
+        hole && t.graph.hole(formatGraphValue(hole.x), formatGraphValue(hole.y)),
+        verticalAsymptote !== undefined && t.graph.verticalAsymptote(formatGraphValue(verticalAsymptote)),
+        horizontalAsymptote !== undefined && t.graph.horizontalAsymptote(formatGraphValue(horizontalAsymptote)),
+    ].filter((item): item is string => !!item);
+
     return (
-        <section className="mt-12 w-full max-w-3xl mx-auto">
-            <div className="bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg">
-                <button
-                    className="w-full flex justify-between items-center p-4 sm:p-5 text-left font-bold text-lg text-gray-800 dark:text-gray-100"
-                    onClick={() => setIsOpen(!isOpen)}
-                    aria-expanded={isOpen}
-                    aria-controls="history-panel"
-                >
-                    <div className="flex items-center">
+        <div className="mt-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t.graph.title}</h3>
+                <div className="flex gap-1">
+                    {[
+                        { label: t.graph.zoomIn, text: '+', onClick: () => zoom(1 / GRAPH_ZOOM_STEP) },
+                        { label: t.graph.zoomOut, text: '−', onClick: () => zoom(GRAPH_ZOOM_STEP) },
+                        { label: t.graph.reset, text: '⟲', onClick: () => setViewport(initialViewport) },
+                    ].map(({ label, text, onClick }) => (
+                        <button
+                            key={label}
+                            onClick={onClick}
+                            aria-label={label}
+                            title={label}
+                            className="w-8 h-8 rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                        >
+                            {text}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 border border-gray-200 dark:border-gray-700">
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+                    className="w-full h-auto touch-none cursor-crosshair select-none"
+                    role="img"
+                    aria-label={t.graph.label}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                    onPointerLeave={() => setHoverX(null)}
+                >
+                    <defs>
+                        <clipPath id={clipId}>
+                            <rect width={GRAPH_WIDTH} height={GRAPH_HEIGHT} />
+                        </clipPath>
+                    </defs>
+                    <g className="stroke-gray-100 dark:stroke-gray-700" strokeWidth={1}>
+                        {xTicks.map(x => <line key={`x${x}`} x1={toScreenX(x)} x2={toScreenX(x)} y1={0} y2={GRAPH_HEIGHT} />)}
+                        {yTicks.map(y => <line key={`y${y}`} x1={0} x2={GRAPH_WIDTH} y1={toScreenY(y)} y2={toScreenY(y)} />)}
+                    </g>
+                    <g className="stroke-gray-400 dark:stroke-gray-500" strokeWidth={1.5}>
+                        {xMin < 0 && xMax > 0 && <line x1={toScreenX(0)} x2={toScreenX(0)} y1={0} y2={GRAPH_HEIGHT} />}
+                        {yMin < 0 && yMax > 0 && <line x1={0} x2={GRAPH_WIDTH} y1={toScreenY(0)} y2={toScreenY(0)} />}
+                    </g>
+                    <g className="fill-gray-500 dark:fill-gray-400" fontSize={11}>
+                        {xTicks.map(x => <text key={`x${x}`} x={toScreenX(x) + 3} y={GRAPH_HEIGHT - 4}>{tickLabel(x)}</text>)}
+                        {yTicks.map(y => <text key={`y${y}`} x={3} y={toScreenY(y) - 3}>{tickLabel(y)}</text>)}
+                    </g>
+                    <g clipPath={`url(#${clipId})`}>
+                        {approachX !== undefined && verticalAsymptote === undefined && (
+                            <line x1={toScreenX(approachX)} x2={toScreenX(approachX)} y1={0} y2={GRAPH_HEIGHT} className="stroke-blue-300 dark:stroke-blue-700" strokeWidth={1.5} strokeDasharray="4 4" />
+                        )}
+                        {verticalAsymptote !== undefined && (
+                            <line x1={toScreenX(verticalAsymptote)} x2={toScreenX(verticalAsymptote)} y1={0} y2={GRAPH_HEIGHT} className="stroke-red-400" strokeWidth={1.5} strokeDasharray="6 4" />
+                        )}
+                        {horizontalAsymptote !== undefined && (
+                            <line x1={0} x2={GRAPH_WIDTH} y1={toScreenY(horizontalAsymptote)} y2={toScreenY(horizontalAsymptote)} className="stroke-red-400" strokeWidth={1.5} strokeDasharray="6 4" />
+                        )}
+                        {curve.map((segment, index) => (
+                            <polyline
+                                key={index}
+                                points={segment.map(point => `${toScreenX(point.x)},${toScreenY(point.y)}`).join(' ')}
+                                fill="none"
+                                className="stroke-blue-600 dark:stroke-blue-400"
+                                strokeWidth={2}
+                                strokeLinejoin="round"
+                            />
+                        ))}
+                        {valueAt && <circle cx={toScreenX(valueAt.x)} cy={toScreenY(valueAt.y)} r={4.5} className="fill-blue-600 dark:fill-blue-400" />}
+                        {openPoints.map((point, index) => (
+                            <circle
+                                key={index}
+                                cx={toScreenX(point.x)}
+                                cy={toScreenY(point.y)}
+                                r={5}
+                                className="fill-white dark:fill-gray-800 stroke-blue-600 dark:stroke-blue-400"
+                                strokeWidth={2}
+                            />
+                        ))}
+                        {hoverX !== null && (
+                            <g>
+                                <line x1={toScreenX(hoverX)} x2={toScreenX(hoverX)} y1={0} y2={GRAPH_HEIGHT} className="stroke-gray-300 dark:stroke-gray-600" strokeWidth={1} />
+                                {hoverY !== null && Number.isFinite(hoverY) && (
+                                    <circle cx={toScreenX(hoverX)} cy={toScreenY(hoverY)} r={3.5} className="fill-gray-700 dark:fill-gray-200" />
+                                )}
+                            </g>
+                        )}
+                    </g>
+                </svg>
+                <div className="mt-2 min-h-[1.5rem] text-sm text-gray-700 dark:text-gray-300" aria-live="polite">
+                    {hoverX !== null && hoverY !== null
+                        ? <InlineMarkdown>{t.graph.hover(formatGraphValue(hoverX), Number.isFinite(hoverY) ? formatGraphValue(hoverY) : `\\text{${t.graph.undefinedValue}}`)}</InlineMarkdown>
+                        : <span className="text-gray-500 dark:text-gray-400">{t.graph.hint}</span>}
+                </div>
+                {legend.length > 0 && (
+                    <ul className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+                        {legend.map(item => <li key={item}><InlineMarkdown>{item}</InlineMarkdown></li>)}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const MarkdownContent: React.FC<{ children: string }> = ({ children }) => (
+    <ReactMarkdown
+        remarkPlugins={[remarkMath]}
+        rehypePlugins={[rehypeKatex]}
+        components={{
+            p: ({node, ...props}) => <p className="mb-4" {...props} />,
+            ul: ({node, ...props}) => <ul className="list-disc list-inside mb-4 pl-4 space-y-2" {...props} />,
+            ol: ({node, ...props}) => <ol className="list-decimal list-inside mb-4 pl-4 space-y-2" {...props} />,
+            // FIX: Cast props to `any` to resolve a TypeScript error where the `inline` property is not recognized.
+            // This is a common issue with `react-markdown` version updates and type mismatches.
+            code: ({node, inline, className, children, ...props}: any) => {
+                return !inline ? (
+                  <pre className="bg-gray-100 dark:bg-gray-900/50 p-4 rounded-md overflow-x-auto my-4 font-mono text-sm"><code className={className} {...props}>{children}</code></pre>
+                ) : (
+                  <code className="bg-gray-200 dark:bg-gray-700 rounded-sm px-1.5 py-1 font-mono text-sm" {...props}>
+                    {children}
+                  </code>
+                )
+            },
+            blockquote: ({node, ...props}) => <blockquote className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic my-4" {...props} />,
+            strong: ({node, ...props}) => <strong className="font-bold" {...props} />,
+            h1: ({node, ...props}) => <h1 className="text-2xl font-bold mt-6 mb-3 border-b pb-2" {...props} />,
+            h2: ({node, ...props}) => <h2 className="text-xl font-bold mt-5 mb-3" {...props} />,
+            h3: ({node, ...props}) => <h3 className="text-lg font-bold mt-4 mb-2" {...props} />,
+        }}
+    >
+        {children}
+    </ReactMarkdown>
+);
+
+// Renders the fields of a JSON-schema solution: the problem, its indeterminate form, numbered steps and a highlighted answer.
+// While streaming, a LaTeX field is only shown once the field after it has started (so it is complete), and the
+// explanation being written has its unfinished `$...$` span held back. In the bilingual view a step that has both
+// explanations shows them side by side.
+const StructuredSolutionView: React.FC<{ solution: PartialSolution; isStreaming?: boolean }> = ({ solution, isStreaming = false }) => {
+    const { t, language, bilingual } = useI18n();
+    const steps = solution.steps ?? [];
+    const showProblem = solution.problemLatex && (!isStreaming || solution.limitForm !== undefined);
+    const showLimitForm = solution.limitForm?.trim() && (!isStreaming || solution.steps !== undefined);
+    const showFinalAnswer = solution.finalAnswerLatex !== undefined && !isStreaming;
+
+    return (
+        <>
+            {showProblem && <MarkdownContent>{`$$${solution.problemLatex}$$`}</MarkdownContent>}
+            {showLimitForm && (
+                <div className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+                    <MarkdownContent>{`${t.solution.indeterminateForm} $${solution.limitForm}$`}</MarkdownContent>
+                </div>
+            )}
+            <ol className="space-y-4 mb-6">
+                {steps.map((step, index) => {
+                    const isLastStep = index === steps.length - 1;
+                    const explanationComplete = !isStreaming || step.latex !== undefined;
+                    const latexComplete = !isStreaming || !isLastStep || solution.finalAnswerLatex !== undefined;
+                    const explanations = stepExplanations(step, language, bilingual).map(explanation => ({
+                        ...explanation,
+                        text: explanationComplete ? explanation.text : trimIncompleteMath(explanation.text),
+                    }));
+                    return (
+                        <li key={index} className="flex gap-4">
+                            <span className="flex-shrink-0 flex items-center justify-center h-7 w-7 rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300 text-sm font-bold">
+                                {index + 1}
+                            </span>
+                            <div className="flex-grow min-w-0">
+                                {explanations.length > 1 ? (
+                                    <div className="grid gap-x-6 sm:grid-cols-2">
+                                        {explanations.map(explanation => (
+                                            <div key={explanation.language} lang={explanation.language} className="min-w-0">
+                                                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">{LANGUAGE_NAMES[explanation.language]}</p>
+                                                <MarkdownContent>{explanation.text}</MarkdownContent>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ) : explanations[0]?.text && <MarkdownContent>{explanations[0].text}</MarkdownContent>}
+                                {latexComplete && step.latex?.trim() && <MarkdownContent>{`$$${step.latex}$$`}</MarkdownContent>}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+            {showFinalAnswer && (
+                <div className="rounded-lg border-2 border-blue-500 bg-blue-50 dark:bg-blue-900/20 dark:border-blue-400 px-4 pt-3">
+                    <p className="font-bold text-blue-700 dark:text-blue-300">{t.solution.finalAnswer}</p>
+                    <MarkdownContent>{`$$${solution.finalAnswerLatex}$$`}</MarkdownContent>
+                </div>
+            )}
+        </>
+    );
+};
+
+interface SolutionDisplayProps {
+    // Legacy history entries carry a Markdown string instead of a structured solution.
+    solution: StructuredSolution | string | null;
+    verification: LimitVerification | null;
+    isLoading: boolean;
+    // Fields streamed so far while `isLoading`; null until the first chunk arrives.
+    partialSolution: PartialSolution | null;
+    onCancel: () => void;
+    // Solve failures arrive typed; local problems such as a failed crop are plain messages.
+    error: SolveError | string | null;
+    onCopy: () => void;
+    isCopied: boolean;
+    onExportPdf: () => void;
+    onExportTex: () => void;
+    /** Names the solution when several are shown, e.g. one card per worksheet problem. */
+    title?: string;
+    /** Re-requests the solution when some of its math cannot be rendered; without it the warning has no button. */
+    onFixFormatting?: (errors: MathError[]) => void;
+    onCancelFixFormatting?: () => void;
+    isFixingFormatting?: boolean;
+    fixFormattingError?: SolveError | null;
+    /** Solves again from a corrected reading of the problem or with another method; without it the problem cannot be edited. */
+    onResolveProblem?: (problemLatex: string, method: MethodChoice) => void;
+    /** The method preselected for solving again. */
+    method?: MethodChoice;
+    /** Set when the solution was replayed from the local cache; asks the provider again, bypassing it. */
+    onForceResolve?: () => void;
+}
+
+const SOLUTION_ACTION_BUTTON_CLASS = `inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm transition-colors duration-200
+    bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600`;
+
+interface MathErrorWarningProps {
+    errors: MathError[];
+    onFix?: () => void;
+    onCancelFix?: () => void;
+    isFixing: boolean;
+    fixError: SolveError | null;
+}
+
+// Lists the formulas KaTeX shows as red error text, with the option to have the model correct them.
+const MathErrorWarning: React.FC<MathErrorWarningProps> = ({ errors, onFix, onCancelFix, isFixing, fixError }) => {
+    const { t } = useI18n();
+    return (
+        <div className="mb-4 p-4 rounded-lg border border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200" role="alert">
+            <p className="font-semibold mb-2">{t.formatting.warning(errors.length)}</p>
+            <ul className="list-disc pl-5 space-y-1 text-sm">
+                {errors.map((error, index) => (
+                    <li key={index}>
+                        <code className="font-mono break-all">{error.latex}</code>{' '}
+                        <span className="text-amber-700 dark:text-amber-400">{error.message}</span>
+                    </li>
+                ))}
+            </ul>
+            {fixError && <p className="mt-2 text-sm text-red-700 dark:text-red-300">{t.solveErrors[fixError.kind]}</p>}
+            {onFix && (
+                <div className="mt-3 flex justify-end gap-4">
+                    {isFixing && onCancelFix && (
+                        <button
+                            onClick={onCancelFix}
+                            className="text-sm font-medium text-amber-800 underline hover:text-amber-950 dark:text-amber-200 dark:hover:text-white"
+                        >
+                            {t.common.cancel}
+                        </button>
+                    )}
+                    <button
+                        onClick={onFix}
+                        disabled={isFixing}
+                        className="text-sm font-medium text-amber-800 underline hover:text-amber-950 disabled:no-underline disabled:opacity-60 disabled:cursor-not-allowed dark:text-amber-200 dark:hover:text-white"
+                    >
+                        {isFixing ? t.formatting.fixing : t.formatting.fix}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ProblemCorrectionEditorProps {
+    problemLatex: string;
+    /** The method preselected for solving again; without it the problem's topic has no methods to choose from. */
+    method?: MethodChoice;
+    onResolve: (problemLatex: string, method: MethodChoice) => void;
+}
+
+// The problem as the model read it with its indeterminate form, editable so a misreading can be corrected
+// (or another method chosen) and solved again without a new photo.
+const ProblemCorrectionEditor: React.FC<ProblemCorrectionEditorProps> = ({ problemLatex, method: initialMethod, onResolve }) => {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState(problemLatex);
+    const [method, setMethod] = useState(initialMethod ?? 'auto');
+    const isChanged = draft.trim() !== problemLatex.trim();
+    return (
+        <div className="mb-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
+            <label htmlFor="problem-correction" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t.correction.title}</label>
+            <p className="mt-1 mb-2 text-xs text-gray-500 dark:text-gray-400">{t.correction.hint}</p>
+            <textarea
+                id="problem-correction"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={2}
+                className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700/50 p-3 font-mono text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <LimitFormNote latex={draft} />
+            {isChanged && draft.trim() && (
+                <div className="mt-2">
+                    <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{t.correction.preview}</p>
+                    <div className="flex items-center justify-center rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 text-gray-800 dark:text-gray-200 overflow-x-auto">
+                        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                            {toPreviewMarkdown(draft)}
+                        </ReactMarkdown>
+                    </div>
+                </div>
+            )}
+            <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+                {initialMethod && <MethodSelect value={method} onChange={setMethod} />}
+                {isChanged && (
+                    <button onClick={() => setDraft(problemLatex)} className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700">
+                        {t.correction.undo}
+                    </button>
+                )}
+                <button
+                    onClick={() => onResolve(draft.trim(), method)}
+                    disabled={(!isChanged && method === (initialMethod ?? 'auto')) || !draft.trim()}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    {t.correction.resolve}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const SolutionDisplay = forwardRef<HTMLDivElement, SolutionDisplayProps>(({ solution, verification, isLoading, partialSolution, onCancel, error, onCopy, isCopied, onExportPdf, onExportTex, title, onFixFormatting, onCancelFixFormatting, isFixingFormatting = false, fixFormattingError = null, onResolveProblem, method = 'auto', onForceResolve }, ref) => {
+    const { t } = useI18n();
+    // Legacy Markdown solutions never went through the service's clean-up, so it is applied when they are shown.
+    const shownSolution = useMemo(() => typeof solution === 'string' ? sanitizeMathMarkdown(solution) : solution, [solution]);
+    const mathErrors = useMemo(() => shownSolution ? findSolutionMathErrors(shownSolution) : [], [shownSolution]);
+    if (isLoading && partialSolution) {
+        return (
+            <div className="mt-8 w-full max-w-3xl mx-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="flex items-center text-2xl font-bold text-gray-800 dark:text-gray-100">
+                        <svg className="animate-spin h-5 w-5 mr-3 text-blue-600 dark:text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        {title && `${title} — `}{t.solution.writing}
+                    </h2>
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                    >
+                        {t.common.cancel}
+                    </button>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+                    <div className="markdown-content text-gray-800 dark:text-gray-200 leading-relaxed">
+                        <StructuredSolutionView solution={partialSolution} isStreaming />
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (isLoading) {
+        return (
+            <div className="mt-8 flex flex-col items-center space-y-4">
+                <Loader />
+                <button
+                    onClick={onCancel}
+                    className="px-6 py-2 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                    {t.common.cancel}
+                </button>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="mt-8 w-full max-w-3xl mx-auto bg-red-50 dark:bg-red-900/20 border-l-4 border-red-400 dark:border-red-500 p-4 rounded-md">
+                <div className="flex">
+                    <div className="flex-shrink-0">
+                        <svg className="h-5 w-5 text-red-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                        </svg>
+                    </div>
+                    <div className="ml-3">
+                        {title && <p className="text-sm font-bold text-red-800 dark:text-red-200 mb-1">{title}</p>}
+                        <p className="text-sm text-red-700 dark:text-red-300">{typeof error === 'string' ? error : t.solveErrors[error.kind]}</p>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!shownSolution) {
+        return null;
+    }
+
+    return (
+        <div className="mt-8 w-full max-w-3xl mx-auto">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{title ?? t.solution.title}</h2>
+                <div className="flex flex-wrap justify-end gap-2">
+                    <button onClick={onExportPdf} className={SOLUTION_ACTION_BUTTON_CLASS} aria-label={t.solution.printLabel}>
+                        <PrinterIcon className="h-5 w-5 mr-2" />
+                        <span>PDF</span>
+                    </button>
+                    <button onClick={onExportTex} className={SOLUTION_ACTION_BUTTON_CLASS} aria-label={t.solution.texLabel}>
+                        <DownloadIcon className="h-5 w-5 mr-2" />
+                        <span>.tex</span>
+                    </button>
+                    <button
+                        onClick={onCopy}
+                        disabled={isCopied}
+                        className={`${SOLUTION_ACTION_BUTTON_CLASS} disabled:cursor-not-allowed
+                            disabled:bg-green-100 disabled:text-green-800 dark:disabled:bg-green-900/50 dark:disabled:text-green-300`}
+                        aria-label={isCopied ? t.solution.copiedLabel : t.solution.copyLabel}
+                    >
+                        {isCopied ? (
+                            <>
+                                <CheckIcon className="h-5 w-5 mr-2" />
+                                <span>{t.solution.copied}</span>
+                            </>
+                        ) : (
+                            <>
+                                <CopyIcon className="h-5 w-5 mr-2" />
+                                <span>{t.solution.copy}</span>
+                            </>
+                        )}
+                    </button>
+                </div>
+            </div>
+            {verification && <VerificationBadge verification={verification} />}
+            {onForceResolve && (
+                <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <span title={t.cache.hint} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">{t.cache.fromCache}</span>
+                    <button onClick={onForceResolve} className="font-medium text-blue-600 hover:underline dark:text-blue-400">
+                        {t.cache.forceResolve}
+                    </button>
+                </div>
+            )}
+            {mathErrors.length > 0 && (
+                <MathErrorWarning
+                    errors={mathErrors}
+                    onFix={onFixFormatting && (() => onFixFormatting(mathErrors))}
+                    onCancelFix={onCancelFixFormatting}
+                    isFixing={isFixingFormatting}
+                    fixError={fixFormattingError}
+                />
+            )}
+            {onResolveProblem && typeof shownSolution !== 'string' && (
+                <ProblemCorrectionEditor key={shownSolution.problemLatex} problemLatex={shownSolution.problemLatex} method={isLimitTopic(topicOf(shownSolution)) ? method : undefined} onResolve={onResolveProblem} />
+            )}
+            <div ref={ref} className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+                <div className="markdown-content text-gray-800 dark:text-gray-200 leading-relaxed">
+                    {typeof shownSolution === 'string'
+                        ? <MarkdownContent>{shownSolution}</MarkdownContent>
+                        : <StructuredSolutionView solution={shownSolution} />}
+                 </div>
+            </div>
+            {(typeof shownSolution === 'string' || isLimitTopic(topicOf(shownSolution))) && <LimitGraph solution={shownSolution} />}
+        </div>
+    );
+});
+
+const PRACTICE_RESULT_CLASSES: Record<AnswerCheck, string> = {
+    correct: 'bg-green-50 text-green-800 border-green-300 dark:bg-green-900/20 dark:text-green-300 dark:border-green-700',
+    incorrect: 'bg-red-50 text-red-700 border-red-300 dark:bg-red-900/20 dark:text-red-300 dark:border-red-700',
+    unknown: 'bg-amber-50 text-amber-800 border-amber-300 dark:bg-amber-900/20 dark:text-amber-200 dark:border-amber-700',
+};
+
+interface PracticeViewProps {
+    solution: StructuredSolution;
+    record: PracticeRecord;
+    onCheckAnswer: (answer: string) => void;
+    onRevealHint: () => void;
+    onShowSolution: () => void;
+}
+
+// Practice mode: only the problem is shown, the student answers it, and the steps come one at a time as hints.
+const PracticeView: React.FC<PracticeViewProps> = ({ solution, record, onCheckAnswer, onRevealHint, onShowSolution }) => {
+    const { t } = useI18n();
+    const [answer, setAnswer] = useState(record.answer ?? '');
+    const hints = solution.steps.slice(0, record.hintsUsed);
+
+    return (
+        <div className="mt-8 w-full max-w-3xl mx-auto">
+            <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-4">{t.practice.title}</h2>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+                <p className="text-sm text-gray-600 dark:text-gray-400">{t.practice.prompt}</p>
+                <div className="markdown-content text-gray-800 dark:text-gray-200 leading-relaxed">
+                    <StructuredSolutionView solution={{ problemLatex: solution.problemLatex, steps: hints }} />
+                </div>
+                <form
+                    onSubmit={(e) => { e.preventDefault(); if (answer.trim()) onCheckAnswer(answer); }}
+                    className="flex flex-col sm:flex-row gap-2"
+                >
+                    <label htmlFor="practice-answer" className="sr-only">{t.practice.answerLabel}</label>
+                    <input
+                        id="practice-answer"
+                        value={answer}
+                        onChange={(e) => setAnswer(e.target.value)}
+                        placeholder={t.practice.answerPlaceholder}
+                        autoComplete="off"
+                        spellCheck={false}
+                        className="flex-grow rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 font-mono text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!answer.trim()}
+                        className="px-6 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                        {t.practice.check}
+                    </button>
+                </form>
+                {answer.trim() && (
+                    <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                        <MarkdownContent>{`$${answer.replace(/\$/g, '')}$`}</MarkdownContent>
+                    </div>
+                )}
+                {record.result && (
+                    <p className={`mt-3 px-4 py-2 rounded-md border text-sm ${PRACTICE_RESULT_CLASSES[record.result]}`} role="status">
+                        {t.practice[record.result]}
+                    </p>
+                )}
+                <div className="mt-6 flex flex-wrap items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">{t.practice.hintsUsed(record.hintsUsed, solution.steps.length)}</span>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={onRevealHint}
+                            disabled={record.hintsUsed >= solution.steps.length}
+                            className="px-4 py-2 font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/40 dark:hover:bg-blue-900/60 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t.practice.hint}
+                        </button>
+                        <button
+                            onClick={onShowSolution}
+                            className="px-4 py-2 font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                        >
+                            {t.practice.showSolution}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ChatBubble: React.FC<{ message: ChatMessage; solution: StructuredSolution }> = ({ message, solution }) => {
+    const { t } = useI18n();
+    const isUser = message.role === 'user';
+    const quoted = message.quotedStep !== undefined ? solution.steps[message.quotedStep] : undefined;
+    return (
+        <li className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] min-w-0 rounded-lg px-4 pt-2 ${isUser ? 'bg-blue-50 dark:bg-blue-900/30' : 'bg-gray-50 dark:bg-gray-700/50'}`}>
+                <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">{isUser ? t.chat.you : t.chat.tutor}</p>
+                {quoted && (
+                    <blockquote className="mb-2 border-l-4 border-blue-300 dark:border-blue-600 pl-3 text-sm text-gray-600 dark:text-gray-300">
+                        <p className="font-semibold">{t.chat.step(message.quotedStep! + 1)}</p>
+                        {quoted.latex.trim() && <MarkdownContent>{`$${quoted.latex}$`}</MarkdownContent>}
+                    </blockquote>
+                )}
+                <div className="markdown-content text-gray-800 dark:text-gray-200 leading-relaxed">
+                    <MarkdownContent>{message.text}</MarkdownContent>
+                </div>
+            </div>
+        </li>
+    );
+};
+
+interface ChatPanelProps {
+    solution: StructuredSolution;
+    messages: ChatMessage[];
+    /** The question waiting for a reply, and the reply streamed so far. */
+    pending: { question: ChatMessage; reply: string } | null;
+    error: SolveError | null;
+    /** Resolves with whether the question was answered; on failure the question is put back in the input. */
+    onSend: (text: string, quotedStep?: number) => Promise<boolean>;
+    onCancel: () => void;
+}
+
+// Follow-up questions about the solution above. Each question is sent with the photo, the solution and the turns before it.
+const ChatPanel: React.FC<ChatPanelProps> = ({ solution, messages, pending, error, onSend, onCancel }) => {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState('');
+    const [quotedStep, setQuotedStep] = useState<number | undefined>(undefined);
+
+    const handleSubmit = async () => {
+        const text = draft.trim();
+        if (!text || pending) return;
+        setDraft('');
+        setQuotedStep(undefined);
+        if (!await onSend(text, quotedStep)) {
+            setDraft(text);
+            setQuotedStep(quotedStep);
+        }
+    };
+
+    const turns = pending ? [...messages, pending.question] : messages;
+    return (
+        <div className="mt-6 w-full max-w-3xl mx-auto">
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{t.chat.title}</h3>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+                {turns.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t.chat.intro}</p>}
+                {turns.length > 0 && (
+                    <ul className="space-y-4 mb-4">
+                        {turns.map((message, index) => <ChatBubble key={index} message={message} solution={solution} />)}
+                        {pending && (
+                            <ChatBubble message={{ role: 'assistant', text: trimIncompleteMath(pending.reply) || t.chat.thinking }} solution={solution} />
+                        )}
+                    </ul>
+                )}
+                {error && <p className="mb-4 text-sm text-red-700 dark:text-red-300" role="alert">{t.solveErrors[error.kind]}</p>}
+                <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                        <label htmlFor="chat-quote">{t.chat.quoteLabel}</label>
+                        <select
+                            id="chat-quote"
+                            value={quotedStep ?? ''}
+                            onChange={(e) => setQuotedStep(e.target.value === '' ? undefined : Number(e.target.value))}
+                            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-gray-700 dark:text-gray-300"
+                        >
+                            <option value="">{t.chat.wholeSolution}</option>
+                            {solution.steps.map((_, index) => <option key={index} value={index}>{t.chat.step(index + 1)}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex gap-2">
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                // Enter sends; Shift+Enter starts a new line.
+                                if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                                    e.preventDefault();
+                                    handleSubmit();
+                                }
+                            }}
+                            rows={2}
+                            placeholder={t.chat.placeholder}
+                            className="flex-grow rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {pending ? (
+                            <button
+                                type="button"
+                                onClick={onCancel}
+                                className="self-end px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                            >
+                                {t.common.cancel}
+                            </button>
+                        ) : (
+                            <button
+                                type="submit"
+                                disabled={!draft.trim()}
+                                className="self-end px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            >
+                                {t.chat.send}
+                            </button>
+                        )}
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const QUIZ_SIZES = [5, 6, 7, 8, 9, 10];
+
+const DIFFICULTY_CLASSES: Record<ProblemDifficulty, string> = {
+    easy: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    medium: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+    hard: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+interface QuizPanelProps {
+    solution: StructuredSolution;
+    /** The problems generated from `solution`; `null` until some have been, empty if none were usable. */
+    problems: SimilarProblem[] | null;
+    isGenerating: boolean;
+    error: SolveError | null;
+    onGenerate: (count: number) => void;
+    onCancel: () => void;
+}
+
+// Practice problems of the same form as the solved one, answered as a quiz. Answers stay hidden until checked.
+const QuizPanel: React.FC<QuizPanelProps> = ({ solution, problems, isGenerating, error, onGenerate, onCancel }) => {
+    const { t } = useI18n();
+    const [count, setCount] = useState(QUIZ_SIZES[0]);
+    const [answers, setAnswers] = useState<string[]>([]);
+    const [results, setResults] = useState<AnswerCheck[] | null>(null);
+    const [scores, setScores] = useState<QuizScore[]>(() => getQuizScores(solution.problemLatex));
+
+    const resetAnswers = () => {
+        setAnswers([]);
+        setResults(null);
+    };
+
+    const handleGenerate = () => {
+        resetAnswers();
+        onGenerate(count);
+    };
+
+    const handleCheck = () => {
+        if (!problems?.length) return;
+        // A blank answer counts as wrong rather than unreadable.
+        const checked = problems.map((problem, index) =>
+            answers[index]?.trim() ? checkAnswerEquivalence(answers[index], problem.answerLatex) : 'incorrect');
+        setResults(checked);
+        setScores(recordQuizScore({
+            problemLatex: solution.problemLatex,
+            correct: checked.filter(result => result === 'correct').length,
+            total: problems.length,
+            takenAt: Date.now(),
+        }));
+    };
+
+    const correctCount = results?.filter(result => result === 'correct').length ?? 0;
+    return (
+        <div className="mt-6 w-full max-w-3xl mx-auto">
+            <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">{t.quiz.title}</h3>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 border border-gray-200 dark:border-gray-700">
+                {!problems?.length && <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t.quiz.intro}</p>}
+                {problems?.length === 0 && !isGenerating && (
+                    <p className="mb-4 text-sm text-red-700 dark:text-red-300" role="alert">{t.quiz.noProblems}</p>
+                )}
+                {error && <p className="mb-4 text-sm text-red-700 dark:text-red-300" role="alert">{t.solveErrors[error.kind]}</p>}
+                {!!problems?.length && !isGenerating && (
+                    <form onSubmit={(e) => { e.preventDefault(); handleCheck(); }} className="mb-6">
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t.quiz.prompt}</p>
+                        <ol className="space-y-4">
+                            {problems.map((problem, index) => {
+                                const result = results?.[index];
+                                return (
+                                    <li key={index} className="border-b border-gray-100 dark:border-gray-700 pb-4 last:border-b-0">
+                                        <div className="flex items-center gap-2 text-sm">
+                                            <span className="font-semibold text-gray-700 dark:text-gray-300">{index + 1}.</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DIFFICULTY_CLASSES[problem.difficulty]}`}>
+                                                {t.quiz.difficulty[problem.difficulty]}
+                                            </span>
+                                        </div>
+                                        <div className="markdown-content text-gray-800 dark:text-gray-200">
+                                            <MarkdownContent>{`$$${problem.problemLatex}$$`}</MarkdownContent>
+                                        </div>
+                                        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                            <label htmlFor={`quiz-answer-${index}`} className="sr-only">{t.quiz.answerLabel(index + 1)}</label>
+                                            <input
+                                                id={`quiz-answer-${index}`}
+                                                value={answers[index] ?? ''}
+                                                onChange={(e) => setAnswers(current => {
+                                                    const next = [...current];
+                                                    next[index] = e.target.value;
+                                                    return next;
+                                                })}
+                                                readOnly={!!results}
+                                                placeholder={t.practice.answerPlaceholder}
+                                                autoComplete="off"
+                                                spellCheck={false}
+                                                className="flex-grow rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 font-mono text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                            />
+                                            {result && (
+                                                <span className={`px-3 py-1 rounded-md border text-sm ${PRACTICE_RESULT_CLASSES[result]}`}>
+                                                    {t.quiz.result[result]}
+                                                </span>
+                                            )}
+                                        </div>
+                                        {result && (
+                                            <div className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                                                <span>{t.quiz.expected}</span>
+                                                <MarkdownContent>{`$${problem.answerLatex}$`}</MarkdownContent>
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+                            {results ? (
+                                <>
+                                    <span className="font-semibold text-gray-800 dark:text-gray-100" role="status">{t.quiz.score(correctCount, problems.length)}</span>
+                                    <button
+                                        type="button"
+                                        onClick={resetAnswers}
+                                        className="px-4 py-2 text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/40 dark:hover:bg-blue-900/60"
+                                    >
+                                        {t.quiz.retry}
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    type="submit"
+                                    disabled={!answers.some(answer => answer?.trim())}
+                                    className="px-6 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                >
+                                    {t.quiz.check}
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                )}
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <label htmlFor="quiz-count" className="text-gray-600 dark:text-gray-400">{t.quiz.countLabel}</label>
+                    <select
+                        id="quiz-count"
+                        value={count}
+                        onChange={(e) => setCount(Number(e.target.value))}
+                        disabled={isGenerating}
+                        className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 text-gray-700 dark:text-gray-300"
+                    >
+                        {QUIZ_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                    </select>
+                    {isGenerating ? (
+                        <>
+                            <span className="text-gray-500 dark:text-gray-400" role="status">{t.quiz.generating}</span>
+                            <button
+                                onClick={onCancel}
+                                className="px-4 py-2 font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                            >
+                                {t.common.cancel}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            onClick={handleGenerate}
+                            className="px-4 py-2 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                            {problems?.length ? t.quiz.regenerate : t.quiz.generate}
+                        </button>
+                    )}
+                </div>
+                {scores.length > 0 && (
+                    <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+                        <span className="font-semibold">{t.quiz.pastScores}:</span>{' '}
+                        {scores.slice(0, 5).map(score => `${score.correct}/${score.total}`).join(' · ')}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface WorksheetProblemPickerProps {
+    imageUrl: string;
+    problems: DetectedProblem[];
+    /** Indexes into `problems`. */
+    selected: Set<number>;
+    onToggle: (index: number) => void;
+    onSelectAll: (selectAll: boolean) => void;
+    onSolve: () => void;
+    isLoading: boolean;
+}
+
+// The detected problems as numbered boxes over the photo plus a matching checklist; either toggles a problem.
+const WorksheetProblemPicker: React.FC<WorksheetProblemPickerProps> = ({ imageUrl, problems, selected, onToggle, onSelectAll, onSolve, isLoading }) => {
+    const { t } = useI18n();
+    const allSelected = selected.size === problems.length;
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-8">
+            <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-3">{t.worksheet.found(problems.length)}</h3>
+            <div className="relative mb-4 rounded-md border border-gray-200 dark:border-gray-600">
+                <img src={imageUrl} alt={t.worksheet.imageAlt} className="block w-full h-auto rounded-md" />
+                {problems.map((problem, index) => (
+                    <button
+                        key={index}
+                        onClick={() => onToggle(index)}
+                        disabled={isLoading}
+                        aria-pressed={selected.has(index)}
+                        aria-label={t.common.problemNumber(index + 1)}
+                        style={{
+                            left: `${problem.box.x * 100}%`,
+                            top: `${problem.box.y * 100}%`,
+                            width: `${problem.box.width * 100}%`,
+                            height: `${problem.box.height * 100}%`,
+                        }}
+                        className={`absolute rounded border-2 transition-colors disabled:cursor-not-allowed ${selected.has(index) ? 'border-blue-500 bg-blue-500/10' : 'border-dashed border-gray-400 bg-transparent'}`}
+                    >
+                        <span className={`absolute top-0 left-0 -translate-x-1/2 -translate-y-1/2 flex items-center justify-center h-6 w-6 rounded-full text-xs font-bold text-white ${selected.has(index) ? 'bg-blue-600' : 'bg-gray-400'}`}>
+                            {index + 1}
+                        </span>
+                    </button>
+                ))}
+            </div>
+            <ol className="space-y-1 mb-4">
+                {problems.map((problem, index) => (
+                    <li key={index}>
+                        <label className="flex items-center gap-3 p-2 rounded-md cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700/50">
+                            <input
+                                type="checkbox"
+                                checked={selected.has(index)}
+                                onChange={() => onToggle(index)}
+                                disabled={isLoading}
+                                className="h-4 w-4 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="flex-shrink-0 flex items-center justify-center h-6 w-6 rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300 text-xs font-bold">
+                                {index + 1}
+                            </span>
+                            <div className="min-w-0 overflow-x-auto [&_p]:mb-0">
+                                <MarkdownContent>{`$${problem.latex}$`}</MarkdownContent>
+                            </div>
+                        </label>
+                    </li>
+                ))}
+            </ol>
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+                <button
+                    onClick={() => onSelectAll(!allSelected)}
+                    disabled={isLoading}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                >
+                    {allSelected ? t.worksheet.deselectAll : t.worksheet.selectAll}
+                </button>
+                <button
+                    onClick={onSolve}
+                    disabled={selected.size === 0 || isLoading}
+                    className="w-full sm:w-auto inline-flex items-center justify-center px-8 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                    {t.worksheet.solveSelected(selected.size)}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface WorksheetSolutionCardProps {
+    card: WorksheetCard;
+    onCancel: () => void;
+    onExportPdf: (card: WorksheetCard) => void;
+    onExportTex: (card: WorksheetCard) => void;
+}
+
+// One worksheet problem's result: a `SolutionDisplay` with its own copy state, or a placeholder while queued.
+const WorksheetSolutionCard: React.FC<WorksheetSolutionCardProps> = ({ card, onCancel, onExportPdf, onExportTex }) => {
+    const contentRef = useRef<HTMLDivElement>(null);
+    const [isCopied, setIsCopied] = useState(false);
+    const { t } = useI18n();
+    const title = t.common.problemNumber(card.number);
+
+    const handleCopy = async () => {
+        if (contentRef.current && await copySolutionToClipboard(contentRef.current, t.solution.copyFailed)) {
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2500);
+        }
+    };
+
+    if (card.status === 'queued') {
+        return (
+            <div className="mt-8 w-full max-w-3xl mx-auto rounded-xl border border-dashed border-gray-300 dark:border-gray-600 p-4 text-gray-500 dark:text-gray-400">
+                <span className="font-bold">{title}</span> — {t.worksheet.waiting}
+            </div>
+        );
+    }
+
+    return (
+        <SolutionDisplay
+            ref={contentRef}
+            title={title}
+            solution={card.solution}
+            verification={card.verification}
+            isLoading={card.status === 'solving'}
+            partialSolution={card.partialSolution}
+            onCancel={onCancel}
+            error={card.error}
+            onCopy={handleCopy}
+            isCopied={isCopied}
+            onExportPdf={() => onExportPdf(card)}
+            onExportTex={() => onExportTex(card)}
+        />
+    );
+};
+
+const BATCH_STATUS_CLASSES: Record<BatchItem['status'], string> = {
+    ready: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+    queued: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+    solving: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+    solved: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const BATCH_LINK_BUTTON_CLASS = 'text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300';
+
+interface BatchQueuePanelProps {
+    items: BatchItem[];
+    onAddFiles: (files: File[]) => void;
+    onStartAll: () => void;
+    onRetryFailed: () => void;
+    onClearFinished: () => void;
+    onCrop: (item: BatchItem) => void;
+    onRemove: (item: BatchItem) => void;
+    onRetry: (item: BatchItem) => void;
+    onView: (item: BatchItem) => void;
+}
+
+// The batch solve queue: every image with its status and actions, plus overall progress.
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ items, onAddFiles, onStartAll, onRetryFailed, onClearFinished, onCrop, onRemove, onRetry, onView }) => {
+    const { t } = useI18n();
+    const count = (status: BatchItem['status']) => items.filter(item => item.status === status).length;
+    const [ready, solved, failed] = [count('ready'), count('solved'), count('failed')];
+    const finished = solved + failed;
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-8">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t.batch.title(items.length)}</h3>
+                <label className={`${BATCH_LINK_BUTTON_CLASS} cursor-pointer`}>
+                    {t.batch.addImages}
+                    <input
+                        type="file"
+                        multiple
+                        accept="image/png, image/jpeg, image/webp"
+                        className="sr-only"
+                        onChange={(e) => { onAddFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+                    />
+                </label>
+            </div>
+            <div className="mb-1 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>{t.batch.solvedCount(solved, items.length)}</span>
+                {failed > 0 && <span className="text-red-600 dark:text-red-400">{t.batch.failedCount(failed)}</span>}
+            </div>
+            <div className="h-2 mb-4 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={items.length} aria-valuenow={finished}>
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }} />
+            </div>
+            <ul className="space-y-2 mb-4">
+                {items.map(item => (
+                    <li key={item.id} className="flex items-center gap-3 p-2 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <img src={item.imageUrl} alt={item.name} className="w-14 h-14 object-cover rounded-md border border-gray-200 dark:border-gray-600 flex-shrink-0" />
+                        <div className="min-w-0 flex-grow">
+                            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate">{item.name}</p>
+                            <span className={`inline-block mt-1 px-2 py-0.5 text-xs rounded-full ${BATCH_STATUS_CLASSES[item.status]}`}>{t.batch.status[item.status]}</span>
+                            {item.error && item.error.kind !== 'cancelled' && (
+                                <p className="mt-1 text-xs text-red-600 dark:text-red-400">{t.solveErrors[item.error.kind]}</p>
+                            )}
+                        </div>
+                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                            {item.status === 'ready' && <button onClick={() => onCrop(item)} className={BATCH_LINK_BUTTON_CLASS}>{t.batch.crop}</button>}
+                            {item.status === 'solved' && <button onClick={() => onView(item)} className={BATCH_LINK_BUTTON_CLASS}>{t.batch.view}</button>}
+                            {item.status === 'failed' && <button onClick={() => onRetry(item)} className={BATCH_LINK_BUTTON_CLASS}>{t.batch.retry}</button>}
+                            <button onClick={() => onRemove(item)} className="text-sm text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400">
+                                {item.status === 'solving' ? t.common.cancel : t.batch.remove}
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex flex-wrap items-center justify-end gap-3">
+                {solved > 0 && <button onClick={onClearFinished} className={BATCH_LINK_BUTTON_CLASS}>{t.batch.clearFinished}</button>}
+                {failed > 0 && <button onClick={onRetryFailed} className={BATCH_LINK_BUTTON_CLASS}>{t.batch.retryFailed(failed)}</button>}
+                <button
+                    onClick={onStartAll}
+                    disabled={ready === 0}
+                    className="inline-flex items-center justify-center px-6 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    {t.batch.solveAll(ready)}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// The paper layout behind PDF export. It is only displayed by the print stylesheet; the browser's
+// "Save as PDF" then keeps KaTeX's fonts and shapes Khmer correctly, which client-side PDF libraries do not.
+const PrintableDocument = forwardRef<HTMLDivElement, { title: string; problems: DocumentProblem[] }>(({ title, problems }, ref) => {
+    const { t } = useI18n();
+    return (
+        <div ref={ref} className="text-gray-900">
+            <h1 className="text-2xl font-bold text-center mb-8">{title}</h1>
+            {problems.map((problem, index) => (
+                <article key={index} className="mb-10">
+                    {problems.length > 1 && (
+                        <h2 className="text-xl font-bold border-b border-gray-300 pb-1 mb-4">{t.common.problemNumber(index + 1)}</h2>
+                    )}
+                    {problem.imageUrl && (
+                        <img src={problem.imageUrl} alt={t.common.problemNumber(index + 1)} className="max-h-64 mb-4 rounded border border-gray-300 break-inside-avoid" />
+                    )}
+                    <div className="markdown-content leading-relaxed">
+                        {typeof problem.solution === 'string'
+                            ? <MarkdownContent>{problem.solution}</MarkdownContent>
+                            : <StructuredSolutionView solution={problem.solution} />}
+                    </div>
+                </article>
+            ))}
+        </div>
+    );
+});
+
+
+const HISTORY_PAGE_SIZE = 10;
+const MISREADINGS_SHOWN = 5;
+
+const useObjectUrl = (blob: Blob | undefined): string | null => {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        if (!blob) {
+            setUrl(null);
+            return;
+        }
+        const objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [blob]);
+    return url;
+};
+
+const parseTags = (text: string): string[] =>
+    [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+interface HistoryItemProps {
+    entry: HistoryEntry;
+    /** Whether the entry is ticked for export. */
+    isChecked: boolean;
+    onToggleChecked: (id: number) => void;
+    onSelect: (entry: HistoryEntry) => void;
+    onDelete: (id: number) => void;
+    onToggleFavorite: (entry: HistoryEntry) => void;
+    onUpdateTags: (entry: HistoryEntry, tags: string[]) => void;
+}
+
+const HistoryItem: React.FC<HistoryItemProps> = ({ entry, isChecked, onToggleChecked, onSelect, onDelete, onToggleFavorite, onUpdateTags }) => {
+    const { t } = useI18n();
+    const thumbnailUrl = useObjectUrl(entry.thumbnail ?? entry.image);
+    const [isEditingTags, setIsEditingTags] = useState(false);
+    const [tagDraft, setTagDraft] = useState('');
+
+    const startEditingTags = () => {
+        setTagDraft(entry.tags.join(', '));
+        setIsEditingTags(true);
+    };
+
+    const saveTags = () => {
+        onUpdateTags(entry, parseTags(tagDraft));
+        setIsEditingTags(false);
+    };
+
+    return (
+        <li className="group p-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-colors">
+            <div className="flex items-center justify-between">
+                <input
+                    type="checkbox"
+                    checked={isChecked}
+                    onChange={() => onToggleChecked(entry.id)}
+                    className="mr-3 h-4 w-4 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    aria-label={t.history.selectForExport}
+                />
+                <button onClick={() => onSelect(entry)} className="flex items-center space-x-4 text-left flex-grow min-w-0">
+                    {thumbnailUrl ? (
+                        <img
+                            src={thumbnailUrl}
+                            alt={t.history.thumbnailAlt}
+                            className="w-16 h-16 object-cover rounded-md border border-gray-200 dark:border-gray-600 flex-shrink-0"
+                        />
+                    ) : (
+                        <div className="w-16 h-16 flex items-center justify-center rounded-md border border-gray-200 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 text-gray-400 flex-shrink-0">
+                            <TypeIcon className="h-6 w-6" />
+                        </div>
+                    )}
+                    <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                            {entry.problemSnippet}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {new Date(entry.createdAt).toLocaleString(t.history.dateLocale, { dateStyle: 'medium', timeStyle: 'short' })}
+                            {entry.practice && (
+                                <span className={`ml-2 px-1.5 py-0.5 rounded ${entry.practice.result === 'correct' ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}>
+                                    {t.history.practiced(entry.practice.hintsUsed)}
+                                </span>
+                            )}
+                            {entry.solution?.topic && entry.solution.topic !== 'limits' && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300">
+                                    {t.topics.choices[entry.solution.topic]}
+                                </span>
+                            )}
+                            {entry.method && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">
+                                    {t.methods.choices[entry.method]}
+                                </span>
+                            )}
+                            {entry.correction && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300" title={t.history.correctedTitle(entry.correction.recognizedLatex)}>
+                                    {t.history.corrected}
+                                </span>
+                            )}
+                        </p>
+                    </div>
+                </button>
+                <div className="flex items-center ml-2 flex-shrink-0">
+                    <button
+                        onClick={() => onToggleFavorite(entry)}
+                        className={`p-2 rounded-full hover:bg-yellow-100 dark:hover:bg-yellow-900/30 ${entry.favorite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+                        aria-label={entry.favorite ? t.history.removeFavorite : t.history.addFavorite}
+                        aria-pressed={entry.favorite}
+                    >
+                        <StarIcon className="h-5 w-5" fill={entry.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <button
+                        onClick={startEditingTags}
+                        className="p-2 rounded-full text-gray-400 hover:text-blue-500 hover:bg-blue-100 dark:hover:bg-blue-900/30"
+                        aria-label={t.history.editTags}
+                    >
+                        <TagIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                        onClick={() => onDelete(entry.id)}
+                        className="p-2 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 opacity-0 group-hover:opacity-100 transition-opacity"
+                        aria-label={t.history.deleteEntry}
+                    >
+                        <TrashIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+            {isEditingTags ? (
+                <form className="mt-2 flex gap-2" onSubmit={(e) => { e.preventDefault(); saveTags(); }}>
+                    <input
+                        autoFocus
+                        value={tagDraft}
+                        onChange={(e) => setTagDraft(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') setIsEditingTags(false); }}
+                        placeholder={t.history.tagsPlaceholder}
+                        className="flex-grow rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button type="submit" className="px-3 py-1 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700">
+                        {t.common.save}
+                    </button>
+                </form>
+            ) : entry.tags.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1 pl-[6.75rem]">
+                    {entry.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">{tag}</span>
+                    ))}
+                </div>
+            )}
+        </li>
+    );
+};
+
+/** Feedback about the last history change, shown above the list. */
+interface HistoryNotice {
+    kind: 'error' | 'success';
+    text: string;
+}
+
+/** `bundle` is the re-importable JSON backup; `pdf` and `tex` are worksheets of the chosen entries. */
+type HistoryExportFormat = 'bundle' | 'pdf' | 'tex';
+
+interface HistorySectionProps {
+    /** Changes whenever the stored history changes, so the current page is reloaded. */
+    refreshKey: number;
+    notice: HistoryNotice | null;
+    onSelect: (entry: HistoryEntry) => void;
+    /** Exports the given entries, or all entries when `ids` is `null`. */
+    onExport: (ids: number[] | null, format: HistoryExportFormat) => void;
+    onImport: (file: File) => void;
+    onClear: () => void;
+    onDelete: (id: number) => void;
+    onToggleFavorite: (entry: HistoryEntry) => void;
+    onUpdateTags: (entry: HistoryEntry, tags: string[]) => void;
+}
+
+const HistorySection: React.FC<HistorySectionProps> = ({ refreshKey, notice, onSelect, onExport, onImport, onClear, onDelete, onToggleFavorite, onUpdateTags }) => {
+    const { t } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+    // Ticked entries stay ticked across pages and filters until exported or cleared.
+    const [checkedIds, setCheckedIds] = useState<Set<number>>(new Set());
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [searchInput, setSearchInput] = useState('');
+    const [search, setSearch] = useState('');
+    const [favoritesOnly, setFavoritesOnly] = useState(false);
+    const [tagFilter, setTagFilter] = useState('');
+    const [topicFilter, setTopicFilter] = useState<Topic | ''>('');
+    const [page, setPage] = useState(0);
+    const [result, setResult] = useState<HistoryPage | null>(null);
+    const misreadings = useMemo(() => summarizeMisreadings(result?.corrections ?? []).slice(0, MISREADINGS_SHOWN), [result]);
+
+    // Debounce typing so every keystroke doesn't rescan the store.
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setSearch(searchInput);
+            setPage(0);
+        }, 250);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    useEffect(() => {
+        let cancelled = false;
+        queryHistory({ search, favoritesOnly, tag: tagFilter || undefined, topic: topicFilter || undefined, offset: page * HISTORY_PAGE_SIZE, limit: HISTORY_PAGE_SIZE })
+            .then(nextResult => {
+                if (cancelled) return;
+                // Deleting the last entry of the last page leaves it empty; step back a page.
+                if (nextResult.entries.length === 0 && page > 0) setPage(page - 1);
+                else setResult(nextResult);
+            })
+            .catch(err => console.error("Failed to load history:", err));
+        return () => { cancelled = true; };
+    }, [refreshKey, search, favoritesOnly, tagFilter, topicFilter, page]);
+
+    const toggleChecked = useCallback((id: number) => {
+        setCheckedIds(previous => {
+            const next = new Set(previous);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    }, []);
+
+    const handleExport = (format: HistoryExportFormat) => {
+        onExport(checkedIds.size > 0 ? [...checkedIds] : null, format);
+        setCheckedIds(new Set());
+    };
+
+    const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) onImport(file);
+        event.target.value = '';
+    };
+
+    const handleClear = () => {
+        setCheckedIds(new Set());
+        onClear();
+    };
+
+    // Stays visible with an empty history so a bundle can be imported on a new device.
+    if (!result) {
+        return null;
+    }
+
+    const pageCount = Math.max(1, Math.ceil(result.total / HISTORY_PAGE_SIZE));
+
+    return (
+        <section className="mt-12 w-full max-w-3xl mx-auto">
+            <div className="bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg">
+                <button
+                    className="w-full flex justify-between items-center p-4 sm:p-5 text-left font-bold text-lg text-gray-800 dark:text-gray-100"
+                    onClick={() => setIsOpen(!isOpen)}
+                    aria-expanded={isOpen}
+                    aria-controls="history-panel"
+                >
+                    <div className="flex items-center">
                         <HistoryIcon className="h-6 w-6 mr-3" />
-                        <span>ប្រវត្តិ</span>
+                        <span>{t.history.title}</span>
                     </div>
                     <ChevronDownIcon className={`h-6 w-6 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
                 </button>
                 {isOpen && (
                     <div id="history-panel" className="p-4 sm:p-5 border-t border-gray-200 dark:border-gray-700">
-                        {history.length > 0 ? (
-                            <>
-                                <ul className="space-y-3 max-h-96 overflow-y-auto pr-2">
-                                    {history.map((entry) => (
-                                        <li key={entry.id} className="group flex items-center justify-between p-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-colors">
-                                            <button onClick={() => onSelect(entry)} className="flex items-center space-x-4 text-left flex-grow truncate">
-                                                <img
-                                                    src={`data:${entry.imageData.mimeType};base64,${entry.imageData.base64}`}
-                                                    alt="Problem thumbnail"
-                                                    className="w-16 h-16 object-cover rounded-md border border-gray-200 dark:border-gray-600 flex-shrink-0"
-                                                />
-                                                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate group-hover:text-blue-600 dark:group-hover:text-blue-400">
-                                                    {entry.problemSnippet}
-                                                </p>
-                                            </button>
-                                            <button
-                                                onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
-                                                className="ml-4 p-2 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 opacity-0 group-hover:opacity-100 transition-opacity"
-                                                aria-label="Delete entry"
-                                            >
-                                                <TrashIcon className="h-5 w-5" />
-                                            </button>
+                        {notice && (
+                            <p
+                                role={notice.kind === 'error' ? 'alert' : 'status'}
+                                className={`mb-4 text-sm rounded-md p-3 ${notice.kind === 'error' ? 'text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20' : 'text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/20'}`}
+                            >
+                                {notice.text}
+                            </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-2 mb-4">
+                            <button
+                                onClick={() => handleExport('bundle')}
+                                disabled={result.total === 0 && checkedIds.size === 0}
+                                className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <DownloadIcon className="h-4 w-4 mr-1.5" />
+                                {checkedIds.size > 0 ? t.history.exportSelected(checkedIds.size) : t.history.exportAll}
+                            </button>
+                            <button
+                                onClick={() => importInputRef.current?.click()}
+                                className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            >
+                                <FileImportIcon className="h-4 w-4 mr-1.5" />
+                                {t.history.import}
+                            </button>
+                            <input
+                                ref={importInputRef}
+                                type="file"
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={handleImportChange}
+                            />
+                            {checkedIds.size > 0 && (
+                                <>
+                                    <button
+                                        onClick={() => handleExport('pdf')}
+                                        className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                    >
+                                        <PrinterIcon className="h-4 w-4 mr-1.5" />
+                                        {t.history.worksheetPdf}
+                                    </button>
+                                    <button
+                                        onClick={() => handleExport('tex')}
+                                        className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                    >
+                                        <DownloadIcon className="h-4 w-4 mr-1.5" />
+                                        {t.history.worksheetTex}
+                                    </button>
+                                </>
+                            )}
+                            {checkedIds.size > 0 && (
+                                <button
+                                    onClick={() => setCheckedIds(new Set())}
+                                    className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                                >
+                                    {t.history.clearSelection}
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+                            <input
+                                type="search"
+                                value={searchInput}
+                                onChange={(e) => setSearchInput(e.target.value)}
+                                placeholder={t.history.searchPlaceholder}
+                                className="flex-grow rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            {result.tags.length > 0 && (
+                                <select
+                                    value={tagFilter}
+                                    onChange={(e) => { setTagFilter(e.target.value); setPage(0); }}
+                                    className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+                                    aria-label={t.history.filterByTag}
+                                >
+                                    <option value="">{t.history.allTags}</option>
+                                    {result.tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                                </select>
+                            )}
+                            <select
+                                value={topicFilter}
+                                onChange={(e) => { setTopicFilter(e.target.value as Topic | ''); setPage(0); }}
+                                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm"
+                                aria-label={t.history.filterByTopic}
+                            >
+                                <option value="">{t.history.allTopics}</option>
+                                {TOPICS.map(topic => <option key={topic} value={topic}>{t.topics.choices[topic]}</option>)}
+                            </select>
+                            <button
+                                onClick={() => { setFavoritesOnly(!favoritesOnly); setPage(0); }}
+                                aria-pressed={favoritesOnly}
+                                className={`inline-flex items-center justify-center px-3 py-2 text-sm font-medium rounded-md border transition-colors ${favoritesOnly ? 'border-yellow-400 bg-yellow-50 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                            >
+                                <StarIcon className="h-4 w-4 mr-1.5" fill={favoritesOnly ? 'currentColor' : 'none'} />
+                                {t.history.favorites}
+                            </button>
+                        </div>
+                        {misreadings.length > 0 && (
+                            <div className="mb-4 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t.history.misreadings}</p>
+                                <ul className="mt-2 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                                    {misreadings.map(misreading => (
+                                        <li key={`${misreading.recognized} ${misreading.corrected}`} className="flex flex-wrap items-center gap-2">
+                                            <code className="bg-gray-200 dark:bg-gray-700 rounded-sm px-1.5 py-0.5 font-mono">{misreading.recognized || '—'}</code>
+                                            <span aria-hidden="true">→</span>
+                                            <code className="bg-gray-200 dark:bg-gray-700 rounded-sm px-1.5 py-0.5 font-mono">{misreading.corrected || '—'}</code>
+                                            <span className="text-xs text-gray-500 dark:text-gray-400">{t.history.misreadingCount(misreading.count)}</span>
                                         </li>
                                     ))}
                                 </ul>
-                                <div className="mt-4 text-right">
-                                    <button onClick={onClear} className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 font-medium">
-                                        លុបប្រវត្តិទាំងអស់។
+                            </div>
+                        )}
+                        {result.entries.length > 0 ? (
+                            <>
+                                <ul className="space-y-3 max-h-[32rem] overflow-y-auto pr-2">
+                                    {result.entries.map((entry) => (
+                                        <HistoryItem
+                                            key={entry.id}
+                                            entry={entry}
+                                            isChecked={checkedIds.has(entry.id)}
+                                            onToggleChecked={toggleChecked}
+                                            onSelect={onSelect}
+                                            onDelete={onDelete}
+                                            onToggleFavorite={onToggleFavorite}
+                                            onUpdateTags={onUpdateTags}
+                                        />
+                                    ))}
+                                </ul>
+                                <div className="mt-4 flex items-center justify-between">
+                                    <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                                        <button
+                                            onClick={() => setPage(page - 1)}
+                                            disabled={page === 0}
+                                            className="px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {t.history.previous}
+                                        </button>
+                                        <span>{t.history.page(page + 1, pageCount)}</span>
+                                        <button
+                                            onClick={() => setPage(page + 1)}
+                                            disabled={page + 1 >= pageCount}
+                                            className="px-3 py-1 rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {t.history.next}
+                                        </button>
+                                    </div>
+                                    <button onClick={handleClear} className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 font-medium">
+                                        {t.history.clearAll}
                                     </button>
                                 </div>
                             </>
                         ) : (
-                            <p className="text-center text-gray-500 dark:text-gray-400 py-4">គ្មានប្រវត្តិ</p>
+                            <p className="text-center text-gray-500 dark:text-gray-400 py-4">{t.history.empty}</p>
                         )}
                     </div>
                 )}
             </div>
-        </section>
+        </section>
+    );
+};
+
+
+interface ImageCropModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Receives the cropped and preprocessed image, and the same crop rotated and scaled but not enhanced. */
+    onConfirm: (image: Blob, unenhanced: HTMLCanvasElement) => void;
+    imageSrc: string | null;
+    /** Size of the photo as chosen, to show what preprocessing saves. */
+    originalSize: number | null;
+    crop: Crop | undefined;
+    setCrop: (crop: Crop) => void;
+    completedCrop: PixelCrop | undefined;
+    setCompletedCrop: React.Dispatch<React.SetStateAction<PixelCrop | undefined>>;
+    imageRef: React.RefObject<HTMLImageElement>;
+    settings: PreprocessSettings;
+    onSettingsChange: (settings: PreprocessSettings) => void;
+}
+
+const PREPROCESS_CONTROL_CLASS = 'text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1';
+
+const ImageCropModal: React.FC<ImageCropModalProps> = ({ isOpen, onClose, onConfirm, imageSrc, originalSize, crop, setCrop, completedCrop, setCompletedCrop, imageRef, settings, onSettingsChange }) => {
+    const { t } = useI18n();
+    const [quarterTurns, setQuarterTurns] = useState(0);
+    const [skewDegrees, setSkewDegrees] = useState(0);
+    const [preview, setPreview] = useState<{ beforeUrl: string; afterUrl: string; afterSize: number } | null>(null);
+    const [isImageLoaded, setIsImageLoaded] = useState(false);
+
+    // The rotation belongs to one photo.
+    useEffect(() => {
+        setQuarterTurns(0);
+        setSkewDegrees(0);
+        setPreview(null);
+        setIsImageLoaded(false);
+        setCompletedCrop(undefined);
+    }, [imageSrc, setCompletedCrop]);
+
+    const options: PreprocessOptions = { ...settings, quarterTurns, skewDegrees };
+
+    // The crop region at full resolution; before the first drag, react-image-crop only reports the initial crop in percent.
+    const cropSource = (): HTMLCanvasElement | null => {
+        const image = imageRef.current;
+        if (!image || !image.width) return null;
+        const region = completedCrop?.width ? completedCrop : crop ? convertToPixelCrop(crop, image.width, image.height) : null;
+        return region?.width && region.height ? cropToCanvas(image, region) : null;
+    };
+
+    useEffect(() => {
+        if (!isOpen || !isImageLoaded) return;
+        let cancelled = false;
+        const urls: string[] = [];
+        // Debounced: processing a large photo on every slider tick would make the dialog sluggish.
+        const timer = setTimeout(async () => {
+            try {
+                const source = cropSource();
+                if (!source) return;
+                const before = await canvasToBlob(preprocessImage(source, { quarterTurns: 0, skewDegrees: 0, grayscale: false, enhancement: 'none', maxDimension: 400 }), 'image/jpeg');
+                const after = await canvasToBlob(preprocessImage(source, options), preprocessedMimeType(options));
+                if (cancelled) return;
+                urls.push(URL.createObjectURL(before), URL.createObjectURL(after));
+                setPreview({ beforeUrl: urls[0], afterUrl: urls[1], afterSize: after.size });
+            } catch (e) {
+                console.error("Preprocessing preview failed", e);
+            }
+        }, 250);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            urls.forEach(url => URL.revokeObjectURL(url));
+        };
+        // `cropSource` and `options` are rebuilt every render from the values listed here.
+    }, [isOpen, isImageLoaded, crop, completedCrop, quarterTurns, skewDegrees, settings]);
+
+    if (!isOpen) return null;
+
+    const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const { width, height } = e.currentTarget;
+        const newCrop = centerCrop(
+            makeAspectCrop({ unit: '%', width: 90 }, 1, width, height),
+            width,
+            height
+        );
+        setCrop(newCrop);
+        setIsImageLoaded(true);
+    };
+
+    const handleAutoStraighten = () => {
+        const source = cropSource();
+        if (source) setSkewDegrees(detectSkew(source, quarterTurns));
+    };
+
+    const handleConfirm = async () => {
+        const source = cropSource();
+        if (!source) return;
+        try {
+            const unenhanced = preprocessImage(source, { ...options, grayscale: false, enhancement: 'none' });
+            onConfirm(await canvasToBlob(preprocessImage(source, options), preprocessedMimeType(options)), unenhanced);
+        } catch (e) {
+            console.error("Preprocessing failed", e);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="crop-dialog-title">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+                <h2 id="crop-dialog-title" className="text-xl font-bold p-4 border-b border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-100">
+                    {t.crop.title}
+                </h2>
+                <div className="flex-grow p-4 overflow-auto flex flex-col md:flex-row gap-4">
+                    <div className="flex-grow flex items-center justify-center">
+                        {imageSrc && (
+                            <ReactCrop
+                                crop={crop}
+                                onChange={(_, percentCrop) => setCrop(percentCrop)}
+                                onComplete={(c) => setCompletedCrop(c)}
+                                aspect={undefined} // Free crop
+                            >
+                                <img
+                                    ref={imageRef}
+                                    src={imageSrc}
+                                    alt={t.crop.imageAlt}
+                                    onLoad={onImageLoad}
+                                    className="max-w-full max-h-[55vh] object-contain"
+                                />
+                            </ReactCrop>
+                        )}
+                    </div>
+                    <div className="md:w-64 flex-shrink-0 space-y-3 text-sm text-gray-700 dark:text-gray-300">
+                        <div className="flex items-center justify-between gap-2">
+                            <span>{t.crop.rotate}</span>
+                            <div className="flex gap-1">
+                                <button onClick={() => setQuarterTurns(turns => (turns + 3) % 4)} className={PREPROCESS_CONTROL_CLASS} aria-label={t.crop.rotateLeft}>⟲ 90°</button>
+                                <button onClick={() => setQuarterTurns(turns => (turns + 1) % 4)} className={PREPROCESS_CONTROL_CLASS} aria-label={t.crop.rotateRight}>⟳ 90°</button>
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <label htmlFor="skew-slider">{t.crop.straighten(skewDegrees.toFixed(1))}</label>
+                                <button onClick={handleAutoStraighten} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 font-medium">{t.crop.auto}</button>
+                            </div>
+                            <input
+                                id="skew-slider"
+                                type="range"
+                                min={-MAX_SKEW_DEGREES}
+                                max={MAX_SKEW_DEGREES}
+                                step={0.5}
+                                value={skewDegrees}
+                                onChange={(e) => setSkewDegrees(Number(e.target.value))}
+                                className="w-full"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={settings.grayscale} onChange={(e) => onSettingsChange({ ...settings, grayscale: e.target.checked })} />
+                            {t.crop.grayscale}
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            <span>{t.crop.enhance}</span>
+                            <select value={settings.enhancement} onChange={(e) => onSettingsChange({ ...settings, enhancement: e.target.value as ImageEnhancement })} className={PREPROCESS_CONTROL_CLASS}>
+                                {(Object.keys(t.crop.enhancements) as ImageEnhancement[]).map(kind => (
+                                    <option key={kind} value={kind}>{t.crop.enhancements[kind]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            <span>{t.crop.maxSize}</span>
+                            <select value={settings.maxDimension} onChange={(e) => onSettingsChange({ ...settings, maxDimension: Number(e.target.value) })} className={PREPROCESS_CONTROL_CLASS}>
+                                {MAX_DIMENSION_CHOICES.map(size => (
+                                    <option key={size} value={size}>{size}px</option>
+                                ))}
+                            </select>
+                        </label>
+                        {preview && (
+                            <div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <figure>
+                                        <img src={preview.beforeUrl} alt={t.crop.beforeAlt} className="w-full h-24 object-contain rounded border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-900" />
+                                        <figcaption className="text-xs text-center mt-1 text-gray-500 dark:text-gray-400">{t.crop.before}</figcaption>
+                                    </figure>
+                                    <figure>
+                                        <img src={preview.afterUrl} alt={t.crop.afterAlt} className="w-full h-24 object-contain rounded border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-900" />
+                                        <figcaption className="text-xs text-center mt-1 text-gray-500 dark:text-gray-400">{t.crop.after}</figcaption>
+                                    </figure>
+                                </div>
+                                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                                    {t.crop.uploadSize} {originalSize ? `${formatBytes(originalSize)} → ` : ''}{formatBytes(preview.afterSize)}
+                                    {originalSize && preview.afterSize < originalSize && t.crop.smallerBy(Math.round((1 - preview.afterSize / originalSize) * 100))}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+                <div className="flex justify-end items-center p-4 border-t border-gray-200 dark:border-gray-700 space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                    >
+                        {t.common.cancel}
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        className="px-6 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    >
+                        {t.common.confirm}
+                    </button>
+                </div>
+            </div>
+        </div>
     );
 };
 
-
-interface ImageCropModalProps {
+interface CameraCaptureModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onConfirm: () => void;
-    imageSrc: string | null;
-    crop: Crop | undefined;
-    setCrop: (crop: Crop) => void;
-    setCompletedCrop: React.Dispatch<React.SetStateAction<PixelCrop | undefined>>;
-    imageRef: React.RefObject<HTMLImageElement>;
+    onCapture: (file: File) => void;
 }
 
-const ImageCropModal: React.FC<ImageCropModalProps> = ({ isOpen, onClose, onConfirm, imageSrc, crop, setCrop, setCompletedCrop, imageRef }) => {
+// A live camera view with a framing guide. Opens the rear camera by default; other cameras can be picked once permission is granted.
+const CameraCaptureModal: React.FC<CameraCaptureModalProps> = ({ isOpen, onClose, onCapture }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    // Empty means "let the browser choose the rear camera".
+    const [deviceId, setDeviceId] = useState('');
+    // The name of the `DOMException` that stopped the camera, so its message follows the current language.
+    const [error, setError] = useState<string | null>(null);
+    const { t } = useI18n();
+    const [isReady, setIsReady] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+        setError(null);
+        setIsReady(false);
+
+        navigator.mediaDevices.getUserMedia({
+            video: deviceId
+                ? { deviceId: { exact: deviceId } }
+                : { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+            audio: false,
+        }).then(async mediaStream => {
+            if (cancelled) {
+                mediaStream.getTracks().forEach(track => track.stop());
+                return;
+            }
+            stream = mediaStream;
+            if (videoRef.current) {
+                videoRef.current.srcObject = mediaStream;
+            }
+            // Device labels are only exposed after permission has been granted.
+            const all = await navigator.mediaDevices.enumerateDevices();
+            if (!cancelled) setDevices(all.filter(device => device.kind === 'videoinput'));
+        }).catch((err: unknown) => {
+            console.error("Camera failed:", err);
+            if (!cancelled) {
+                setError(err instanceof DOMException ? err.name : '');
+            }
+        });
+
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [isOpen, deviceId]);
+
     if (!isOpen) return null;
 
-    const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
-        const { width, height } = e.currentTarget;
-        const newCrop = centerCrop(
-            makeAspectCrop({ unit: '%', width: 90 }, 1, width, height),
-            width,
-            height
-        );
-        setCrop(newCrop);
+    const handleCapture = () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.drawImage(video, 0, 0);
+        canvas.toBlob(blob => {
+            if (blob) onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+        }, 'image/jpeg', 0.92);
     };
 
     return (
-        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="crop-dialog-title">
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="camera-dialog-title">
             <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
-                <h2 id="crop-dialog-title" className="text-xl font-bold p-4 border-b border-gray-200 dark:border-gray-700 text-gray-800 dark:text-gray-100">
-                    កាត់រូបភាព
-                </h2>
-                <div className="flex-grow p-4 overflow-auto flex items-center justify-center">
-                    {imageSrc && (
-                        <ReactCrop
-                            crop={crop}
-                            onChange={(_, percentCrop) => setCrop(percentCrop)}
-                            onComplete={(c) => setCompletedCrop(c)}
-                            aspect={undefined} // Free crop
+                <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h2 id="camera-dialog-title" className="text-xl font-bold text-gray-800 dark:text-gray-100">{t.camera.title}</h2>
+                    {devices.length > 1 && (
+                        <select
+                            value={deviceId}
+                            onChange={(e) => setDeviceId(e.target.value)}
+                            className="text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1"
+                            aria-label={t.camera.chooseCamera}
                         >
-                            <img
-                                ref={imageRef}
-                                src={imageSrc}
-                                alt="Crop preview"
-                                onLoad={onImageLoad}
-                                className="max-w-full max-h-[65vh] object-contain"
+                            <option value="">{t.camera.rearCamera}</option>
+                            {devices.map((device, index) => (
+                                <option key={device.deviceId} value={device.deviceId}>{device.label || t.camera.cameraNumber(index + 1)}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+                <div className="p-4 flex-grow overflow-hidden flex justify-center items-center bg-black">
+                    {error !== null ? (
+                        <p className="text-red-300 text-center p-8">{t.camera.errors[error] ?? t.camera.openFailed}</p>
+                    ) : (
+                        <div className="relative max-h-full">
+                            <video
+                                ref={videoRef}
+                                autoPlay
+                                playsInline
+                                muted
+                                onLoadedMetadata={() => setIsReady(true)}
+                                className="max-h-[60vh] max-w-full"
                             />
-                        </ReactCrop>
+                            {/* Framing guide: keep the whole limit inside the box, roughly level. */}
+                            <div className="pointer-events-none absolute inset-[10%_8%] border-2 border-dashed border-white/80 rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" />
+                            <p className="pointer-events-none absolute bottom-2 inset-x-0 text-center text-xs text-white/90">{t.camera.frameHint}</p>
+                        </div>
                     )}
                 </div>
                 <div className="flex justify-end items-center p-4 border-t border-gray-200 dark:border-gray-700 space-x-3">
@@ -450,13 +2713,15 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ isOpen, onClose, onConf
                         onClick={onClose}
                         className="px-6 py-2 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:text-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
                     >
-                        បោះបង់
+                        {t.common.cancel}
                     </button>
                     <button
-                        onClick={onConfirm}
-                        className="px-6 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        onClick={handleCapture}
+                        disabled={!isReady || error !== null}
+                        className="inline-flex items-center px-6 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                     >
-                        បញ្ជាក់
+                        <CameraIcon className="h-5 w-5 mr-2" />
+                        {t.camera.capture}
                     </button>
                 </div>
             </div>
@@ -467,27 +2732,99 @@ const ImageCropModal: React.FC<ImageCropModalProps> = ({ isOpen, onClose, onConf
 // --- Main App Component ---
 
 export default function App() {
+    // Input State
+    const [inputMode, setInputMode] = useState<InputMode>('image');
+    const [problemText, setProblemText] = useState<string>('');
+
     // Image and Solution State
     const [imageBase64, setImageBase64] = useState<{ base64: string; mimeType: string } | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
-    const [solution, setSolution] = useState<string | null>(null);
+    const [solution, setSolution] = useState<StructuredSolution | string | null>(null);
+    const [verification, setVerification] = useState<LimitVerification | null>(null);
+    const [partialSolution, setPartialSolution] = useState<PartialSolution | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<SolveError | string | null>(null);
     const [isCopied, setIsCopied] = useState<boolean>(false);
     
+    // Practice State: whether new solves start hidden, and the attempt in progress on the solution it belongs to.
+    const [practiceMode, setPracticeMode] = useState<boolean>(() => localStorage.getItem('practiceMode') === 'true');
+    const [practice, setPractice] = useState<{ entryId: number; solution: StructuredSolution; record: PracticeRecord } | null>(null);
+
+    // Method State: the topic and technique new solves are held to.
+    const [solveMethod, setSolveMethod] = useState<MethodChoice>('auto');
+    const [solveTopic, setSolveTopic] = useState<TopicChoice>('limits');
+
+    // Follow-up Chat State: the conversation about the solution on screen, and the question awaiting a reply.
+    const [chat, setChat] = useState<(FollowUpContext & { entryId: number | null }) | null>(null);
+    const [chatPending, setChatPending] = useState<{ question: ChatMessage; reply: string } | null>(null);
+    const [chatError, setChatError] = useState<SolveError | null>(null);
+    const chatAbortRef = useRef<AbortController | null>(null);
+
+    // Similar-problem Quiz State: practice problems generated from a solution; `problems` is `null` while they are written.
+    const [quiz, setQuiz] = useState<{ solution: StructuredSolution; problems: SimilarProblem[] | null; error: SolveError | null } | null>(null);
+    const quizAbortRef = useRef<AbortController | null>(null);
+
+    // Solve Cache State: the solution on screen when it was replayed from the cache, with what is needed to solve it again.
+    const [cachedSolve, setCachedSolve] = useState<{ solution: StructuredSolution; image: NonNullable<FollowUpContext['image']>; method: MethodChoice; topic: TopicChoice } | null>(null);
+
+    // Formatting Fix State: the solution being re-requested because some of its math could not be rendered.
+    const [formattingFix, setFormattingFix] = useState<{ solution: StructuredSolution; error: SolveError | null } | null>(null);
+    const formattingFixAbortRef = useRef<AbortController | null>(null);
+    // The solution on screen, so a late fix does not replace one the user has since moved away from.
+    const shownSolutionRef = useRef(solution);
+
+    // Offline State: whether the browser has a connection, the photos queued while it had none, and the last run through them.
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [queuedCount, setQueuedCount] = useState(0);
+    const [isSolvingQueue, setIsSolvingQueue] = useState(false);
+    const [queueResult, setQueueResult] = useState<{ solved: number; failed: number } | null>(null);
+    // How many runs in a row stopped on a transient failure, which sets the delay before the next one.
+    const [queueStalls, setQueueStalls] = useState(0);
+    const isSolvingQueueRef = useRef(false);
+
     // History State
-    const [history, setHistory] = useState<HistoryEntry[]>([]);
+    const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+    const [historyNotice, setHistoryNotice] = useState<HistoryNotice | null>(null);
+
+    // PDF export: the document being printed, plus object URLs it created and must release afterwards.
+    const [printJob, setPrintJob] = useState<{ title: string; problems: DocumentProblem[]; ownedUrls: string[] } | null>(null);
     
+    // Worksheet State: the problems found on the photo, which of them to solve, and one card per problem being solved.
+    const [detectedProblems, setDetectedProblems] = useState<DetectedProblem[] | null>(null);
+    const [selectedProblems, setSelectedProblems] = useState<Set<number>>(new Set());
+    const [worksheetCards, setWorksheetCards] = useState<WorksheetCard[] | null>(null);
+
+    // Batch State: images queued for solving in the background, independent of `isLoading`.
+    const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+    const batchControllersRef = useRef(new Map<number, AbortController>());
+    const nextBatchIdRef = useRef(1);
+    // The batch item being cropped, or null when the cropper is editing the main image.
+    const [cropTargetId, setCropTargetId] = useState<number | null>(null);
+
     // Cropper State
     const [uncroppedImageUrl, setUncroppedImageUrl] = useState<string | null>(null);
     const [isCropperOpen, setIsCropperOpen] = useState(false);
-    const [originalMimeType, setOriginalMimeType] = useState<string | null>(null);
+    const [originalImageSize, setOriginalImageSize] = useState<number | null>(null);
     const [crop, setCrop] = useState<Crop>();
     const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+    const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(() => {
+        try {
+            return { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(localStorage.getItem('preprocessSettings') ?? '{}') };
+        } catch {
+            return DEFAULT_PREPROCESS_SETTINGS;
+        }
+    });
+    const [imageQuality, setImageQuality] = useState<ImageQualityState | null>(null);
+    // Only the check for the latest image may report back.
+    const qualityCheckRef = useRef(0);
+    // What preprocessing saved on the current image, and in total on this device.
+    const [uploadSavings, setUploadSavings] = useState<{ originalBytes: number; uploadedBytes: number; total: UploadSavings } | null>(null);
 
     // Refs
     const solutionRef = useRef<HTMLDivElement>(null);
     const cropImageRef = useRef<HTMLImageElement>(null);
+    const solveAbortRef = useRef<AbortController | null>(null);
+    const printRef = useRef<HTMLDivElement>(null);
 
     // Theme State
     const [theme, setTheme] = useState<'light' | 'dark'>(() => {
@@ -499,30 +2836,110 @@ export default function App() {
         return 'light';
     });
 
+    // Language State: the UI language, which is also the language solutions are explained in unless bilingual is on.
+    const [language, setLanguage] = useState<Language>(() => {
+        const savedLanguage = localStorage.getItem('language');
+        return savedLanguage === 'en' || savedLanguage === 'km' ? savedLanguage : 'km';
+    });
+    const [bilingual, setBilingual] = useState<boolean>(() => localStorage.getItem('bilingualSolutions') === 'true');
+    const t = getMessages(language);
+    const i18n = useMemo(() => ({ language, bilingual, t }), [language, bilingual, t]);
+    const solutionLanguage: SolutionLanguage = bilingual ? 'bilingual' : language;
+
+    const uploadSavingsNote = uploadSavings && imageUrl
+        ? t.uploader.uploadSavings(
+            formatBytes(uploadSavings.originalBytes),
+            formatBytes(uploadSavings.uploadedBytes),
+            formatBytes(Math.max(0, uploadSavings.total.originalBytes - uploadSavings.total.uploadedBytes)),
+            uploadSavings.total.images,
+        )
+        : undefined;
+
     // --- Effects ---
 
+    useEffect(() => {
+        shownSolutionRef.current = solution;
+        // A formatting fix only applies to the solution it was asked for, so moving to another one cancels it.
+        if (formattingFixAbortRef.current) {
+            formattingFixAbortRef.current.abort();
+            formattingFixAbortRef.current = null;
+            setFormattingFix(null);
+        }
+    }, [solution]);
+
     useEffect(() => {
         document.documentElement.classList.toggle('dark', theme === 'dark');
         localStorage.setItem('theme', theme);
     }, [theme]);
 
     useEffect(() => {
-      try {
-        const storedHistory = localStorage.getItem('limitSolverHistory');
-        if (storedHistory) setHistory(JSON.parse(storedHistory));
-      } catch (error) {
-        console.error("Failed to load history from localStorage:", error);
-        setHistory([]);
-      }
+        document.documentElement.lang = language;
+        document.title = `${t.header.titleBefore}${t.topics.titles[solveTopic]}${t.header.titleAfter}`;
+        localStorage.setItem('language', language);
+    }, [language, t, solveTopic]);
+
+    useEffect(() => {
+        localStorage.setItem('bilingualSolutions', String(bilingual));
+    }, [bilingual]);
+
+    useEffect(() => {
+        localStorage.setItem('practiceMode', String(practiceMode));
+    }, [practiceMode]);
+
+    useEffect(() => {
+        localStorage.setItem('preprocessSettings', JSON.stringify(preprocessSettings));
+    }, [preprocessSettings]);
+
+    useEffect(() => {
+        migrateLegacyHistory()
+            .then(count => { if (count > 0) setHistoryRefreshKey(key => key + 1); })
+            .catch(err => console.error("Failed to migrate history from localStorage:", err));
     }, []);
 
     useEffect(() => {
-      try {
-        localStorage.setItem('limitSolverHistory', JSON.stringify(history));
-      } catch (error) {
-        console.error("Failed to save history to localStorage:", error);
-      }
-    }, [history]);
+        const updateOnline = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', updateOnline);
+        window.addEventListener('offline', updateOnline);
+        return () => {
+            window.removeEventListener('online', updateOnline);
+            window.removeEventListener('offline', updateOnline);
+        };
+    }, []);
+
+    useEffect(() => {
+        getQueuedSolves()
+            .then(queued => setQueuedCount(queued.length))
+            .catch(err => console.error("Failed to load the offline queue:", err));
+    }, []);
+
+    useEffect(() => {
+        if (!printJob) return;
+        const root = document.documentElement;
+        const wasDark = root.classList.contains('dark');
+        const finish = () => setPrintJob(null);
+        let cancelled = false;
+
+        // Print dark-on-white whatever the theme, and only once the photos have loaded.
+        root.classList.remove('dark');
+        const images = Array.from(printRef.current?.querySelectorAll('img') ?? []);
+        Promise.all(images.map(image => image.decode().catch(() => undefined))).then(() => {
+            if (cancelled) return;
+            window.addEventListener('afterprint', finish, { once: true });
+            window.print();
+        });
+
+        return () => {
+            cancelled = true;
+            window.removeEventListener('afterprint', finish);
+            root.classList.toggle('dark', wasDark);
+            printJob.ownedUrls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [printJob]);
+
+    // The shown image is always an object URL made here, so it is released once replaced or on unmount.
+    useEffect(() => () => {
+        if (imageUrl) URL.revokeObjectURL(imageUrl);
+    }, [imageUrl]);
 
     // --- Handlers ---
 
@@ -530,191 +2947,1050 @@ export default function App() {
         setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
     };
 
-    const handleImageChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
+    const addBatchFiles = useCallback((files: File[]) => {
+        const added = files
+            .filter(file => file.type.startsWith('image/'))
+            .map((file): BatchItem => ({
+                id: nextBatchIdRef.current++,
+                name: file.name,
+                image: file,
+                imageUrl: URL.createObjectURL(file),
+                status: 'ready',
+                solution: null,
+                verification: null,
+                error: null,
+                entryId: null,
+            }));
+        setBatchItems(items => [...items, ...added]);
+    }, []);
+
+    // Every image source (picker, drop, paste, camera) ends up here; a single image goes through the cropper.
+    const handleImageFiles = useCallback(async (files: File[]) => {
+        if (files.length > 1) {
+            addBatchFiles(files);
+            return;
+        }
+        const file = files[0];
         if (file) {
-            // Revoke previous URLs to prevent memory leaks
-            if (imageUrl) URL.revokeObjectURL(imageUrl);
+            // Revoke the previous uncropped URL to prevent memory leaks; the shown image's is released by its effect.
             if (uncroppedImageUrl) URL.revokeObjectURL(uncroppedImageUrl);
             
             setSolution(null);
+            setVerification(null);
             setError(null);
             setIsCopied(false);
             setImageUrl(null);
             setImageBase64(null);
+            setDetectedProblems(null);
+            setWorksheetCards(null);
+            setUploadSavings(null);
+            setImageQuality(null);
 
-            setOriginalMimeType(file.type);
+            setOriginalImageSize(file.size);
             const url = await fileToUrl(file);
             setUncroppedImageUrl(url);
             setIsCropperOpen(true);
         }
-        // Reset the input value to allow re-uploading the same file
-        event.target.value = '';
-    }, [imageUrl, uncroppedImageUrl]);
+    }, [uncroppedImageUrl, addBatchFiles]);
 
-    const handleCropConfirm = useCallback(async () => {
-        if (!completedCrop || !cropImageRef.current || !originalMimeType) return;
-        
+    const handleCropConfirm = useCallback(async (image: Blob, unenhanced: HTMLCanvasElement) => {
         try {
-            const croppedImageData = await getCroppedImg(cropImageRef.current, completedCrop, originalMimeType);
-            setImageBase64({ base64: croppedImageData.base64, mimeType: originalMimeType });
-            setImageUrl(croppedImageData.url);
+            const total = recordUploadSavings(originalImageSize ?? image.size, image.size);
+            if (cropTargetId !== null) {
+                setBatchItems(items => items.map(item => {
+                    if (item.id !== cropTargetId) return item;
+                    URL.revokeObjectURL(item.imageUrl);
+                    return { ...item, image, imageUrl: URL.createObjectURL(image) };
+                }));
+            } else {
+                setImageBase64({ base64: await blobToBase64(image), mimeType: image.type });
+                setImageUrl(URL.createObjectURL(image));
+                setUploadSavings({ originalBytes: originalImageSize ?? image.size, uploadedBytes: image.size, total });
+                const check = ++qualityCheckRef.current;
+                setImageQuality({ issues: null, overridden: false });
+                // Enhancement evens out exposure and sharpens edges, which would hide the very problems the check looks for.
+                analyzeImageQuality(unenhanced)
+                    .catch(err => {
+                        console.error("Image quality check failed:", err);
+                        return [];
+                    })
+                    .then(issues => {
+                        if (qualityCheckRef.current === check) setImageQuality({ issues, overridden: false });
+                    });
+            }
         } catch (e) {
             console.error("Cropping failed", e);
-            setError("Could not crop the image. Please try again.");
+            setError(t.crop.failed);
         } finally {
             setIsCropperOpen(false);
             setUncroppedImageUrl(null);
+            setCropTargetId(null);
         }
-    }, [completedCrop, originalMimeType]);
+    }, [originalImageSize, cropTargetId, t]);
+
+    const handleOverrideQuality = useCallback(() => {
+        setImageQuality(quality => quality && { ...quality, overridden: true });
+    }, []);
 
     const handleCropCancel = useCallback(() => {
         setIsCropperOpen(false);
         setUncroppedImageUrl(null);
+        setCropTargetId(null);
     }, []);
 
-    const handleSolve = useCallback(async () => {
-        if (!imageBase64) return;
+    // Runs a history write, reloads the list, and surfaces failures instead of only logging them.
+    const persistHistoryChange = useCallback(async (change: () => Promise<unknown>) => {
+        try {
+            await change();
+            setHistoryNotice(null);
+        } catch (err) {
+            console.error("Failed to update history:", err);
+            setHistoryNotice({ kind: 'error', text: t.history.saveFailed });
+        } finally {
+            setHistoryRefreshKey(key => key + 1);
+        }
+    }, [t]);
+
+    // Starts the conversation for a newly shown solution, dropping any reply still streaming for the previous one.
+    const openChat = useCallback((entryId: number | null, solution: StructuredSolution, image?: FollowUpContext['image'], messages: ChatMessage[] = []) => {
+        chatAbortRef.current?.abort();
+        chatAbortRef.current = null;
+        setChatPending(null);
+        setChatError(null);
+        setChat({ entryId, solution, ...(image ? { image } : {}), messages });
+    }, []);
+
+    const queueOfflineSolve = useCallback(async (image: { base64: string; mimeType: string }, options: QueuedSolve['options']) => {
+        try {
+            await queueSolve(base64ToBlob(image.base64, image.mimeType), options);
+            setQueuedCount(count => count + 1);
+        } catch (err) {
+            console.error("Failed to queue the photo:", err);
+            setError(t.offline.queueFailed);
+        }
+    }, [t]);
+
+    // Solves the photos queued while offline, oldest first, saving each to history like any other solve.
+    // A transient failure ends the run and keeps the rest for later; any other failure would recur, so that photo is dropped.
+    const solveQueuedPhotos = useCallback(async () => {
+        if (isSolvingQueueRef.current) return;
+        isSolvingQueueRef.current = true;
+        setIsSolvingQueue(true);
+        const counts = { solved: 0, failed: 0 };
+        let stalled = false;
+        try {
+            // The front of the queue is read afresh for each photo, so photos queued during the run are solved in it too.
+            for (let queued = await getNextQueuedSolve(); queued; queued = await getNextQueuedSolve()) {
+                const image = { base64: await blobToBase64(queued.image), mimeType: queued.image.type };
+                const result = await solveWithRetry(signal => getSolverProvider().solveLimitFromImage(image.base64, image.mimeType, { ...queued.options, signal }));
+                if (result.status === 'failed') {
+                    if (isTransientError(result.error.kind)) {
+                        stalled = true;
+                        break;
+                    }
+                    counts.failed++;
+                } else {
+                    const { method = 'auto', topic = 'limits' } = queued.options;
+                    const solved = withTopic(result.solution, topic);
+                    const newEntry = await createHistoryEntry(solved, verifyStructuredSolution(solved), { image: queued.image }, method !== 'auto' ? { method } : {});
+                    await persistHistoryChange(() => saveHistoryEntry(newEntry));
+                    solveCacheKey(image, queued.options, getSolverProvider())
+                        .then(key => cacheSolution(key, solved))
+                        .catch(err => console.error("Could not save to the solve cache:", err));
+                    counts.solved++;
+                }
+                await removeQueuedSolve(queued.id);
+                setQueuedCount(count => count - 1);
+            }
+        } catch (err) {
+            console.error("Failed to solve the offline queue:", err);
+        } finally {
+            isSolvingQueueRef.current = false;
+            setIsSolvingQueue(false);
+            setQueueResult(counts.solved || counts.failed ? counts : null);
+            setQueueStalls(stalls => (stalled ? stalls + 1 : 0));
+        }
+    }, [persistHistoryChange]);
+
+    useEffect(() => {
+        if (isOnline && queuedCount > 0) solveQueuedPhotos();
+    }, [isOnline, queuedCount, solveQueuedPhotos]);
 
+    // Neither the connection nor the queue changes when a run stops on, say, a quota error, so the retry is timed.
+    useEffect(() => {
+        if (!isOnline || queueStalls === 0) return;
+        const timer = setTimeout(solveQueuedPhotos, Math.min(QUEUE_RETRY_MAX_MS, QUEUE_RETRY_BASE_MS * 2 ** (queueStalls - 1)));
+        return () => clearTimeout(timer);
+    }, [isOnline, queueStalls, solveQueuedPhotos]);
+
+    // Streams a solve into the main display, then saves it to history and opens its chat.
+    const runSolve = useCallback(async (
+        request: (options: SolveOptions) => Promise<StructuredSolution>,
+        image: FollowUpContext['image'] | undefined,
+        // Saved as the entry's problem when there is no photo.
+        typedProblem: string,
+        { correction, method = 'auto', topic = 'limits', cache, queueWhenOffline = false }: {
+            correction?: ProblemCorrection;
+            method?: MethodChoice;
+            topic?: TopicChoice;
+            // Photos are looked up by content before solving; `refresh` skips the lookup but still replaces the saved copy.
+            cache?: 'lookup' | 'refresh';
+            // Offline, or when the request cannot reach the server, the photo waits in the offline queue instead of showing an error.
+            queueWhenOffline?: boolean;
+        } = {},
+    ) => {
         setIsLoading(true);
         setError(null);
         setSolution(null);
+        setVerification(null);
         setIsCopied(false);
+        setCachedSolve(null);
+
+        const controller = new AbortController();
+        solveAbortRef.current = controller;
+
+        try {
+            const cacheKey = cache && image
+                // Inside the promise, so a misconfigured provider is reported by the solve below rather than thrown here.
+                ? await Promise.resolve()
+                    .then(() => solveCacheKey(image, { language: solutionLanguage, method, topic }, getSolverProvider()))
+                    .catch(err => {
+                        console.error("Could not hash the image for the solve cache:", err);
+                        return undefined;
+                    })
+                : undefined;
+            const cached = cacheKey && cache === 'lookup'
+                ? await getCachedSolution(cacheKey).catch(err => {
+                    console.error("Could not read the solve cache:", err);
+                    return undefined;
+                })
+                : undefined;
+            // Cancelling during the lookup returns to the idle state, as it does mid-solve.
+            if (controller.signal.aborted) return;
+            const queueImage = queueWhenOffline && image
+                ? () => queueOfflineSolve(image, { language: solutionLanguage, method, topic })
+                : undefined;
+            if (!cached && queueImage && !navigator.onLine) {
+                await queueImage();
+                return;
+            }
+            const result: SolveResult = cached ? { status: 'solved', solution: cached } : await solveWithRetry(
+                signal => {
+                    // Each retry streams from scratch; late chunks of an aborted attempt are ignored.
+                    setPartialSolution(null);
+                    return request({
+                        signal,
+                        language: solutionLanguage,
+                        method,
+                        topic,
+                        onProgress: (partial: PartialSolution) => { if (!signal.aborted) setPartialSolution(partial); },
+                    });
+                },
+                { signal: controller.signal },
+            );
+            if (result.status === 'failed') {
+                // A server that answers with an error (5xx, 408) is reachable, so that is shown rather than queued.
+                if (queueImage && (result.error.unreachable || !navigator.onLine)) {
+                    await queueImage();
+                    return;
+                }
+                // A cancelled solve just returns to the idle state; failures are never saved to history.
+                if (result.error.kind !== 'cancelled') setError(result.error);
+                return;
+            }
+
+            const solved = withTopic(result.solution, topic);
+            const resultVerification = verifyStructuredSolution(solved);
+            setSolution(solved);
+            setVerification(resultVerification);
+            if (cached && image) {
+                setCachedSolve({ solution: solved, image, method, topic });
+            } else if (cacheKey) {
+                cacheSolution(cacheKey, solved).catch(err => console.error("Could not save to the solve cache:", err));
+            }
+
+            const source = image ? { image: base64ToBlob(image.base64, image.mimeType) } : { problemText: typedProblem };
+            const newEntry = await createHistoryEntry(solved, resultVerification, source, {
+                ...(correction ? { correction } : {}),
+                ...(method !== 'auto' ? { method } : {}),
+            });
+            if (practiceMode) {
+                newEntry.practice = { hintsUsed: 0, solutionShown: false };
+                setPractice({ entryId: newEntry.id, solution: solved, record: newEntry.practice });
+            }
+            openChat(newEntry.id, solved, image);
+            await persistHistoryChange(() => saveHistoryEntry(newEntry));
+        } finally {
+            if (solveAbortRef.current === controller) {
+                solveAbortRef.current = null;
+                setIsLoading(false);
+                setPartialSolution(null);
+            }
+        }
+    }, [solutionLanguage, practiceMode, openChat, persistHistoryChange, queueOfflineSolve]);
+
+    const handleSolve = useCallback(async () => {
+        const trimmedText = problemText.trim();
+        if (inputMode === 'image' ? !imageBase64 : !trimmedText) return;
+        if (inputMode === 'image' && isQualityBlocking(imageQuality)) return;
+
+        const image = inputMode === 'image' && imageBase64 ? imageBase64 : undefined;
+        await runSolve(
+            options => image
+                ? getSolverProvider().solveLimitFromImage(image.base64, image.mimeType, options)
+                : getSolverProvider().solveLimitFromText(trimmedText, options),
+            image,
+            trimmedText,
+            { method: isLimitTopic(solveTopic) ? solveMethod : 'auto', topic: solveTopic, cache: 'lookup', queueWhenOffline: true },
+        );
+    }, [inputMode, imageBase64, imageQuality, problemText, solveMethod, solveTopic, runSolve]);
+
+    // Asks the provider again for a photo whose solution was replayed from the cache, e.g. when the saved one is wrong.
+    const handleForceResolve = useCallback(async () => {
+        if (!cachedSolve) return;
+        const { image, method, topic } = cachedSolve;
+        await runSolve(
+            options => getSolverProvider().solveLimitFromImage(image.base64, image.mimeType, options),
+            image,
+            '',
+            { method, topic, cache: 'refresh' },
+        );
+    }, [cachedSolve, runSolve]);
+
+    // Solves again from the problem as read (possibly corrected by the user), keeping the photo as context.
+    // A corrected entry records what was read and links back to the misread one.
+    const handleResolveProblem = useCallback(async (source: StructuredSolution, correctedLatex: string, method: MethodChoice) => {
+        const shown = chat?.solution === source ? chat : null;
+        const image = shown?.image;
+        const entryId = shown ? shown.entryId : null;
+        const correction: ProblemCorrection | undefined = correctedLatex !== source.problemLatex.trim() ? {
+            ...(entryId !== null ? { entryId } : {}),
+            recognizedLatex: source.problemLatex,
+            correctedLatex,
+        } : undefined;
+        await runSolve(
+            options => image
+                ? getSolverProvider().solveCorrectedFromImage(correctedLatex, image.base64, image.mimeType, options)
+                : getSolverProvider().solveLimitFromText(correctedLatex, options),
+            image,
+            correctedLatex,
+            { correction, method, topic: topicOf(source) },
+        );
+    }, [chat, runSolve]);
+
+    const handleDetectProblems = useCallback(async () => {
+        if (!imageBase64 || isQualityBlocking(imageQuality)) return;
+
+        setIsLoading(true);
+        setError(null);
+        setDetectedProblems(null);
+        setWorksheetCards(null);
+
+        const controller = new AbortController();
+        solveAbortRef.current = controller;
+
+        try {
+            const result = await solveWithRetry(
+                signal => getSolverProvider().detectProblems(imageBase64.base64, imageBase64.mimeType, { signal, language: solutionLanguage, topic: solveTopic }),
+                { signal: controller.signal },
+            );
+            if (result.status === 'failed') {
+                if (result.error.kind !== 'cancelled') setError(result.error);
+                return;
+            }
+            if (result.solution.length === 0) {
+                setError({ kind: 'unreadable', detail: 'No problems of the chosen topic were found on the worksheet.' });
+                return;
+            }
+            setDetectedProblems(result.solution);
+            setSelectedProblems(new Set(result.solution.map((_, index) => index)));
+        } finally {
+            if (solveAbortRef.current === controller) {
+                solveAbortRef.current = null;
+                setIsLoading(false);
+            }
+        }
+    }, [imageBase64, imageQuality, solutionLanguage, solveTopic]);
+
+    const handleToggleProblem = useCallback((index: number) => {
+        setSelectedProblems(previous => {
+            const next = new Set(previous);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    }, []);
+
+    const handleSelectAllProblems = useCallback((selectAll: boolean) => {
+        setSelectedProblems(selectAll && detectedProblems ? new Set(detectedProblems.map((_, index) => index)) : new Set());
+    }, [detectedProblems]);
+
+    const handleSolveWorksheet = useCallback(async () => {
+        if (!imageBase64 || !detectedProblems) return;
+        const chosen = detectedProblems
+            .map((problem, index) => ({ problem, number: index + 1 }))
+            .filter(({ number }) => selectedProblems.has(number - 1));
+        if (chosen.length === 0) return;
+
+        const updateCard = (number: number, changes: Partial<WorksheetCard>) =>
+            setWorksheetCards(cards => cards?.map(card => (card.number === number ? { ...card, ...changes } : card)) ?? null);
+
+        setIsLoading(true);
+        setError(null);
+        setWorksheetCards(chosen.map(({ number }) => ({
+            number,
+            status: 'queued',
+            partialSolution: null,
+            solution: null,
+            verification: null,
+            error: null,
+        })));
+
+        const controller = new AbortController();
+        solveAbortRef.current = controller;
+        const worksheet = base64ToBlob(imageBase64.base64, imageBase64.mimeType);
 
         try {
-            const result = await solveLimitFromImage(imageBase64.base64, imageBase64.mimeType);
-            setSolution(result);
-
-            const extractSnippet = (solutionText: string): string => {
-                const lines = solutionText.split('\n');
-                const snippetLine = lines.find(line => line.includes('$') && line.length < 100) || lines[0] || "Problem";
-                return snippetLine.replace(/[\*\`\_#]/g, '').trim();
-            };
-
-            const newEntry: HistoryEntry = {
-                id: Date.now(),
-                imageData: imageBase64,
-                problemSnippet: extractSnippet(result),
-                fullSolution: result,
-            };
-            setHistory(prevHistory => [newEntry, ...prevHistory].slice(0, 20)); // Keep max 20 entries
+            // One problem at a time, so a long worksheet doesn't run into the provider's rate limits.
+            for (const { problem, number } of chosen) {
+                if (controller.signal.aborted) break;
+                updateCard(number, { status: 'solving' });
+
+                let image: Blob;
+                let base64: string;
+                try {
+                    image = await cropImageToBox(worksheet, problem.box);
+                    base64 = await blobToBase64(image);
+                } catch (err) {
+                    console.error(`Failed to cut out worksheet problem ${number}:`, err);
+                    updateCard(number, { status: 'failed', error: { kind: 'unknown', detail: String(err) } });
+                    continue;
+                }
+                updateCard(number, { image });
+
+                const result = await solveWithRetry(
+                    signal => {
+                        updateCard(number, { partialSolution: null });
+                        return getSolverProvider().solveLimitFromImage(base64, image.type, {
+                            signal,
+                            language: solutionLanguage,
+                            topic: solveTopic,
+                            onProgress: partial => { if (!signal.aborted) updateCard(number, { partialSolution: partial }); },
+                        });
+                    },
+                    { signal: controller.signal },
+                );
+                if (result.status === 'failed') {
+                    updateCard(number, { status: 'failed', partialSolution: null, error: result.error });
+                    continue;
+                }
+
+                const solved = withTopic(result.solution, solveTopic);
+                const resultVerification = verifyStructuredSolution(solved);
+                updateCard(number, { status: 'solved', partialSolution: null, solution: solved, verification: resultVerification });
+                const newEntry = await createHistoryEntry(solved, resultVerification, { image });
+                await persistHistoryChange(() => saveHistoryEntry(newEntry));
+            }
+        } finally {
+            // Problems the run never finished (it was cancelled) are marked so rather than left waiting.
+            setWorksheetCards(cards => cards?.map(card => (card.status === 'queued' || card.status === 'solving'
+                ? { ...card, status: 'failed', partialSolution: null, error: { kind: 'cancelled', detail: 'Cancelled by the user' } }
+                : card)) ?? null);
+            if (solveAbortRef.current === controller) {
+                solveAbortRef.current = null;
+                setIsLoading(false);
+            }
+        }
+    }, [imageBase64, detectedProblems, selectedProblems, solutionLanguage, solveTopic, persistHistoryChange]);
+
+    const updateBatchItem = useCallback((id: number, changes: Partial<BatchItem>) => {
+        setBatchItems(items => items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    }, []);
 
+    const runBatchItem = useCallback(async (item: BatchItem) => {
+        const controller = new AbortController();
+        batchControllersRef.current.set(item.id, controller);
+        updateBatchItem(item.id, { status: 'solving', error: null });
+        const method = isLimitTopic(solveTopic) ? solveMethod : 'auto';
+
+        try {
+            const base64 = await blobToBase64(item.image);
+            const result = await solveWithRetry(
+                signal => getSolverProvider().solveLimitFromImage(base64, item.image.type, { signal, language: solutionLanguage, method, topic: solveTopic }),
+                { signal: controller.signal },
+            );
+            if (result.status === 'failed') {
+                updateBatchItem(item.id, { status: 'failed', error: result.error });
+                return;
+            }
+            const solved = withTopic(result.solution, solveTopic);
+            const resultVerification = verifyStructuredSolution(solved);
+            const newEntry = await createHistoryEntry(solved, resultVerification, { image: item.image }, method !== 'auto' ? { method } : {});
+            updateBatchItem(item.id, { status: 'solved', solution: solved, verification: resultVerification, entryId: newEntry.id });
+            await persistHistoryChange(() => saveHistoryEntry(newEntry));
         } catch (err) {
-            setError('មានបញ្ហាក្នុងការដោះស្រាយលំហាត់។ សូមព្យាយាមម្តងទៀត។');
-            console.error(err);
+            console.error("Batch item failed:", err);
+            updateBatchItem(item.id, { status: 'failed', error: { kind: 'unknown', detail: String(err) } });
         } finally {
-            setIsLoading(false);
+            batchControllersRef.current.delete(item.id);
         }
-    }, [imageBase64]);
-    
-    const handleCopyToClipboard = useCallback(() => {
-        if (!solutionRef.current) return;
+    }, [solutionLanguage, solveMethod, solveTopic, updateBatchItem, persistHistoryChange]);
 
-        const contentToCopy = solutionRef.current.querySelector('.markdown-content');
-        if (!contentToCopy) return;
+    // Starts queued items whenever a slot is free.
+    useEffect(() => {
+        const running = batchItems.filter(item => item.status === 'solving').length;
+        batchItems
+            .filter(item => item.status === 'queued' && !batchControllersRef.current.has(item.id))
+            .slice(0, Math.max(0, BATCH_CONCURRENCY - running))
+            .forEach(item => { runBatchItem(item); });
+    }, [batchItems, runBatchItem]);
+
+    const handleStartBatch = useCallback(() => {
+        setBatchItems(items => items.map(item => (item.status === 'ready' ? { ...item, status: 'queued' } : item)));
+    }, []);
 
-        const htmlContent = contentToCopy.innerHTML;
-        const textContent = (contentToCopy as HTMLElement).innerText;
+    const handleRetryBatchItem = useCallback((target: BatchItem) => {
+        updateBatchItem(target.id, { status: 'queued', error: null });
+    }, [updateBatchItem]);
 
-        navigator.clipboard.write([
-            new ClipboardItem({
-                'text/html': new Blob([htmlContent], { type: 'text/html' }),
-                'text/plain': new Blob([textContent], { type: 'text/plain' })
-            })
-        ]).then(() => {
+    const handleRetryFailedBatch = useCallback(() => {
+        setBatchItems(items => items.map(item => (item.status === 'failed' ? { ...item, status: 'queued', error: null } : item)));
+    }, []);
+
+    const handleRemoveBatchItem = useCallback((target: BatchItem) => {
+        batchControllersRef.current.get(target.id)?.abort();
+        URL.revokeObjectURL(target.imageUrl);
+        setBatchItems(items => items.filter(item => item.id !== target.id));
+    }, []);
+
+    const handleClearFinishedBatch = useCallback(() => {
+        setBatchItems(items => items.filter(item => {
+            if (item.status !== 'solved') return true;
+            URL.revokeObjectURL(item.imageUrl);
+            return false;
+        }));
+    }, []);
+
+    const handleCropBatchItem = useCallback((target: BatchItem) => {
+        setCropTargetId(target.id);
+        setOriginalImageSize(target.image.size);
+        setUncroppedImageUrl(URL.createObjectURL(target.image));
+        setIsCropperOpen(true);
+    }, []);
+
+    const handleViewBatchItem = useCallback(async (target: BatchItem) => {
+        if (!target.solution) return;
+        const image = { base64: await blobToBase64(target.image), mimeType: target.image.type };
+        setImageBase64(image);
+        setImageUrl(URL.createObjectURL(target.image));
+        setUploadSavings(null);
+        setImageQuality(null);
+        setSolution(target.solution);
+        setVerification(target.verification);
+        openChat(target.entryId, target.solution, image);
+        setError(null);
+        setIsCopied(false);
+        solutionRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [openChat]);
+
+    const handleCancelSolve = useCallback(() => {
+        solveAbortRef.current?.abort();
+        solveAbortRef.current = null;
+        setIsLoading(false);
+        setPartialSolution(null);
+    }, []);
+    
+    const handleCopyToClipboard = useCallback(async () => {
+        if (solutionRef.current && await copySolutionToClipboard(solutionRef.current, t.solution.copyFailed)) {
             setIsCopied(true);
             setTimeout(() => setIsCopied(false), 2500);
-        }).catch(err => {
-            console.error("Failed to copy rich text, falling back to plain text:", err);
-            navigator.clipboard.writeText(textContent).then(() => {
-                setIsCopied(true);
-                setTimeout(() => setIsCopied(false), 2500);
-            }).catch(err2 => {
-                 console.error("Failed to copy plain text:", err2);
-                 alert("Could not copy text to clipboard.");
-            });
+        }
+    }, [t]);
+
+    const currentDocumentProblem = useCallback((): DocumentProblem | null => {
+        if (!solution) return null;
+        return inputMode === 'image' && imageUrl ? { imageUrl, solution } : { solution };
+    }, [solution, inputMode, imageUrl]);
+
+    const handleExportPdf = useCallback(() => {
+        const problem = currentDocumentProblem();
+        if (problem) setPrintJob({ title: t.solution.documentTitle, problems: [problem], ownedUrls: [] });
+    }, [currentDocumentProblem, t]);
+
+    const handleExportTex = useCallback(() => {
+        const problem = currentDocumentProblem();
+        if (!problem) return;
+        const tex = buildLatexDocument([problem], t.solution.documentTitle, { language, bilingual });
+        downloadBlob(new Blob([tex], { type: 'application/x-tex' }), 'limit-solution.tex');
+    }, [currentDocumentProblem, language, bilingual, t]);
+
+    const handleExportCardPdf = useCallback((card: WorksheetCard) => {
+        if (!card.solution) return;
+        const imageUrl = card.image ? URL.createObjectURL(card.image) : undefined;
+        setPrintJob({
+            title: t.common.problemNumber(card.number),
+            problems: [imageUrl ? { imageUrl, solution: card.solution } : { solution: card.solution }],
+            ownedUrls: imageUrl ? [imageUrl] : [],
         });
-    }, []);
-
-    const handleSelectHistoryItem = useCallback((item: HistoryEntry) => {
-      setImageBase64(item.imageData);
-      setImageUrl(`data:${item.imageData.mimeType};base64,${item.imageData.base64}`);
-      setSolution(item.fullSolution);
+    }, [t]);
+
+    const handleExportCardTex = useCallback((card: WorksheetCard) => {
+        if (!card.solution) return;
+        const tex = buildLatexDocument([{ solution: card.solution }], t.common.problemNumber(card.number), { language, bilingual });
+        downloadBlob(new Blob([tex], { type: 'application/x-tex' }), `limit-problem-${card.number}.tex`);
+    }, [language, bilingual, t]);
+
+    const handleSelectHistoryItem = useCallback(async (item: HistoryEntry) => {
+      const image = item.image ? { base64: await blobToBase64(item.image), mimeType: item.image.type } : undefined;
+      if (item.image) {
+        setInputMode('image');
+        setImageBase64(image);
+        setImageUrl(URL.createObjectURL(item.image));
+        setUploadSavings(null);
+        setImageQuality(null);
+      } else {
+        setInputMode('text');
+        setProblemText(item.problemText ?? '');
+      }
+      if (item.solution) {
+        setSolution(item.solution);
+        setVerification(item.verification ?? verifyStructuredSolution(item.solution));
+        openChat(item.id, item.solution, image, item.chat);
+        // In practice mode an opened entry is practised again, picking up where any earlier attempt stopped.
+        if (practiceMode) {
+          setPractice({ entryId: item.id, solution: item.solution, record: item.practice ?? { hintsUsed: 0, solutionShown: false } });
+        }
+      } else {
+        setSolution(item.fullSolution ?? '');
+        setVerification(item.verification ?? verifySolution(item.fullSolution ?? ''));
+      }
       setError(null);
       setIsCopied(false);
       window.scrollTo({ top: 0, behavior: 'smooth' });
+    }, [practiceMode, openChat]);
+
+    const handleSendChat = useCallback(async (text: string, quotedStep?: number): Promise<boolean> => {
+        if (!chat) return false;
+        const question: ChatMessage = { role: 'user', text, ...(quotedStep !== undefined ? { quotedStep } : {}) };
+        const { entryId, ...context } = { ...chat, messages: [...chat.messages, question] };
+        const controller = new AbortController();
+        chatAbortRef.current = controller;
+        setChatPending({ question, reply: '' });
+        setChatError(null);
+
+        try {
+            const result = await solveWithRetry(
+                signal => getSolverProvider().askFollowUp(context, {
+                    signal,
+                    language,
+                    onProgress: reply => { if (!signal.aborted) setChatPending({ question, reply }); },
+                }),
+                { signal: controller.signal },
+            );
+            // Another solution was opened meanwhile; the reply belongs to a conversation no longer shown.
+            if (chatAbortRef.current !== controller) return false;
+            if (result.status === 'failed') {
+                if (result.error.kind !== 'cancelled') setChatError(result.error);
+                return false;
+            }
+
+            const messages: ChatMessage[] = [...context.messages, { role: 'assistant', text: result.solution }];
+            setChat({ ...chat, messages });
+            if (entryId !== null) {
+                await persistHistoryChange(() => updateHistoryEntry(entryId, { chat: messages }));
+            }
+            return true;
+        } finally {
+            if (chatAbortRef.current === controller) {
+                chatAbortRef.current = null;
+                setChatPending(null);
+            }
+        }
+    }, [chat, language, persistHistoryChange]);
+
+    const handleCancelChat = useCallback(() => {
+        chatAbortRef.current?.abort();
     }, []);
 
-    const handleClearHistory = useCallback(() => setHistory([]), []);
-    const handleDeleteHistoryEntry = useCallback((id: number) => {
-        setHistory(prev => prev.filter(entry => entry.id !== id));
+    const handleGenerateSimilar = useCallback(async (source: StructuredSolution, count: number) => {
+        quizAbortRef.current?.abort();
+        const controller = new AbortController();
+        quizAbortRef.current = controller;
+        setQuiz({ solution: source, problems: null, error: null });
+
+        const result = await solveWithRetry(
+            signal => getSolverProvider().generateSimilarProblems(source, count, { signal }),
+            { signal: controller.signal },
+        );
+        if (quizAbortRef.current !== controller) return;
+        quizAbortRef.current = null;
+        if (result.status === 'failed') {
+            setQuiz(result.error.kind === 'cancelled' ? null : { solution: source, problems: null, error: result.error });
+            return;
+        }
+        // A problem whose hidden answer disagrees with the numeric estimate would mark right answers wrong, so it is left out.
+        const problems = result.solution.filter(problem => verifyLimitAnswer(problem.problemLatex, problem.answerLatex).status !== 'disagrees');
+        setQuiz({ solution: source, problems, error: null });
+    }, []);
+
+    const handleCancelSimilar = useCallback(() => {
+        quizAbortRef.current?.abort();
+    }, []);
+
+    // Asks the model to correct the math KaTeX could not render, then puts the corrected solution everywhere the old one was.
+    const handleFixFormatting = useCallback(async (source: StructuredSolution, errors: MathError[]) => {
+        const entryId = chat?.solution === source ? chat.entryId : null;
+        formattingFixAbortRef.current?.abort();
+        const controller = new AbortController();
+        formattingFixAbortRef.current = controller;
+        setFormattingFix({ solution: source, error: null });
+
+        const result = await solveWithRetry(
+            signal => getSolverProvider().fixFormatting(source, errors, { signal, language: solutionLanguageOf(source) }),
+            { signal: controller.signal },
+        );
+        // Cancelled, superseded by another fix, or the user moved on; whoever aborted it has already reset the state.
+        if (formattingFixAbortRef.current !== controller) return;
+        formattingFixAbortRef.current = null;
+        if (shownSolutionRef.current !== source) {
+            setFormattingFix(null);
+            return;
+        }
+        if (result.status === 'failed') {
+            setFormattingFix({ solution: source, error: result.error });
+            return;
+        }
+
+        const fixed = result.solution;
+        const fixedVerification = verifyStructuredSolution(fixed);
+        setFormattingFix(null);
+        setSolution(fixed);
+        setVerification(fixedVerification);
+        setChat(current => current?.solution === source ? { ...current, solution: fixed } : current);
+        setPractice(current => current?.solution === source ? { ...current, solution: fixed } : current);
+        setQuiz(current => current?.solution === source ? { ...current, solution: fixed } : current);
+        setBatchItems(items => items.map(item => item.solution === source ? { ...item, solution: fixed, verification: fixedVerification } : item));
+        if (entryId !== null) {
+            await persistHistoryChange(() => updateHistoryEntry(entryId, { solution: fixed, verification: fixedVerification }));
+        }
+    }, [chat, persistHistoryChange]);
+
+    const handleCancelFixFormatting = useCallback(() => {
+        formattingFixAbortRef.current?.abort();
+        formattingFixAbortRef.current = null;
+        setFormattingFix(null);
     }, []);
 
+    // Records a change to the practice attempt, on screen and on its history entry.
+    const updatePractice = useCallback((changes: Partial<PracticeRecord>) => {
+        if (!practice) return;
+        const record = { ...practice.record, ...changes };
+        setPractice({ ...practice, record });
+        persistHistoryChange(() => updateHistoryEntry(practice.entryId, { practice: record }));
+    }, [practice, persistHistoryChange]);
+
+    const handleCheckAnswer = useCallback((answer: string) => {
+        if (!practice) return;
+        updatePractice({ answer, result: checkAnswerEquivalence(answer, practice.solution.finalAnswerLatex) });
+    }, [practice, updatePractice]);
+
+    const handleRevealHint = useCallback(() => {
+        if (!practice) return;
+        updatePractice({ hintsUsed: Math.min(practice.record.hintsUsed + 1, practice.solution.steps.length) });
+    }, [practice, updatePractice]);
+
+    const handleShowPracticeSolution = useCallback(() => updatePractice({ solutionShown: true }), [updatePractice]);
+
+    const handleClearHistory = useCallback(() => persistHistoryChange(clearHistory), [persistHistoryChange]);
+    const handleDeleteHistoryEntry = useCallback((id: number) => {
+        persistHistoryChange(() => deleteHistoryEntry(id));
+    }, [persistHistoryChange]);
+    const handleToggleFavorite = useCallback((entry: HistoryEntry) => {
+        persistHistoryChange(() => updateHistoryEntry(entry.id, { favorite: !entry.favorite }));
+    }, [persistHistoryChange]);
+    const handleUpdateTags = useCallback((entry: HistoryEntry, tags: string[]) => {
+        persistHistoryChange(() => updateHistoryEntry(entry.id, { tags }));
+    }, [persistHistoryChange]);
+
+    const exportWorksheet = useCallback(async (ids: number[], format: 'pdf' | 'tex') => {
+        const entries = await getHistoryEntries(ids);
+        const title = t.worksheet.documentTitle;
+        if (format === 'tex') {
+            const problems = entries.map(entry => ({ solution: entry.solution ?? entry.fullSolution ?? '' }));
+            downloadBlob(new Blob([buildLatexDocument(problems, title, { language, bilingual })], { type: 'application/x-tex' }), 'limit-worksheet.tex');
+            return;
+        }
+        const problems = entries.map(entry => ({
+            imageUrl: entry.image ? URL.createObjectURL(entry.image) : undefined,
+            solution: entry.solution ?? entry.fullSolution ?? '',
+        }));
+        const ownedUrls = problems.flatMap(problem => (problem.imageUrl ? [problem.imageUrl] : []));
+        setPrintJob({ title, problems, ownedUrls });
+    }, [language, bilingual, t]);
+
+    const handleExportHistory = useCallback(async (ids: number[] | null, format: HistoryExportFormat) => {
+        if (format !== 'bundle') {
+            if (!ids) return;
+            try {
+                await exportWorksheet(ids, format);
+            } catch (err) {
+                console.error("Failed to export worksheet:", err);
+                setHistoryNotice({ kind: 'error', text: t.history.worksheetFailed });
+            }
+            return;
+        }
+        try {
+            const { blob, count } = await exportHistoryBundle(ids ?? undefined);
+            downloadBlob(blob, `limit-history-${new Date().toISOString().slice(0, 10)}.json`);
+            setHistoryNotice({ kind: 'success', text: t.history.exported(count) });
+        } catch (err) {
+            console.error("Failed to export history:", err);
+            setHistoryNotice({ kind: 'error', text: t.history.exportFailed });
+        }
+    }, [exportWorksheet, t]);
+
+    const handleImportHistory = useCallback(async (file: File) => {
+        try {
+            const { added, merged, invalid } = await importHistoryBundle(file);
+            setHistoryNotice({ kind: 'success', text: t.history.imported(added, merged, invalid) });
+        } catch (err) {
+            console.error("Failed to import history:", err);
+            const text = err instanceof HistoryBundleError
+                ? (err.kind === 'unsupportedVersion'
+                    ? t.history.importNewerVersion
+                    : t.history.importInvalid)
+                : t.history.importFailed;
+            setHistoryNotice({ kind: 'error', text });
+        } finally {
+            setHistoryRefreshKey(key => key + 1);
+        }
+    }, [t]);
+
+    const activeQuiz = quiz && quiz.solution === solution ? quiz : null;
 
     return (
-        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 flex flex-col items-center p-4 sm:p-6 lg:p-8 transition-colors duration-300">
-            <div className="w-full max-w-4xl mx-auto relative">
-                <div className="absolute top-0 right-0 pt-4 pr-4 sm:pt-2 sm:pr-2">
-                    <ThemeToggle theme={theme} onToggle={toggleTheme} />
-                </div>
+        <I18nContext.Provider value={i18n}>
+            <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 flex flex-col items-center p-4 sm:p-6 lg:p-8 transition-colors duration-300">
+                <div className="w-full max-w-4xl mx-auto relative print:hidden">
+                    <div className="absolute top-0 right-0 pt-4 pr-4 sm:pt-2 sm:pr-2 flex items-center gap-2">
+                        <LanguageSwitcher
+                            language={language}
+                            onChange={setLanguage}
+                            bilingual={bilingual}
+                            onToggleBilingual={() => setBilingual(value => !value)}
+                        />
+                        <ThemeToggle theme={theme} onToggle={toggleTheme} />
+                    </div>
                 
-                <header className="text-center mb-8 pt-12 sm:pt-6">
-                    <h1 className="text-4xl sm:text-5xl font-extrabold text-gray-900 dark:text-white">
-                        កម្មវិធីដោះស្រាយ<span className="text-blue-600 dark:text-blue-400">លីមីត</span>គណិតវិទ្យា
-                    </h1>
-                    <p className="mt-3 max-w-2xl mx-auto text-lg text-gray-500 dark:text-gray-400">
-                        បង្ហោះរូបភាពលំហាត់លីមីតរបស់អ្នក ហើយទទួលយកដំណោះស្រាយមួយជំហានម្តងៗពី AI។
-                    </p>
-                </header>
-
-                <main className="bg-white/70 backdrop-blur-xl border border-gray-200 dark:bg-gray-800/70 dark:border-gray-700 rounded-2xl shadow-lg p-6 sm:p-10">
-                    <ImageUploader 
-                        onImageChange={handleImageChange}
-                        onSolve={handleSolve}
-                        imageUrl={imageUrl}
-                        isLoading={isLoading}
-                        hasImage={!!imageBase64}
-                    />
-                </main>
+                    <header className="text-center mb-8 pt-12 sm:pt-6">
+                        <h1 className="text-4xl sm:text-5xl font-extrabold text-gray-900 dark:text-white">
+                            {t.header.titleBefore}<span className="text-blue-600 dark:text-blue-400">{t.topics.titles[solveTopic]}</span>{t.header.titleAfter}
+                        </h1>
+                        <p className="mt-3 max-w-2xl mx-auto text-lg text-gray-500 dark:text-gray-400">
+                            {t.header.subtitle(t.topics.problems[solveTopic])}
+                        </p>
+                    </header>
+
+                    <main className="bg-white/70 backdrop-blur-xl border border-gray-200 dark:bg-gray-800/70 dark:border-gray-700 rounded-2xl shadow-lg p-6 sm:p-10">
+                        <OfflineNotice isOnline={isOnline} queuedCount={queuedCount} isSolvingQueue={isSolvingQueue} queueResult={queueResult} />
+                        <InputModeTabs mode={inputMode} onChange={setInputMode} isLoading={isLoading} />
+                        {inputMode !== 'worksheet' && (
+                            <>
+                                <PracticeToggle enabled={practiceMode} onToggle={() => setPracticeMode(value => !value)} isLoading={isLoading} />
+                                <div className="mb-6 flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
+                                    <TopicSelect value={solveTopic} onChange={setSolveTopic} disabled={isLoading} />
+                                    {isLimitTopic(solveTopic) && <MethodSelect value={solveMethod} onChange={setSolveMethod} disabled={isLoading} />}
+                                </div>
+                            </>
+                        )}
+                        {inputMode === 'image' ? (
+                            <>
+                                <ImageUploader 
+                                    onImageFiles={handleImageFiles}
+                                    onSolve={handleSolve}
+                                    imageUrl={imageUrl}
+                                    isLoading={isLoading}
+                                    hasImage={!!imageBase64}
+                                    allowMultiple
+                                    imageNote={uploadSavingsNote}
+                                    quality={imageQuality}
+                                    onOverrideQuality={handleOverrideQuality}
+                                />
+                                {batchItems.length > 0 && (
+                                    <BatchQueuePanel
+                                        items={batchItems}
+                                        onAddFiles={addBatchFiles}
+                                        onStartAll={handleStartBatch}
+                                        onRetryFailed={handleRetryFailedBatch}
+                                        onClearFinished={handleClearFinishedBatch}
+                                        onCrop={handleCropBatchItem}
+                                        onRemove={handleRemoveBatchItem}
+                                        onRetry={handleRetryBatchItem}
+                                        onView={handleViewBatchItem}
+                                    />
+                                )}
+                            </>
+                        ) : inputMode === 'worksheet' ? (
+                            <>
+                                <ImageUploader
+                                    onImageFiles={handleImageFiles}
+                                    onSolve={handleDetectProblems}
+                                    imageUrl={imageUrl}
+                                    isLoading={isLoading}
+                                    hasImage={!!imageBase64}
+                                    solveLabel={t.worksheet.find}
+                                    imageNote={uploadSavingsNote}
+                                    quality={imageQuality}
+                                    onOverrideQuality={handleOverrideQuality}
+                                />
+                                {detectedProblems && imageUrl && (
+                                    <WorksheetProblemPicker
+                                        imageUrl={imageUrl}
+                                        problems={detectedProblems}
+                                        selected={selectedProblems}
+                                        onToggle={handleToggleProblem}
+                                        onSelectAll={handleSelectAllProblems}
+                                        onSolve={handleSolveWorksheet}
+                                        isLoading={isLoading}
+                                    />
+                                )}
+                            </>
+                        ) : (
+                            <TextProblemInput
+                                value={problemText}
+                                onChange={setProblemText}
+                                onSolve={handleSolve}
+                                isLoading={isLoading}
+                            />
+                        )}
+                    </main>
                 
-                <section>
-                  <SolutionDisplay
-                      ref={solutionRef}
-                      solution={solution}
-                      isLoading={isLoading}
-                      error={error}
-                      onCopy={handleCopyToClipboard}
-                      isCopied={isCopied}
-                  />
-                </section>
+                    <section>
+                      {inputMode === 'worksheet' ? (
+                        <>
+                          {/* Only detection progress and errors; each problem reports in its own card. */}
+                          <SolutionDisplay
+                              solution={null}
+                              verification={null}
+                              isLoading={isLoading && !worksheetCards}
+                              partialSolution={null}
+                              onCancel={handleCancelSolve}
+                              error={error}
+                              onCopy={handleCopyToClipboard}
+                              isCopied={false}
+                              onExportPdf={handleExportPdf}
+                              onExportTex={handleExportTex}
+                          />
+                          {worksheetCards?.map(card => (
+                              <WorksheetSolutionCard
+                                  key={card.number}
+                                  card={card}
+                                  onCancel={handleCancelSolve}
+                                  onExportPdf={handleExportCardPdf}
+                                  onExportTex={handleExportCardTex}
+                              />
+                          ))}
+                        </>
+                      ) : practiceMode && practice?.solution === solution && !practice.record.solutionShown && !isLoading ? (
+                        <PracticeView
+                            key={practice.entryId}
+                            solution={practice.solution}
+                            record={practice.record}
+                            onCheckAnswer={handleCheckAnswer}
+                            onRevealHint={handleRevealHint}
+                            onShowSolution={handleShowPracticeSolution}
+                        />
+                      ) : (
+                        <>
+                          <SolutionDisplay
+                              ref={solutionRef}
+                              solution={solution}
+                              verification={verification}
+                              isLoading={isLoading}
+                              partialSolution={practiceMode ? null : partialSolution}
+                              onCancel={handleCancelSolve}
+                              error={error}
+                              onCopy={handleCopyToClipboard}
+                              isCopied={isCopied}
+                              onExportPdf={handleExportPdf}
+                              onExportTex={handleExportTex}
+                              onFixFormatting={solution && typeof solution !== 'string' ? (errors) => handleFixFormatting(solution, errors) : undefined}
+                              onCancelFixFormatting={handleCancelFixFormatting}
+                              isFixingFormatting={!!formattingFix && formattingFix.solution === solution && !formattingFix.error}
+                              fixFormattingError={formattingFix?.solution === solution ? formattingFix.error : null}
+                              onResolveProblem={solution && typeof solution !== 'string' ? (problemLatex, method) => handleResolveProblem(solution, problemLatex, method) : undefined}
+                              method={solveMethod}
+                              onForceResolve={cachedSolve && cachedSolve.solution === solution ? handleForceResolve : undefined}
+                          />
+                          {!isLoading && solution && typeof solution !== 'string' && isLimitTopic(topicOf(solution)) && (
+                              <QuizPanel
+                                  key={solution.problemLatex}
+                                  solution={solution}
+                                  problems={activeQuiz?.problems ?? null}
+                                  isGenerating={!!activeQuiz && !activeQuiz.problems && !activeQuiz.error}
+                                  error={activeQuiz?.error ?? null}
+                                  onGenerate={(count) => handleGenerateSimilar(solution, count)}
+                                  onCancel={handleCancelSimilar}
+                              />
+                          )}
+                          {!isLoading && chat && chat.solution === solution && (
+                              <ChatPanel
+                                  key={chat.entryId}
+                                  solution={chat.solution}
+                                  messages={chat.messages}
+                                  pending={chatPending}
+                                  error={chatError}
+                                  onSend={handleSendChat}
+                                  onCancel={handleCancelChat}
+                              />
+                          )}
+                        </>
+                      )}
+                    </section>
                 
-                <HistorySection
-                  history={history}
-                  onSelect={handleSelectHistoryItem}
-                  onClear={handleClearHistory}
-                  onDelete={handleDeleteHistoryEntry}
-                />
+                    <HistorySection
+                      refreshKey={historyRefreshKey}
+                      notice={historyNotice}
+                      onSelect={handleSelectHistoryItem}
+                      onExport={handleExportHistory}
+                      onImport={handleImportHistory}
+                      onClear={handleClearHistory}
+                      onDelete={handleDeleteHistoryEntry}
+                      onToggleFavorite={handleToggleFavorite}
+                      onUpdateTags={handleUpdateTags}
+                    />
                 
-                <ImageCropModal 
-                    isOpen={isCropperOpen}
-                    onClose={handleCropCancel}
-                    onConfirm={handleCropConfirm}
-                    imageSrc={uncroppedImageUrl}
-                    crop={crop}
-                    setCrop={setCrop}
-                    setCompletedCrop={setCompletedCrop}
-                    imageRef={cropImageRef}
-                />
+                    <ImageCropModal 
+                        isOpen={isCropperOpen}
+                        onClose={handleCropCancel}
+                        onConfirm={handleCropConfirm}
+                        imageSrc={uncroppedImageUrl}
+                        originalSize={originalImageSize}
+                        crop={crop}
+                        setCrop={setCrop}
+                        completedCrop={completedCrop}
+                        setCompletedCrop={setCompletedCrop}
+                        imageRef={cropImageRef}
+                        settings={preprocessSettings}
+                        onSettingsChange={setPreprocessSettings}
+                    />
 
-                <footer className="text-center mt-12 text-gray-500 dark:text-gray-400 text-sm space-y-1">
-                    <p>&copy; {new Date().getFullYear()} - បង្កើតឡើងសម្រាប់ជាជំនួយក្នុងការសិក្សា</p>
-                    <p>
-                        <a href="https://about-me-kappa-five.vercel.app/" target="_blank" rel="noopener noreferrer" className="hover:text-blue-500 dark:hover:text-blue-400 transition-colors">
-                            ទំនាក់ទំនងអ្នកបង្កើត
-                        </a>
-                    </p>
-                </footer>
+                    <footer className="text-center mt-12 text-gray-500 dark:text-gray-400 text-sm space-y-1">
+                        <p>&copy; {new Date().getFullYear()} - {t.footer.note}</p>
+                        <p>
+                            <a href="https://about-me-kappa-five.vercel.app/" target="_blank" rel="noopener noreferrer" className="hover:text-blue-500 dark:hover:text-blue-400 transition-colors">
+                                {t.footer.contact}
+                            </a>
+                        </p>
+                    </footer>
+                </div>
+
+                {printJob && (
+                    <div className="hidden print:block w-full">
+                        <PrintableDocument ref={printRef} title={printJob.title} problems={printJob.problems} />
+                    </div>
+                )}
             </div>
-        </div>
+        </I18nContext.Provider>
     );
 }
\ No newline at end of file
@@ -0,0 +1,708 @@
+import type { Language, SolutionStep } from "../types";
+
+// The app's UI text in every supported language. Khmer is the reference catalog; the others must match its shape.
+
+export const LANGUAGES: Language[] = ['km', 'en'];
+
+/** Each language's name in that language, for the switcher. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+    km: 'ខ្មែរ',
+    en: 'English',
+};
+
+const km = {
+    header: {
+        titleBefore: 'កម្មវិធីដោះស្រាយ',
+        titleAfter: 'គណិតវិទ្យា',
+        subtitle: (problem: string) => `បង្ហោះរូបភាព${problem}របស់អ្នក ហើយទទួលយកដំណោះស្រាយមួយជំហានម្តងៗពី AI។`,
+    },
+    topics: {
+        label: 'ប្រធានបទ',
+        choices: {
+            auto: 'ឱ្យ AI កំណត់',
+            limits: 'លីមីត',
+            derivatives: 'ដេរីវេ',
+            integrals: 'អាំងតេក្រាល',
+            continuity: 'ភាពជាប់',
+            sequences: 'ស្វ៊ីត',
+        },
+        titles: {
+            auto: 'លំហាត់',
+            limits: 'លីមីត',
+            derivatives: 'ដេរីវេ',
+            integrals: 'អាំងតេក្រាល',
+            continuity: 'ភាពជាប់',
+            sequences: 'ស្វ៊ីត',
+        },
+        problems: {
+            auto: 'លំហាត់គណិតវិទ្យា',
+            limits: 'លំហាត់លីមីត',
+            derivatives: 'លំហាត់ដេរីវេ',
+            integrals: 'លំហាត់អាំងតេក្រាល',
+            continuity: 'លំហាត់ភាពជាប់',
+            sequences: 'លំហាត់ស្វ៊ីត',
+        },
+    },
+    footer: {
+        note: 'បង្កើតឡើងសម្រាប់ជាជំនួយក្នុងការសិក្សា',
+        contact: 'ទំនាក់ទំនងអ្នកបង្កើត',
+    },
+    settings: {
+        language: 'ភាសា',
+        bilingual: 'ពីរភាសា',
+        bilingualHint: 'បង្ហាញការពន្យល់ជាភាសាខ្មែរ និងអង់គ្លេសទន្ទឹមគ្នា',
+        darkMode: 'ប្តូរទៅផ្ទៃងងឹត',
+        lightMode: 'ប្តូរទៅផ្ទៃភ្លឺ',
+    },
+    common: {
+        solve: 'ដោះស្រាយ',
+        cancel: 'បោះបង់',
+        confirm: 'បញ្ជាក់',
+        save: 'រក្សាទុក',
+        calculating: 'កំពុងគណនា... សូមរង់ចាំបន្តិច',
+        problemNumber: (number: number) => `លំហាត់ទី ${number}`,
+    },
+    inputModes: {
+        image: 'បង្ហោះរូបភាព',
+        text: 'វាយបញ្ចូលលំហាត់',
+        worksheet: 'សន្លឹកលំហាត់',
+    },
+    guidelines: {
+        title: '💡 គន្លឹះដើម្បីទទួលបានលទ្ធផលល្អបំផុត៖',
+        lighting: 'ពន្លឺគ្រប់គ្រាន់ និងច្បាស់',
+        glare: 'គ្មានស្រមោល ឬពន្លឺចាំង',
+        straight: 'រូបថតចំលំហាត់',
+        legible: 'អក្សរដែលសរសេរច្បាស់ៗ',
+    },
+    quality: {
+        title: 'រូបភាពនេះអាចនឹងអានមិនបានត្រឹមត្រូវ៖',
+        tip: (guideline: string) => `(គន្លឹះ៖ ${guideline})`,
+        useAnyway: 'ប្រើរូបភាពនេះទោះយ៉ាងណា',
+        checking: 'កំពុងពិនិត្យរូបភាព...',
+        issues: {
+            blurry: 'រូបភាពព្រិល។ សូមកាន់ឧបករណ៍ឱ្យនឹង ហើយថតម្តងទៀត។',
+            tooDark: 'រូបភាពងងឹតពេក។ សូមថតនៅកន្លែងដែលមានពន្លឺគ្រប់គ្រាន់។',
+            tooBright: 'រូបភាពភ្លឺពេក ធ្វើឱ្យអក្សររលុប។ សូមជៀសវាងពន្លឺខ្លាំងពេក។',
+            glare: 'មានពន្លឺចាំងលើក្រដាស។ សូមប្តូរមុំថត ឬបិទពន្លឺហ្វ្លាស។',
+            tilted: 'រូបភាពទ្រេត។ សូមថតចំពីលើលំហាត់ ឬប្រើ "តម្រង់" ពេលកាត់រូប។',
+            textTooSmall: 'អក្សរតូចពេក។ សូមកាត់ឱ្យជិតលំហាត់ ឬថតឱ្យកាន់តែជិត។',
+        },
+    },
+    uploader: {
+        imageAlt: 'ការបង្ហាញរូបភាពលីមីត',
+        dropHere: 'អូសរូបភាពមកដាក់ទីនេះ ឬ ',
+        clickToChoose: 'ចុចដើម្បីជ្រើសរើស',
+        fileTypes: 'ប្រភេទរូបភាព PNG, JPG, WEBP · អាចបិទភ្ជាប់ (Ctrl+V) បាន',
+        takePhoto: 'ថតរូបដោយកាមេរ៉ា',
+        uploadSavings: (original: string, uploaded: string, saved: string, images: number) =>
+            `ទំហំផ្ញើ៖ ${original} → ${uploaded} · សរុបបានសន្សំ ${saved} លើរូបភាព ${images}`,
+    },
+    textInput: {
+        label: 'វាយលំហាត់ជា LaTeX ឬអក្សរធម្មតា',
+        preview: 'មើលជាមុន',
+        previewEmpty: 'លំហាត់របស់អ្នកនឹងបង្ហាញនៅទីនេះ',
+    },
+    verification: {
+        verified: 'បានផ្ទៀងផ្ទាត់ជាលេខ',
+        disagrees: 'ការគណនាជាលេខមិនស្របនឹងចម្លើយ',
+        unchecked: 'មិនអាចផ្ទៀងផ្ទាត់បាន',
+        estimate: 'តម្លៃប្រហាក់ប្រហែល៖',
+    },
+    cache: {
+        fromCache: 'ពីឃ្លាំងផ្ទុកបណ្តោះអាសន្ន',
+        hint: 'រូបភាពនេះធ្លាប់បានដោះស្រាយរួចហើយ ដូច្នេះដំណោះស្រាយដែលបានរក្សាទុកត្រូវបានបង្ហាញ ដោយមិនស្នើសុំទៅ AI ម្តងទៀតទេ។',
+        forceResolve: 'បង្ខំឱ្យដោះស្រាយម្តងទៀត',
+    },
+    offline: {
+        banner: 'អ្នកកំពុងគ្មានអ៊ីនធឺណិត។ ប្រវត្តិ និងដំណោះស្រាយចាស់ៗនៅតែអាចមើលបាន ហើយរូបភាពដែលអ្នកដោះស្រាយនឹងត្រូវរក្សាទុកក្នុងជួរ។',
+        queued: (count: number) => `រូបភាព ${count} កំពុងរង់ចាំដោះស្រាយ នៅពេលមានអ៊ីនធឺណិតវិញ។`,
+        solving: (count: number) => `កំពុងដោះស្រាយរូបភាព ${count} ដែលបានរក្សាទុកពេលគ្មានអ៊ីនធឺណិត...`,
+        solved: (count: number) => `បានដោះស្រាយរូបភាព ${count} ដែលបានរក្សាទុកពេលគ្មានអ៊ីនធឺណិត។ សូមមើលវានៅក្នុងប្រវត្តិ។`,
+        failed: (count: number) => `រូបភាព ${count} មិនអាចដោះស្រាយបានទេ ហើយត្រូវបានដកចេញពីជួរ។`,
+        queueFailed: 'មិនអាចរក្សាទុករូបភាពនេះក្នុងជួរបានទេ។',
+    },
+    solution: {
+        title: 'ចម្លើយលម្អិត',
+        writing: 'កំពុងសរសេរចម្លើយ...',
+        indeterminateForm: 'ទម្រង់មិនកំណត់៖',
+        finalAnswer: 'ចម្លើយចុងក្រោយ',
+        copy: 'ចម្លង',
+        copied: 'បានចម្លង',
+        copyLabel: 'ចម្លងដំណោះស្រាយ',
+        copiedLabel: 'បានចម្លងដំណោះស្រាយ',
+        copyFailed: 'មិនអាចចម្លងទៅក្ដារតម្បៀតខ្ទាស់បានទេ។',
+        printLabel: 'បោះពុម្ព ឬរក្សាទុកជា PDF',
+        texLabel: 'ទាញយកកូដ LaTeX',
+        documentTitle: 'ដំណោះស្រាយលីមីត',
+    },
+    methods: {
+        label: 'វិធីដោះស្រាយ',
+        choices: {
+            auto: 'ឱ្យ AI ជ្រើសរើស',
+            factoring: 'ដាក់ជាផលគុណកត្តា',
+            conjugate: 'គុណនឹងកន្សោមឆ្លាស់',
+            lhopital: "វិធាន L'Hôpital",
+            trigLimits: 'លីមីតត្រីកោណមាត្រគោល',
+            squeeze: 'ទ្រឹស្តីបទសង្កត់',
+            twoMethods: 'ដោះស្រាយដោយវិធីពីរផ្សេងគ្នា',
+        },
+        form: (form: string) => `ទម្រង់មិនកំណត់៖ $${form}$`,
+        determinate: 'មិនមែនជាទម្រង់មិនកំណត់ទេ៖ អាចជំនួសតម្លៃផ្ទាល់បាន។',
+    },
+    correction: {
+        title: 'លំហាត់ដែល AI បានអាន',
+        hint: 'បើ AI អានខុស (ឧទាហរណ៍ x2 ជំនួសឱ្យ x^2) សូមកែ LaTeX ខាងក្រោម រួចដោះស្រាយម្តងទៀតដោយមិនចាំបាច់ផ្ទុករូបភាពឡើងវិញ។',
+        preview: 'មើលជាមុន',
+        undo: 'ត្រឡប់ដូចដើម',
+        resolve: 'ដោះស្រាយម្តងទៀត',
+    },
+    formatting: {
+        warning: (count: number) => `រូបមន្ត ${count} មិនអាចបង្ហាញបានត្រឹមត្រូវទេ៖`,
+        fix: 'សុំឱ្យ AI កែទម្រង់',
+        fixing: 'កំពុងកែទម្រង់...',
+    },
+    graph: {
+        title: 'ក្រាបនៅជិតចំណុចលីមីត',
+        hint: 'រំកិលកង់កណ្ដុរ ឬប្រើប៊ូតុង ដើម្បីពង្រីក ឬបង្រួម។ អូសដើម្បីផ្លាស់ទី។',
+        unavailable: 'មិនអាចគូរក្រាបបានទេ ព្រោះមិនអាចអានអនុគមន៍ ឬចំណុចដែល x ខិតទៅបាន។',
+        zoomIn: 'ពង្រីក',
+        zoomOut: 'បង្រួម',
+        reset: 'កំណត់ទិដ្ឋភាពឡើងវិញ',
+        label: 'ក្រាបនៃអនុគមន៍នៅជិតចំណុចលីមីត',
+        hover: (x: string, y: string) => `$x = ${x}$, $f(x) = ${y}$`,
+        undefinedValue: 'មិនកំណត់',
+        approach: (x: string) => `$x$ ខិតទៅ $${x}$`,
+        left: (value: string) => `លីមីតខាងឆ្វេង៖ $${value}$`,
+        right: (value: string) => `លីមីតខាងស្តាំ៖ $${value}$`,
+        hole: (x: string, y: string) => `ចំណុចប្រហោងនៅ $(${x}, ${y})$`,
+        verticalAsymptote: (x: string) => `អាស៊ីមតូតឈរ $x = ${x}$`,
+        horizontalAsymptote: (y: string) => `អាស៊ីមតូតដេក $y = ${y}$`,
+    },
+    solveErrors: {
+        quota: 'សេវាកម្ម AI ត្រូវបានប្រើប្រាស់ច្រើនពេក ឬអស់កូតាហើយ។ សូមរង់ចាំបន្តិច រួចព្យាយាមម្តងទៀត។',
+        network: 'មិនអាចភ្ជាប់ទៅកាន់សេវាកម្ម AI បានទេ។ សូមពិនិត្យការតភ្ជាប់អ៊ីនធឺណិតរបស់អ្នក រួចព្យាយាមម្តងទៀត។',
+        safety: 'សំណើនេះត្រូវបានបដិសេធដោយតម្រងសុវត្ថិភាពរបស់ AI។ សូមប្រាកដថារូបភាពមានតែលំហាត់គណិតវិទ្យាប៉ុណ្ណោះ។',
+        unreadable: 'AI មិនអាចអានលំហាត់លីមីតពីរូបភាពនេះបានទេ។ សូមថតរូបឱ្យច្បាស់ជាងមុន ឬកាត់យកតែលំហាត់។',
+        timeout: 'សេវាកម្ម AI ឆ្លើយតបយឺតពេក។ សូមព្យាយាមម្តងទៀត។',
+        cancelled: 'ការដោះស្រាយត្រូវបានបោះបង់។',
+        unknown: 'មានបញ្ហាក្នុងការដោះស្រាយលំហាត់។ សូមព្យាយាមម្តងទៀត។',
+    },
+    practice: {
+        toggle: 'របៀបហាត់',
+        toggleHint: 'ដោះស្រាយដោយខ្លួនឯង ហើយមើលជំហានម្តងមួយៗជាតម្រុយ',
+        title: 'ហាត់ដោះស្រាយ',
+        prompt: 'សូមដោះស្រាយលំហាត់នេះដោយខ្លួនឯង រួចវាយចម្លើយចុងក្រោយរបស់អ្នក។',
+        answerLabel: 'ចម្លើយរបស់អ្នក',
+        answerPlaceholder: 'ឧ. \\frac{1}{2}, 0.5 ឬ -inf',
+        check: 'ពិនិត្យ',
+        correct: 'ត្រឹមត្រូវ! ល្អណាស់។',
+        incorrect: 'មិនទាន់ត្រូវទេ។ សូមព្យាយាមម្តងទៀត ឬមើលតម្រុយ។',
+        unknown: 'មិនអាចអានចម្លើយនេះបានទេ។ សូមសាកសរសេរជា LaTeX ដូចជា \\frac{1}{2}។',
+        hint: 'មើលតម្រុយ',
+        hintsUsed: (used: number, total: number) => `តម្រុយបានប្រើ ${used} / ${total}`,
+        showSolution: 'បង្ហាញដំណោះស្រាយពេញ',
+    },
+    chat: {
+        title: 'សួរបន្ថែម',
+        intro: 'មិនយល់ជំហានណាមួយមែនទេ? សួរមកបាន។',
+        you: 'អ្នក',
+        tutor: 'គ្រូជំនួយ',
+        quoteLabel: 'សួរអំពី',
+        wholeSolution: 'ដំណោះស្រាយទាំងមូល',
+        step: (n: number) => `ជំហានទី ${n}`,
+        placeholder: 'ឧ. ហេតុអ្វីបានជាយើងគុណនឹងកន្សោមឆ្លាស់នៅទីនេះ?',
+        send: 'ផ្ញើ',
+        thinking: 'កំពុងសរសេរចម្លើយ...',
+    },
+    quiz: {
+        title: 'លំហាត់ស្រដៀងគ្នា',
+        intro: 'បង្កើតលំហាត់ថ្មីដែលមានទម្រង់ដូចគ្នា ពីងាយទៅពិបាក ហើយធ្វើតេស្តខ្លួនឯង។',
+        countLabel: 'ចំនួនលំហាត់',
+        generate: 'បង្កើតលំហាត់ស្រដៀងគ្នា',
+        generating: 'កំពុងសរសេរលំហាត់...',
+        prompt: 'ដោះស្រាយលំហាត់នីមួយៗ រួចវាយចម្លើយរបស់អ្នក។ ចម្លើយត្រឹមត្រូវត្រូវបានលាក់រហូតដល់អ្នកពិនិត្យ។',
+        difficulty: { easy: 'ងាយ', medium: 'មធ្យម', hard: 'ពិបាក' },
+        answerLabel: (n: number) => `ចម្លើយលំហាត់ទី ${n}`,
+        check: 'ពិនិត្យចម្លើយ',
+        result: { correct: 'ត្រឹមត្រូវ', incorrect: 'មិនត្រឹមត្រូវ', unknown: 'មិនអាចអានបាន' },
+        expected: 'ចម្លើយ៖',
+        score: (correct: number, total: number) => `ពិន្ទុ៖ ${correct} / ${total}`,
+        retry: 'ធ្វើម្តងទៀត',
+        regenerate: 'លំហាត់ថ្មី',
+        pastScores: 'ពិន្ទុមុនៗ',
+        noProblems: 'មិនអាចបង្កើតលំហាត់បានទេ។ សូមព្យាយាមម្តងទៀត។',
+    },
+    worksheet: {
+        find: 'ស្វែងរកលំហាត់',
+        found: (count: number) => `រកឃើញលំហាត់ចំនួន ${count}`,
+        imageAlt: 'សន្លឹកលំហាត់',
+        selectAll: 'ជ្រើសទាំងអស់',
+        deselectAll: 'មិនជ្រើសទាំងអស់',
+        solveSelected: (count: number) => `ដោះស្រាយលំហាត់ដែលបានជ្រើស (${count})`,
+        waiting: 'កំពុងរង់ចាំ...',
+        documentTitle: 'សន្លឹកលំហាត់លីមីត',
+    },
+    batch: {
+        title: (count: number) => `ជួររូបភាព (${count})`,
+        addImages: 'បន្ថែមរូបភាព',
+        solvedCount: (solved: number, total: number) => `បានដោះស្រាយ ${solved} / ${total}`,
+        failedCount: (count: number) => `បរាជ័យ ${count}`,
+        crop: 'កាត់',
+        view: 'មើល',
+        retry: 'ព្យាយាមម្តងទៀត',
+        remove: 'ដកចេញ',
+        clearFinished: 'ដករូបដែលរួចរាល់',
+        retryFailed: (count: number) => `ព្យាយាមម្តងទៀតទាំងអស់ (${count})`,
+        solveAll: (count: number) => `ដោះស្រាយទាំងអស់ (${count})`,
+        status: {
+            ready: 'រង់ចាំចាប់ផ្តើម',
+            queued: 'ក្នុងជួរ',
+            solving: 'កំពុងដោះស្រាយ...',
+            solved: 'រួចរាល់',
+            failed: 'បរាជ័យ',
+        },
+    },
+    history: {
+        title: 'ប្រវត្តិ',
+        dateLocale: 'km-KH',
+        selectForExport: 'ជ្រើសដើម្បីនាំចេញ',
+        thumbnailAlt: 'រូបភាពលំហាត់',
+        addFavorite: 'បន្ថែមទៅចំណូលចិត្ត',
+        removeFavorite: 'ដកចេញពីចំណូលចិត្ត',
+        editTags: 'កែស្លាក',
+        deleteEntry: 'លុបលំហាត់នេះ',
+        tagsPlaceholder: 'ស្លាក បំបែកដោយសញ្ញាក្បៀស (,)',
+        exportSelected: (count: number) => `នាំចេញដែលបានជ្រើស (${count})`,
+        exportAll: 'នាំចេញទាំងអស់',
+        import: 'នាំចូល',
+        worksheetPdf: 'សន្លឹកលំហាត់ PDF',
+        worksheetTex: 'សន្លឹកលំហាត់ .tex',
+        clearSelection: 'ឈប់ជ្រើស',
+        searchPlaceholder: 'ស្វែងរកលំហាត់ ឬដំណោះស្រាយ...',
+        filterByTag: 'ច្រោះតាមស្លាក',
+        allTags: 'ស្លាកទាំងអស់',
+        filterByTopic: 'ត្រងតាមប្រធានបទ',
+        allTopics: 'ប្រធានបទទាំងអស់',
+        favorites: 'ចំណូលចិត្ត',
+        previous: 'មុន',
+        next: 'បន្ទាប់',
+        page: (page: number, pageCount: number) => `ទំព័រ ${page} / ${pageCount}`,
+        clearAll: 'លុបប្រវត្តិទាំងអស់។',
+        empty: 'គ្មានប្រវត្តិ',
+        practiced: (hints: number) => `បានហាត់ · តម្រុយ ${hints}`,
+        corrected: 'បានកែការអាន',
+        correctedTitle: (recognized: string) => `AI បានអានជា៖ ${recognized}`,
+        misreadings: 'ការអានខុសញឹកញាប់បំផុត',
+        misreadingCount: (count: number) => `${count} ដង`,
+        saveFailed: 'មិនអាចរក្សាទុកប្រវត្តិបានទេ។ ទំហំផ្ទុកក្នុងកម្មវិធីរុករកអាចពេញ។',
+        worksheetFailed: 'មិនអាចបង្កើតសន្លឹកលំហាត់បានទេ។',
+        exported: (count: number) => `បាននាំចេញលំហាត់ ${count}។`,
+        exportFailed: 'មិនអាចនាំចេញប្រវត្តិបានទេ។',
+        imported: (added: number, merged: number, invalid: number) =>
+            `បាននាំចូលលំហាត់ថ្មី ${added} និងបញ្ចូលគ្នា ${merged} ដែលមានរួចហើយ។${invalid > 0 ? ` រំលង ${invalid} ដែលខូច។` : ''}`,
+        importNewerVersion: 'ឯកសារនេះបានបង្កើតដោយកំណែថ្មីជាងនៃកម្មវិធី។ សូមធ្វើបច្ចុប្បន្នភាពកម្មវិធី។',
+        importInvalid: 'ឯកសារនេះមិនមែនជាឯកសារប្រវត្តិដែលត្រឹមត្រូវទេ។',
+        importFailed: 'មិនអាចនាំចូលប្រវត្តិបានទេ។ ទំហំផ្ទុកក្នុងកម្មវិធីរុករកអាចពេញ។',
+    },
+    crop: {
+        title: 'កាត់ និងកែលម្អរូបភាព',
+        imageAlt: 'រូបភាពដែលត្រូវកាត់',
+        failed: 'មិនអាចកាត់រូបភាពបានទេ។ សូមព្យាយាមម្តងទៀត។',
+        rotate: 'បង្វិល',
+        rotateLeft: 'បង្វិលទៅឆ្វេង ៩០°',
+        rotateRight: 'បង្វិលទៅស្តាំ ៩០°',
+        straighten: (degrees: string) => `តម្រង់ (${degrees}°)`,
+        auto: 'ស្វ័យប្រវត្តិ',
+        grayscale: 'ពណ៌ប្រផេះ',
+        enhance: 'កែលម្អ',
+        maxSize: 'ទំហំអតិបរមា',
+        before: 'មុន',
+        beforeAlt: 'មុនពេលកែ',
+        after: 'ក្រោយ',
+        afterAlt: 'ក្រោយពេលកែ',
+        uploadSize: 'ទំហំផ្ញើ៖',
+        smallerBy: (percent: number) => ` (តូចជាង ${percent}%)`,
+        enhancements: {
+            none: 'គ្មាន',
+            contrast: 'បង្កើនកម្រិតពណ៌',
+            threshold: 'ខ្មៅ-ស (សរសេរដៃ)',
+        },
+    },
+    camera: {
+        title: 'ថតរូបលំហាត់',
+        chooseCamera: 'ជ្រើសរើសកាមេរ៉ា',
+        rearCamera: 'កាមេរ៉ាក្រោយ',
+        cameraNumber: (number: number) => `កាមេរ៉ា ${number}`,
+        frameHint: 'ដាក់លំហាត់ឱ្យនៅក្នុងស៊ុម',
+        capture: 'ថត',
+        openFailed: 'មិនអាចបើកកាមេរ៉ាបានទេ។',
+        errors: {
+            NotAllowedError: 'មិនមានការអនុញ្ញាតឱ្យប្រើកាមេរ៉ាទេ។ សូមអនុញ្ញាតក្នុងការកំណត់កម្មវិធីរុករក។',
+            NotFoundError: 'រកមិនឃើញកាមេរ៉ានៅលើឧបករណ៍នេះទេ។',
+            NotReadableError: 'កាមេរ៉ាកំពុងត្រូវបានប្រើដោយកម្មវិធីផ្សេង។',
+        } as Record<string, string>,
+    },
+};
+
+export type Messages = typeof km;
+
+const en: Messages = {
+    header: {
+        titleBefore: 'Math ',
+        titleAfter: ' Solver',
+        subtitle: (problem: string) => `Upload a photo of your ${problem} and get a step-by-step solution from AI.`,
+    },
+    topics: {
+        label: 'Topic',
+        choices: {
+            auto: 'Let the AI detect it',
+            limits: 'Limits',
+            derivatives: 'Derivatives',
+            integrals: 'Integrals',
+            continuity: 'Continuity',
+            sequences: 'Sequences',
+        },
+        titles: {
+            auto: 'Calculus',
+            limits: 'Limit',
+            derivatives: 'Derivative',
+            integrals: 'Integral',
+            continuity: 'Continuity',
+            sequences: 'Sequence',
+        },
+        problems: {
+            auto: 'calculus problem',
+            limits: 'limit problem',
+            derivatives: 'derivative problem',
+            integrals: 'integral',
+            continuity: 'continuity problem',
+            sequences: 'sequence problem',
+        },
+    },
+    footer: {
+        note: 'Made as a study aid',
+        contact: 'Contact the author',
+    },
+    settings: {
+        language: 'Language',
+        bilingual: 'Bilingual',
+        bilingualHint: 'Show the explanations in Khmer and English side by side',
+        darkMode: 'Switch to dark mode',
+        lightMode: 'Switch to light mode',
+    },
+    common: {
+        solve: 'Solve',
+        cancel: 'Cancel',
+        confirm: 'Confirm',
+        save: 'Save',
+        calculating: 'Calculating... please wait',
+        problemNumber: (number: number) => `Problem ${number}`,
+    },
+    inputModes: {
+        image: 'Upload image',
+        text: 'Type a problem',
+        worksheet: 'Worksheet',
+    },
+    guidelines: {
+        title: '💡 Tips for the best results:',
+        lighting: 'Good, even lighting',
+        glare: 'No shadows or glare',
+        straight: 'Photo taken straight on',
+        legible: 'Clearly written text',
+    },
+    quality: {
+        title: 'This photo may not be read correctly:',
+        tip: (guideline: string) => `(Tip: ${guideline})`,
+        useAnyway: 'Use this photo anyway',
+        checking: 'Checking the photo...',
+        issues: {
+            blurry: 'The photo is blurry. Hold the device steady and take it again.',
+            tooDark: 'The photo is too dark. Take it somewhere with enough light.',
+            tooBright: 'The photo is too bright and the writing is washed out. Avoid strong light.',
+            glare: 'There is glare on the paper. Change the angle or turn off the flash.',
+            tilted: 'The photo is tilted. Shoot from straight above or use "Straighten" when cropping.',
+            textTooSmall: 'The writing is too small. Crop closer to the problem or move the camera closer.',
+        },
+    },
+    uploader: {
+        imageAlt: 'Preview of the limit problem',
+        dropHere: 'Drop an image here or ',
+        clickToChoose: 'click to choose one',
+        fileTypes: 'PNG, JPG or WEBP images · you can also paste (Ctrl+V)',
+        takePhoto: 'Take a photo',
+        uploadSavings: (original: string, uploaded: string, saved: string, images: number) =>
+            `Upload size: ${original} → ${uploaded} · ${saved} saved in total over ${images} images`,
+    },
+    textInput: {
+        label: 'Type the problem as LaTeX or plain text',
+        preview: 'Preview',
+        previewEmpty: 'Your problem will appear here',
+    },
+    verification: {
+        verified: 'Checked numerically',
+        disagrees: 'The numeric check disagrees with the answer',
+        unchecked: 'Could not be checked',
+        estimate: 'Numeric estimate:',
+    },
+    cache: {
+        fromCache: 'From cache',
+        hint: 'This photo was solved before, so the saved solution is shown without asking the AI again.',
+        forceResolve: 'Force re-solve',
+    },
+    offline: {
+        banner: "You're offline. History and past solutions are still available, and photos you solve are queued.",
+        queued: (count: number) => `${count} ${count === 1 ? 'photo is' : 'photos are'} waiting to be solved when you're back online.`,
+        solving: (count: number) => `Solving ${count} ${count === 1 ? 'photo' : 'photos'} queued while offline...`,
+        solved: (count: number) => `Solved ${count} ${count === 1 ? 'photo' : 'photos'} queued while offline. You'll find them in your history.`,
+        failed: (count: number) => `${count} queued ${count === 1 ? 'photo' : 'photos'} could not be solved and ${count === 1 ? 'was' : 'were'} removed from the queue.`,
+        queueFailed: 'This photo could not be saved to the queue.',
+    },
+    solution: {
+        title: 'Detailed solution',
+        writing: 'Writing the solution...',
+        indeterminateForm: 'Indeterminate form:',
+        finalAnswer: 'Final answer',
+        copy: 'Copy',
+        copied: 'Copied',
+        copyLabel: 'Copy solution',
+        copiedLabel: 'Solution copied',
+        copyFailed: 'Could not copy text to clipboard.',
+        printLabel: 'Print or save as PDF',
+        texLabel: 'Download LaTeX source',
+        documentTitle: 'Limit solution',
+    },
+    methods: {
+        label: 'Solving method',
+        choices: {
+            auto: 'Let the AI choose',
+            factoring: 'Factoring',
+            conjugate: 'Conjugate multiplication',
+            lhopital: "L'Hôpital's rule",
+            trigLimits: 'Standard trig limits',
+            squeeze: 'Squeeze theorem',
+            twoMethods: 'Solve with two different methods',
+        },
+        form: (form: string) => `Indeterminate form: $${form}$`,
+        determinate: 'Not an indeterminate form: direct substitution works.',
+    },
+    correction: {
+        title: 'Problem as the AI read it',
+        hint: 'If the AI misread the problem (e.g. x2 instead of x^2), correct the LaTeX below and solve again without re-uploading.',
+        preview: 'Preview',
+        undo: 'Undo changes',
+        resolve: 'Solve again',
+    },
+    formatting: {
+        warning: (count: number) => `${count} ${count === 1 ? 'formula' : 'formulas'} could not be displayed correctly:`,
+        fix: 'Ask the AI to fix the formatting',
+        fixing: 'Fixing the formatting...',
+    },
+    graph: {
+        title: 'Graph near the limit point',
+        hint: 'Scroll or use the buttons to zoom. Drag to pan.',
+        unavailable: 'The graph could not be drawn because the function or the point x approaches could not be read.',
+        zoomIn: 'Zoom in',
+        zoomOut: 'Zoom out',
+        reset: 'Reset view',
+        label: 'Graph of the function near the limit point',
+        hover: (x: string, y: string) => `$x = ${x}$, $f(x) = ${y}$`,
+        undefinedValue: 'undefined',
+        approach: (x: string) => `$x$ approaches $${x}$`,
+        left: (value: string) => `Left-hand limit: $${value}$`,
+        right: (value: string) => `Right-hand limit: $${value}$`,
+        hole: (x: string, y: string) => `Hole at $(${x}, ${y})$`,
+        verticalAsymptote: (x: string) => `Vertical asymptote $x = ${x}$`,
+        horizontalAsymptote: (y: string) => `Horizontal asymptote $y = ${y}$`,
+    },
+    solveErrors: {
+        quota: 'The AI service is busy or out of quota. Please wait a moment and try again.',
+        network: 'Could not reach the AI service. Check your internet connection and try again.',
+        safety: "The request was blocked by the AI's safety filters. Make sure the photo shows only a math problem.",
+        unreadable: 'The AI could not read a limit problem from this photo. Take a clearer photo or crop it to the problem.',
+        timeout: 'The AI service took too long to answer. Please try again.',
+        cancelled: 'The solve was cancelled.',
+        unknown: 'Something went wrong while solving the problem. Please try again.',
+    },
+    practice: {
+        toggle: 'Practice mode',
+        toggleHint: 'Solve it yourself and reveal the steps one at a time as hints',
+        title: 'Practice',
+        prompt: 'Solve this problem yourself, then type your final answer.',
+        answerLabel: 'Your answer',
+        answerPlaceholder: 'e.g. \\frac{1}{2}, 0.5 or -inf',
+        check: 'Check',
+        correct: 'Correct! Well done.',
+        incorrect: 'Not quite. Try again or take a hint.',
+        unknown: 'Could not read that answer. Try writing it as LaTeX, like \\frac{1}{2}.',
+        hint: 'Show a hint',
+        hintsUsed: (used: number, total: number) => `Hints used: ${used} / ${total}`,
+        showSolution: 'Show the full solution',
+    },
+    chat: {
+        title: 'Ask a follow-up',
+        intro: "Don't follow a step? Ask about it here.",
+        you: 'You',
+        tutor: 'Tutor',
+        quoteLabel: 'Ask about',
+        wholeSolution: 'The whole solution',
+        step: (n: number) => `Step ${n}`,
+        placeholder: 'e.g. Why did we multiply by the conjugate here?',
+        send: 'Send',
+        thinking: 'Writing a reply...',
+    },
+    quiz: {
+        title: 'Similar problems',
+        intro: 'Generate new problems of the same form, from easy to hard, and quiz yourself.',
+        countLabel: 'Number of problems',
+        generate: 'Generate similar problems',
+        generating: 'Writing problems...',
+        prompt: 'Solve each problem and type your answer. The answers stay hidden until you check.',
+        difficulty: { easy: 'Easy', medium: 'Medium', hard: 'Hard' },
+        answerLabel: (n: number) => `Answer to problem ${n}`,
+        check: 'Check answers',
+        result: { correct: 'Correct', incorrect: 'Incorrect', unknown: 'Could not read' },
+        expected: 'Answer:',
+        score: (correct: number, total: number) => `Score: ${correct} / ${total}`,
+        retry: 'Try again',
+        regenerate: 'New problems',
+        pastScores: 'Previous scores',
+        noProblems: 'No problems could be generated. Please try again.',
+    },
+    worksheet: {
+        find: 'Find problems',
+        found: (count: number) => `Found ${count} ${count === 1 ? 'problem' : 'problems'}`,
+        imageAlt: 'Worksheet',
+        selectAll: 'Select all',
+        deselectAll: 'Deselect all',
+        solveSelected: (count: number) => `Solve selected problems (${count})`,
+        waiting: 'Waiting...',
+        documentTitle: 'Limit worksheet',
+    },
+    batch: {
+        title: (count: number) => `Image queue (${count})`,
+        addImages: 'Add images',
+        solvedCount: (solved: number, total: number) => `Solved ${solved} / ${total}`,
+        failedCount: (count: number) => `${count} failed`,
+        crop: 'Crop',
+        view: 'View',
+        retry: 'Retry',
+        remove: 'Remove',
+        clearFinished: 'Remove finished',
+        retryFailed: (count: number) => `Retry all failed (${count})`,
+        solveAll: (count: number) => `Solve all (${count})`,
+        status: {
+            ready: 'Not started',
+            queued: 'Queued',
+            solving: 'Solving...',
+            solved: 'Done',
+            failed: 'Failed',
+        },
+    },
+    history: {
+        title: 'History',
+        dateLocale: 'en-GB',
+        selectForExport: 'Select for export',
+        thumbnailAlt: 'Problem thumbnail',
+        addFavorite: 'Add to favorites',
+        removeFavorite: 'Remove from favorites',
+        editTags: 'Edit tags',
+        deleteEntry: 'Delete entry',
+        tagsPlaceholder: 'Tags, separated by commas (,)',
+        exportSelected: (count: number) => `Export selected (${count})`,
+        exportAll: 'Export all',
+        import: 'Import',
+        worksheetPdf: 'PDF worksheet',
+        worksheetTex: '.tex worksheet',
+        clearSelection: 'Clear selection',
+        searchPlaceholder: 'Search problems or solutions...',
+        filterByTag: 'Filter by tag',
+        allTags: 'All tags',
+        filterByTopic: 'Filter by topic',
+        allTopics: 'All topics',
+        favorites: 'Favorites',
+        previous: 'Previous',
+        next: 'Next',
+        page: (page: number, pageCount: number) => `Page ${page} / ${pageCount}`,
+        clearAll: 'Clear all history',
+        empty: 'No history yet',
+        practiced: (hints: number) => `Practised · ${hints} ${hints === 1 ? 'hint' : 'hints'}`,
+        corrected: 'Corrected reading',
+        correctedTitle: (recognized: string) => `The AI read: ${recognized}`,
+        misreadings: 'Most common misreadings',
+        misreadingCount: (count: number) => `${count}×`,
+        saveFailed: "Could not save the history. The browser's storage may be full.",
+        worksheetFailed: 'Could not create the worksheet.',
+        exported: (count: number) => `Exported ${count} ${count === 1 ? 'problem' : 'problems'}.`,
+        exportFailed: 'Could not export the history.',
+        imported: (added: number, merged: number, invalid: number) =>
+            `Imported ${added} new and merged ${merged} existing problems.${invalid > 0 ? ` Skipped ${invalid} damaged.` : ''}`,
+        importNewerVersion: 'This file was made by a newer version of the app. Please update the app.',
+        importInvalid: 'This file is not a valid history file.',
+        importFailed: "Could not import the history. The browser's storage may be full.",
+    },
+    crop: {
+        title: 'Crop and enhance the image',
+        imageAlt: 'Crop preview',
+        failed: 'Could not crop the image. Please try again.',
+        rotate: 'Rotate',
+        rotateLeft: 'Rotate left 90°',
+        rotateRight: 'Rotate right 90°',
+        straighten: (degrees: string) => `Straighten (${degrees}°)`,
+        auto: 'Auto',
+        grayscale: 'Grayscale',
+        enhance: 'Enhance',
+        maxSize: 'Maximum size',
+        before: 'Before',
+        beforeAlt: 'Before enhancing',
+        after: 'After',
+        afterAlt: 'After enhancing',
+        uploadSize: 'Upload size:',
+        smallerBy: (percent: number) => ` (${percent}% smaller)`,
+        enhancements: {
+            none: 'None',
+            contrast: 'Boost contrast',
+            threshold: 'Black and white (handwriting)',
+        },
+    },
+    camera: {
+        title: 'Photograph the problem',
+        chooseCamera: 'Choose a camera',
+        rearCamera: 'Rear camera',
+        cameraNumber: (number: number) => `Camera ${number}`,
+        frameHint: 'Keep the problem inside the frame',
+        capture: 'Capture',
+        openFailed: 'Could not open the camera.',
+        errors: {
+            NotAllowedError: "Camera access was denied. Allow it in the browser's settings.",
+            NotFoundError: 'No camera was found on this device.',
+            NotReadableError: 'The camera is being used by another app.',
+        },
+    },
+};
+
+const CATALOGS: Record<Language, Messages> = { km, en };
+
+/**
+ * Returns the UI text for a language.
+ * @param language The language.
+ * @returns The message catalog.
+ */
+export const getMessages = (language: Language): Messages => CATALOGS[language];
+
+/**
+ * Picks the explanations of a step to show, preferred language first.
+ * Falls back to the other language when the step lacks the preferred one (e.g. an older, Khmer-only solution).
+ * @param step The step, possibly still streaming.
+ * @param language The preferred language.
+ * @param bilingual Whether to include the other language too, when the step has it.
+ * @returns One or two explanations with their language; empty when the step has none yet.
+ */
+export const stepExplanations = (
+    step: Partial<SolutionStep>,
+    language: Language,
+    bilingual: boolean,
+): { language: Language; text: string }[] => {
+    const texts: Record<Language, string | undefined> = { km: step.explanationKm, en: step.explanationEn };
+    const available = [language, ...LANGUAGES.filter(other => other !== language)].filter(code => texts[code]);
+    return (bilingual ? available : available.slice(0, 1)).map(code => ({ language: code, text: texts[code]! }));
+};
@@ -0,0 +1,88 @@
+// Keeps the app usable offline: the built files, the CDN styles, scripts and fonts from index.html are cached on
+// install, and every later request to those origins is answered from the cache while it refreshes in the background.
+// Built by the `serviceWorker` plugin in vite.config.ts, which fills in the build id, the built files and the CDN assets.
+
+const CACHE_NAME = `limit-solver-${self.__BUILD_ID__}`;
+const BUILD_FILES = self.__BUILD_FILES__;
+// Copied from public/ as they are, so the bundle does not list them.
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// The scripts and stylesheets index.html loads from CDNs.
+const CDN_ASSETS = self.__CDN_ASSETS__;
+
+const CACHED_ORIGINS = new Set([self.location.origin, ...CDN_ASSETS.map(url => new URL(url).origin), 'https://fonts.gstatic.com']);
+
+// Scripts are requested without CORS, so a CDN that refuses CORS can still be cached as an opaque response.
+const fetchForCache = async (url) => {
+    try {
+        return await fetch(url);
+    } catch {
+        return fetch(url, { mode: 'no-cors' });
+    }
+};
+
+// Stylesheets load their fonts only when text needs them, which may first happen offline, so the fonts are cached
+// with the stylesheet. Browsers with service workers all read WOFF2, so the older formats are skipped.
+const fontUrls = async (response) => {
+    if (response.type === 'opaque' || !(response.headers.get('Content-Type') ?? '').includes('text/css')) return [];
+    const css = await response.clone().text();
+    return [...css.matchAll(/url\(\s*['"]?([^'")]+\.woff2)['"]?\s*\)/g)].map(match => new URL(match[1], response.url).href);
+};
+
+const precache = async (cache, url) => {
+    const response = await fetchForCache(url);
+    if (!response.ok && response.type !== 'opaque') throw new Error(`${url}: HTTP ${response.status}`);
+    const fonts = await fontUrls(response);
+    await cache.put(url, response);
+    await Promise.allSettled(fonts.map(font => precache(cache, font)));
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE_NAME);
+        // The app shell must be cached for the worker to be useful; a CDN that is briefly down is only logged.
+        await Promise.all([...APP_SHELL, ...BUILD_FILES].map(url => precache(cache, url)));
+        const results = await Promise.allSettled(CDN_ASSETS.map(url => precache(cache, url)));
+        results.filter(result => result.status === 'rejected').forEach(result => console.warn('Not precached:', result.reason));
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => name.startsWith('limit-solver-') && name !== CACHE_NAME).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+const staleWhileRevalidate = async (event) => {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(event.request);
+    const refresh = fetch(event.request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+        return response;
+    });
+    if (!cached) return refresh;
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+};
+
+// Pages always try the network first, so a new deployment is picked up as soon as it is online.
+const networkFirstPage = async (request) => {
+    try {
+        return await fetch(request);
+    } catch (error) {
+        const cache = await caches.open(CACHE_NAME);
+        const cached = await cache.match(request, { ignoreSearch: true }) ?? await cache.match('/');
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    // Solve requests are POSTs to the model API and are never cached here.
+    if (request.method !== 'GET' || !CACHED_ORIGINS.has(new URL(request.url).origin)) return;
+    event.respondWith(request.mode === 'navigate' ? networkFirstPage(request) : staleWhileRevalidate(event));
+});
@@ -0,0 +1,152 @@
+import type { SimilarProblem, StructuredSolution } from "../../types";
+
+// Recorded solutions replayed by the mock solver provider. Keep them realistic: they are what
+// offline development and demos show, and they should all pass numeric verification.
+export const MOCK_SOLUTIONS: StructuredSolution[] = [
+    {
+        problemLatex: String.raw`\lim_{x \to 1} \frac{x^2-1}{x-1}`,
+        limitForm: String.raw`\frac{0}{0}`,
+        steps: [
+            {
+                explanationKm: String.raw`ជំនួស $x = 1$ ចូលក្នុងកន្សោម យើងបានទម្រង់មិនកំណត់ $\frac{0}{0}$។`,
+                explanationEn: String.raw`Substitute $x = 1$ into the expression: we get the indeterminate form $\frac{0}{0}$.`,
+                latex: String.raw`\frac{1^2-1}{1-1} = \frac{0}{0}`,
+            },
+            {
+                explanationKm: String.raw`ដាក់ភាគយកជាផលគុណកត្តា ដោយប្រើរូបមន្ត $a^2-b^2=(a-b)(a+b)$។`,
+                explanationEn: String.raw`Factor the numerator using the identity $a^2-b^2=(a-b)(a+b)$.`,
+                latex: String.raw`\frac{x^2-1}{x-1} = \frac{(x-1)(x+1)}{x-1}`,
+            },
+            {
+                explanationKm: String.raw`សម្រួល $x-1$ ព្រោះ $x \ne 1$។`,
+                explanationEn: String.raw`Cancel $x-1$, since $x \ne 1$.`,
+                latex: String.raw`\frac{(x-1)(x+1)}{x-1} = x+1`,
+            },
+            {
+                explanationKm: String.raw`ជំនួស $x = 1$ ក្នុង $x+1$។`,
+                explanationEn: String.raw`Substitute $x = 1$ into $x+1$.`,
+                latex: String.raw`\lim_{x \to 1} (x+1) = 1+1 = 2`,
+            },
+        ],
+        finalAnswerLatex: '2',
+    },
+    {
+        problemLatex: String.raw`\lim_{x \to 0} \frac{\sin 3x}{x}`,
+        limitForm: String.raw`\frac{0}{0}`,
+        steps: [
+            {
+                explanationKm: String.raw`ជំនួស $x = 0$ យើងបានទម្រង់មិនកំណត់ $\frac{0}{0}$។`,
+                explanationEn: String.raw`Substituting $x = 0$ gives the indeterminate form $\frac{0}{0}$.`,
+                latex: String.raw`\frac{\sin 0}{0} = \frac{0}{0}`,
+            },
+            {
+                explanationKm: String.raw`គុណភាគយក និងភាគបែងនឹង $3$ ដើម្បីប្រើលីមីតគ្រឹះ $\lim_{u \to 0} \frac{\sin u}{u} = 1$។`,
+                explanationEn: String.raw`Multiply the numerator and the denominator by $3$ to use the standard limit $\lim_{u \to 0} \frac{\sin u}{u} = 1$.`,
+                latex: String.raw`\frac{\sin 3x}{x} = 3 \cdot \frac{\sin 3x}{3x}`,
+            },
+            {
+                explanationKm: String.raw`តាង $u = 3x$ នោះពេល $x \to 0$ យើងបាន $u \to 0$។`,
+                explanationEn: String.raw`Let $u = 3x$; as $x \to 0$, we have $u \to 0$.`,
+                latex: String.raw`\lim_{x \to 0} 3 \cdot \frac{\sin 3x}{3x} = 3 \cdot 1 = 3`,
+            },
+        ],
+        finalAnswerLatex: '3',
+    },
+    {
+        problemLatex: String.raw`\lim_{x \to +\infty} \frac{2x^2+3x}{x^2-1}`,
+        limitForm: String.raw`\frac{\infty}{\infty}`,
+        steps: [
+            {
+                explanationKm: String.raw`ពេល $x \to +\infty$ ភាគយក និងភាគបែងសុទ្ធតែខិតទៅ $+\infty$ ដូច្នេះយើងបានទម្រង់មិនកំណត់ $\frac{\infty}{\infty}$។`,
+                explanationEn: String.raw`As $x \to +\infty$, the numerator and the denominator both tend to $+\infty$, so we have the indeterminate form $\frac{\infty}{\infty}$.`,
+                latex: '',
+            },
+            {
+                explanationKm: String.raw`ដាក់ $x^2$ ជាកត្តារួមនៅភាគយក និងភាគបែង។`,
+                explanationEn: String.raw`Factor out $x^2$ in the numerator and the denominator.`,
+                latex: String.raw`\frac{2x^2+3x}{x^2-1} = \frac{x^2\left(2+\frac{3}{x}\right)}{x^2\left(1-\frac{1}{x^2}\right)} = \frac{2+\frac{3}{x}}{1-\frac{1}{x^2}}`,
+            },
+            {
+                explanationKm: String.raw`ដោយ $\frac{3}{x} \to 0$ និង $\frac{1}{x^2} \to 0$ ពេល $x \to +\infty$។`,
+                explanationEn: String.raw`Since $\frac{3}{x} \to 0$ and $\frac{1}{x^2} \to 0$ as $x \to +\infty$.`,
+                latex: String.raw`\lim_{x \to +\infty} \frac{2+\frac{3}{x}}{1-\frac{1}{x^2}} = \frac{2+0}{1-0} = 2`,
+            },
+        ],
+        finalAnswerLatex: '2',
+    },
+    {
+        problemLatex: String.raw`\lim_{x \to 0} \frac{\sqrt{x+4}-2}{x}`,
+        limitForm: String.raw`\frac{0}{0}`,
+        steps: [
+            {
+                explanationKm: String.raw`ជំនួស $x = 0$ យើងបានទម្រង់មិនកំណត់ $\frac{0}{0}$។`,
+                explanationEn: String.raw`Substituting $x = 0$ gives the indeterminate form $\frac{0}{0}$.`,
+                latex: String.raw`\frac{\sqrt{0+4}-2}{0} = \frac{0}{0}`,
+            },
+            {
+                explanationKm: String.raw`គុណភាគយក និងភាគបែងនឹងកន្សោមឆ្លាស់ $\sqrt{x+4}+2$។`,
+                explanationEn: String.raw`Multiply the numerator and the denominator by the conjugate $\sqrt{x+4}+2$.`,
+                latex: String.raw`\frac{\sqrt{x+4}-2}{x} \cdot \frac{\sqrt{x+4}+2}{\sqrt{x+4}+2} = \frac{(x+4)-4}{x\left(\sqrt{x+4}+2\right)} = \frac{1}{\sqrt{x+4}+2}`,
+            },
+            {
+                explanationKm: String.raw`ជំនួស $x = 0$ ក្នុងកន្សោមដែលបានសម្រួល។`,
+                explanationEn: String.raw`Substitute $x = 0$ into the simplified expression.`,
+                latex: String.raw`\lim_{x \to 0} \frac{1}{\sqrt{x+4}+2} = \frac{1}{2+2} = \frac{1}{4}`,
+            },
+        ],
+        finalAnswerLatex: String.raw`\frac{1}{4}`,
+    },
+];
+
+// Practice problems the mock returns for each fixture above (same index), easiest first. Like the
+// fixtures, every answer should pass numeric verification.
+export const MOCK_SIMILAR_PROBLEMS: SimilarProblem[][] = [
+    [
+        { problemLatex: String.raw`\lim_{x \to 2} \frac{x^2-4}{x-2}`, answerLatex: '4', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 3} \frac{x^2-9}{x-3}`, answerLatex: '6', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to -1} \frac{x^2-1}{x+1}`, answerLatex: '-2', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 2} \frac{x^2-5x+6}{x-2}`, answerLatex: '-1', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 1} \frac{x^2+2x-3}{x^2-1}`, answerLatex: '2', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 3} \frac{x^2-2x-3}{x^2-9}`, answerLatex: String.raw`\frac{2}{3}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to -2} \frac{x^2+5x+6}{x^2-4}`, answerLatex: String.raw`-\frac{1}{4}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 1} \frac{x^3-1}{x-1}`, answerLatex: '3', difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to 2} \frac{x^3-8}{x^2-4}`, answerLatex: '3', difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to 1} \frac{x^4-1}{x^3-1}`, answerLatex: String.raw`\frac{4}{3}`, difficulty: 'hard' },
+    ],
+    [
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sin 5x}{x}`, answerLatex: '5', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sin 2x}{x}`, answerLatex: '2', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sin x}{3x}`, answerLatex: String.raw`\frac{1}{3}`, difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sin 4x}{2x}`, answerLatex: '2', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\tan 3x}{x}`, answerLatex: '3', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sin 2x}{\sin 5x}`, answerLatex: String.raw`\frac{2}{5}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{x}{\sin 7x}`, answerLatex: String.raw`\frac{1}{7}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{1-\cos x}{x^2}`, answerLatex: String.raw`\frac{1}{2}`, difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{1-\cos 2x}{x^2}`, answerLatex: '2', difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\tan 2x}{\sin 3x}`, answerLatex: String.raw`\frac{2}{3}`, difficulty: 'hard' },
+    ],
+    [
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{3x^2+1}{x^2+2}`, answerLatex: '3', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{4x+1}{2x-3}`, answerLatex: '2', difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{x^2-5}{2x^2+x}`, answerLatex: String.raw`\frac{1}{2}`, difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{5x^3-2x}{x^3+4x^2}`, answerLatex: '5', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{2x+7}{x^2+1}`, answerLatex: '0', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to -\infty} \frac{3x^2-x}{6x^2+5}`, answerLatex: String.raw`\frac{1}{2}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{x^2+3x}{1-2x^2}`, answerLatex: String.raw`-\frac{1}{2}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{x^3+1}{x^2-x}`, answerLatex: String.raw`+\infty`, difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to +\infty} \frac{\sqrt{4x^2+1}}{x+3}`, answerLatex: '2', difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to -\infty} \frac{\sqrt{x^2+1}}{2x-1}`, answerLatex: String.raw`-\frac{1}{2}`, difficulty: 'hard' },
+    ],
+    [
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sqrt{x+9}-3}{x}`, answerLatex: String.raw`\frac{1}{6}`, difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sqrt{x+1}-1}{x}`, answerLatex: String.raw`\frac{1}{2}`, difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 4} \frac{\sqrt{x}-2}{x-4}`, answerLatex: String.raw`\frac{1}{4}`, difficulty: 'easy' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sqrt{x+16}-4}{2x}`, answerLatex: String.raw`\frac{1}{16}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 9} \frac{x-9}{\sqrt{x}-3}`, answerLatex: '6', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 1} \frac{\sqrt{x+3}-2}{x-1}`, answerLatex: String.raw`\frac{1}{4}`, difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{x}{\sqrt{1+x}-\sqrt{1-x}}`, answerLatex: '1', difficulty: 'medium' },
+        { problemLatex: String.raw`\lim_{x \to 2} \frac{\sqrt{x+2}-2}{x^2-4}`, answerLatex: String.raw`\frac{1}{16}`, difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to 3} \frac{\sqrt{x+1}-2}{\sqrt{x+6}-3}`, answerLatex: String.raw`\frac{3}{2}`, difficulty: 'hard' },
+        { problemLatex: String.raw`\lim_{x \to 0} \frac{\sqrt{4+x}-\sqrt{4-x}}{x}`, answerLatex: String.raw`\frac{1}{2}`, difficulty: 'hard' },
+    ],
+];
@@ -1,55 +1,231 @@
+import { ApiError, FinishReason, GoogleGenAI, Type, type GenerateContentResponse } from "@google/genai";
+import type { DetectedProblem, FollowUpContext, SimilarProblem, SolutionLanguage, StructuredSolution } from "../types";
+import { TOPICS } from "../utils/topics";
+import type { SolverProvider } from "./solverProvider";
+import { buildCorrectedImagePrompt, buildDetectionPrompt, buildFollowUpInstructions, buildFormattingFixPrompt, buildImagePrompt, buildSimilarProblemsPrompt, buildTextPrompt, formatChatMessage, parseChatReply, parseDetectedProblems, parsePartialSolution, parseSimilarProblems, parseSolution, STEP_EXPLANATION_FIELDS } from "./solutionPrompt";
+import { SolverError, toSolverError, type ChatOptions, type SolveOptions } from "./solveRequest";
 
-import { GoogleGenAI } from "@google/genai";
+// The step fields follow the requested language, so the schema is built per solve.
+const solutionSchema = (language: SolutionLanguage) => {
+    const stepFields = [...STEP_EXPLANATION_FIELDS[language], 'latex'];
+    return {
+        type: Type.OBJECT,
+        properties: {
+            topic: { type: Type.STRING, enum: TOPICS },
+            problemLatex: { type: Type.STRING },
+            limitForm: { type: Type.STRING },
+            steps: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: Object.fromEntries(stepFields.map(field => [field, { type: Type.STRING }])),
+                    required: stepFields,
+                    propertyOrdering: stepFields,
+                },
+            },
+            finalAnswerLatex: { type: Type.STRING },
+        },
+        required: ['topic', 'problemLatex', 'limitForm', 'steps', 'finalAnswerLatex'],
+        propertyOrdering: ['topic', 'problemLatex', 'limitForm', 'steps', 'finalAnswerLatex'],
+    };
+};
 
-// Ensure the API key is available from environment variables.
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    // In a real app, this might be handled more gracefully, but for this context, throwing an error is clear.
-    throw new Error("API_KEY environment variable is not set. Please provide a valid Google AI API key.");
-}
+const DETECTION_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        problems: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    latex: { type: Type.STRING },
+                    box2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                },
+                required: ['latex', 'box2d'],
+                propertyOrdering: ['latex', 'box2d'],
+            },
+        },
+    },
+    required: ['problems'],
+};
+
+const SIMILAR_PROBLEMS_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        problems: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    problemLatex: { type: Type.STRING },
+                    answerLatex: { type: Type.STRING },
+                    difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+                },
+                required: ['problemLatex', 'answerLatex', 'difficulty'],
+                propertyOrdering: ['problemLatex', 'answerLatex', 'difficulty'],
+            },
+        },
+    },
+    required: ['problems'],
+};
+
+const BLOCKED_FINISH_REASONS: ReadonlySet<FinishReason | undefined> = new Set([
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+]);
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const throwIfBlocked = (response: GenerateContentResponse): void => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || BLOCKED_FINISH_REASONS.has(finishReason)) {
+        throw new SolverError('safety', `Blocked by Gemini safety filters (${blockReason ?? finishReason}).`);
+    }
+};
+
+const classifyGeminiError = (error: unknown): SolverError => {
+    if (error instanceof ApiError) {
+        // The API answers 400 INVALID_ARGUMENT when it cannot decode or process the uploaded image.
+        if (error.status === 400 && /image/i.test(error.message)) return new SolverError('unreadable', error.message);
+        return toSolverError(error, error.status);
+    }
+    return toSolverError(error);
+};
+
+type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+interface GeminiProviderConfig {
+    apiKey?: string;
+    model: string;
+}
 
 /**
- * Sends an image of a math limit problem to the Gemini API and returns a step-by-step solution.
- * @param base64Image The base64-encoded image string.
- * @param mimeType The MIME type of the image (e.g., 'image/jpeg').
- * @returns A promise that resolves to the solution text from the API.
+ * Creates a solver backed by the Gemini API, streaming a JSON response schema.
+ * @param config The API key (may be missing in offline setups) and model id.
+ * @returns The provider. Solves reject with a `SolverError` on failure.
  */
-export const solveLimitFromImage = async (base64Image: string, mimeType: string): Promise<string> => {
-    try {
-        const imagePart = {
-            inlineData: {
-                mimeType: mimeType,
-                data: base64Image,
-            },
-        };
-
-        const textPart = {
-            text: `វិភាគលំហាត់លីមីតគណិតវិទ្យានៅក្នុងរូបភាពនេះ។ នៅលើបន្ទាត់ទីមួយ សូមសរសេរតែលំហាត់ដើមជាទម្រង់ LaTeX នៅក្នុង Markdown heading level 2 (ឧទាហរណ៍៖ ## $\\lim_{x \\to 1} \\frac{x^2-1}{x-1}$)។ បន្ទាប់មក ចាប់ផ្តើមបន្ទាត់ថ្មីមួយទៀត រួចផ្តល់ដំណោះស្រាយលម្អិតមួយជំហានម្តងៗ ដោយពន្យល់ពីជំហាននីមួយៗឱ្យបានច្បាស់លាស់។ បញ្ចប់ដោយចម្លើយចុងក្រោយ។ សូមសរសេរចម្លើយទាំងមូលជាភាសាខ្មែរ។ ប្រើប្រាស់ Markdown សម្រាប់ធ្វើការរចនា និងប្រើវាក្យសម្ព័ន្ធ LaTeX សម្រាប់កន្សោមគណិតវិទ្យា។
-
-**CRITICAL RENDERING RULES (MUST FOLLOW):**
-1.  **NEVER use raw Unicode characters for math symbols.** For example, NEVER type '≠', '→', or '∞' directly in the text.
-2.  **ALWAYS use LaTeX commands inside dollar signs for all math symbols.** Use \`$\\ne$\` for the 'not equal' symbol. Use \`$\\to$\` for arrows. Use \`$\\infty$\` for infinity.
-3.  **EVERYTHING mathematical must be inside dollar signs.** This includes single variables (like \`$x$\`), numbers (like \`$1$\`), and full expressions.
-4.  Correct example: \`...ដូច្នេះ $x \\ne 1$...\`
-5.  Incorrect example: \`...ដូច្នេះ x ≠ 1...\`
-Following these rules is mandatory for correct display.`,
-        };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, textPart] },
-        });
-        
-        return response.text;
-
-    } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        // Provide a user-friendly error message in Khmer
-        if (error instanceof Error) {
-            return `មានបញ្ហាក្នុងការទាក់ទងទៅកាន់សេវាកម្ម AI: ${error.message}`;
+export const createGeminiProvider = ({ apiKey, model }: GeminiProviderConfig): SolverProvider => {
+    // Created lazily so a missing key only fails the solve, not the app start-up.
+    let ai: GoogleGenAI | null = null;
+
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new SolverError('unknown', "API_KEY environment variable is not set. Please provide a valid Google AI API key.");
         }
-        return "មានបញ្ហាដែលមិនអាចកំណត់បានកើតឡើងនៅពេលព្យាយាមដោះស្រាយលំហាត់។";
-    }
-};
\ No newline at end of file
+        ai ??= new GoogleGenAI({ apiKey });
+        return ai;
+    };
+
+    const generateSolution = async (parts: ContentPart[], { signal, onProgress, language = 'km' }: SolveOptions = {}): Promise<StructuredSolution> => {
+        const client = getClient();
+
+        let text = '';
+        try {
+            const stream = await client.models.generateContentStream({
+                model,
+                contents: { parts },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: solutionSchema(language),
+                    abortSignal: signal,
+                },
+            });
+
+            for await (const chunk of stream) {
+                throwIfBlocked(chunk);
+                if (!chunk.text) continue;
+                text += chunk.text;
+                const partial = onProgress && parsePartialSolution(text);
+                if (partial) onProgress(partial);
+            }
+        } catch (error) {
+            throw classifyGeminiError(error);
+        }
+
+        return parseSolution(text);
+    };
+
+    // Problem lists are only useful once complete, so they are requested without streaming.
+    const generateJson = async (parts: ContentPart[], responseSchema: object, { signal }: Pick<SolveOptions, 'signal'> = {}): Promise<string | undefined> => {
+        const client = getClient();
+        try {
+            const response = await client.models.generateContent({
+                model,
+                contents: { parts },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema,
+                    abortSignal: signal,
+                },
+            });
+            throwIfBlocked(response);
+            return response.text;
+        } catch (error) {
+            throw classifyGeminiError(error);
+        }
+    };
+
+    const detectProblems = async (parts: ContentPart[], options?: Pick<SolveOptions, 'signal'>): Promise<DetectedProblem[]> =>
+        parseDetectedProblems(await generateJson(parts, DETECTION_SCHEMA, options));
+
+    const generateSimilarProblems = async (solution: StructuredSolution, count: number, options?: Pick<SolveOptions, 'signal'>): Promise<SimilarProblem[]> =>
+        parseSimilarProblems(await generateJson([{ text: buildSimilarProblemsPrompt(solution, count) }], SIMILAR_PROBLEMS_SCHEMA, options)).slice(0, count);
+
+    const askFollowUp = async ({ image, solution, messages }: FollowUpContext, { signal, onProgress, language = 'km' }: ChatOptions = {}): Promise<string> => {
+        const client = getClient();
+        // The photo goes with the first question, so every later turn can still refer to it.
+        const contents = messages.map((message, index) => ({
+            role: message.role === 'user' ? 'user' : 'model',
+            parts: [
+                ...(index === 0 && image ? [{ inlineData: { mimeType: image.mimeType, data: image.base64 } }] : []),
+                { text: formatChatMessage(message, solution) },
+            ],
+        }));
+
+        let text = '';
+        try {
+            const stream = await client.models.generateContentStream({
+                model,
+                contents,
+                config: {
+                    systemInstruction: buildFollowUpInstructions(solution, language),
+                    abortSignal: signal,
+                },
+            });
+
+            for await (const chunk of stream) {
+                throwIfBlocked(chunk);
+                if (!chunk.text) continue;
+                text += chunk.text;
+                onProgress?.(text);
+            }
+        } catch (error) {
+            throw classifyGeminiError(error);
+        }
+
+        return parseChatReply(text);
+    };
+
+    return {
+        id: 'gemini',
+        model,
+        solveLimitFromImage: (base64Image, mimeType, options) => generateSolution([
+            { inlineData: { mimeType, data: base64Image } },
+            { text: buildImagePrompt(options?.language, options?.method, options?.topic) },
+        ], options),
+        solveLimitFromText: (problemText, options) => generateSolution([{ text: buildTextPrompt(problemText, options?.language, options?.method, options?.topic) }], options),
+        solveCorrectedFromImage: (problemLatex, base64Image, mimeType, options) => generateSolution([
+            { inlineData: { mimeType, data: base64Image } },
+            { text: buildCorrectedImagePrompt(problemLatex, options?.language, options?.method, options?.topic) },
+        ], options),
+        detectProblems: (base64Image, mimeType, options) => detectProblems([
+            { inlineData: { mimeType, data: base64Image } },
+            { text: buildDetectionPrompt(options?.language, options?.topic) },
+        ], options),
+        askFollowUp,
+        generateSimilarProblems,
+        fixFormatting: (solution, errors, options) => generateSolution([{ text: buildFormattingFixPrompt(solution, errors) }], options),
+    };
+};
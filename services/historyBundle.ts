@@ -0,0 +1,284 @@
+import type { ChatMessage, HistoryEntry, MethodChoice, PracticeRecord, ProblemCorrection, StructuredSolution, Topic } from "../types";
+import type { LimitVerification } from "../utils/limitVerification";
+import { base64ToBlob, blobToBase64 } from "../utils/imageData";
+import { TOPICS } from "../utils/topics";
+import { createThumbnail, getAllHistoryEntries, saveHistoryEntries } from "./historyStore";
+import { SOLVING_METHODS } from "./methodPrompts";
+
+// A portable JSON file of history entries, so students can move devices and teachers can collect work.
+
+const BUNDLE_FORMAT = 'khmer-limit-solver-history';
+const BUNDLE_VERSION = 1;
+
+/** An entry as written to a bundle: the image inlined as base64, the thumbnail rebuilt on import. */
+interface BundledEntry extends Omit<HistoryEntry, 'image' | 'thumbnail'> {
+    image?: { base64: string; mimeType: string };
+}
+
+interface HistoryBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    entries: BundledEntry[];
+}
+
+export type HistoryBundleErrorKind = 'invalid' | 'unsupportedVersion';
+
+/** Raised when a file cannot be imported at all (as opposed to individual bad entries, which are skipped). */
+export class HistoryBundleError extends Error {
+    constructor(public readonly kind: HistoryBundleErrorKind, message: string) {
+        super(message);
+        this.name = 'HistoryBundleError';
+    }
+}
+
+export interface HistoryImportSummary {
+    /** Entries that were new and have been added. */
+    added: number;
+    /** Entries that duplicated an existing one; their favorite flag and tags were merged into it. */
+    merged: number;
+    /** Entries that failed validation and were skipped. */
+    invalid: number;
+}
+
+const toBundledEntry = async ({ image, thumbnail: _thumbnail, ...entry }: HistoryEntry): Promise<BundledEntry> => ({
+    ...entry,
+    ...(image ? { image: { base64: await blobToBase64(image), mimeType: image.type } } : {}),
+});
+
+/**
+ * Builds a bundle file from the given entries, or from the whole history.
+ * @param ids The entries to export; all entries when omitted.
+ * @returns The bundle as a JSON Blob and the number of entries it holds.
+ */
+export const exportHistoryBundle = async (ids?: number[]): Promise<{ blob: Blob; count: number }> => {
+    const wanted = ids ? new Set(ids) : null;
+    const entries = (await getAllHistoryEntries()).filter(entry => !wanted || wanted.has(entry.id));
+    const bundle: HistoryBundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        entries: await Promise.all(entries.map(toBundledEntry)),
+    };
+    return { blob: new Blob([JSON.stringify(bundle)], { type: 'application/json' }), count: entries.length };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const toSolution = (value: unknown): StructuredSolution | undefined => {
+    if (!isRecord(value) || !isString(value.problemLatex) || !isString(value.finalAnswerLatex) || !Array.isArray(value.steps)) {
+        return undefined;
+    }
+    if (!value.steps.every(step => isRecord(step) && isString(step.explanationKm) && isString(step.latex))) {
+        return undefined;
+    }
+    return {
+        ...(TOPICS.includes(value.topic as Topic) ? { topic: value.topic as Topic } : {}),
+        problemLatex: value.problemLatex,
+        limitForm: isString(value.limitForm) ? value.limitForm : '',
+        steps: value.steps.map(step => ({
+            explanationKm: step.explanationKm,
+            ...(isString(step.explanationEn) ? { explanationEn: step.explanationEn } : {}),
+            latex: step.latex,
+        })),
+        finalAnswerLatex: value.finalAnswerLatex,
+    };
+};
+
+const toVerification = (value: unknown): LimitVerification | undefined => {
+    if (!isRecord(value) || !['verified', 'disagrees', 'unchecked'].includes(value.status as string)) return undefined;
+    return {
+        status: value.status as LimitVerification['status'],
+        ...(isString(value.numericEstimate) ? { numericEstimate: value.numericEstimate } : {}),
+        ...(isString(value.modelAnswer) ? { modelAnswer: value.modelAnswer } : {}),
+    };
+};
+
+const toPractice = (value: unknown): PracticeRecord | undefined => {
+    if (!isRecord(value) || typeof value.hintsUsed !== 'number' || !Number.isInteger(value.hintsUsed) || value.hintsUsed < 0) {
+        return undefined;
+    }
+    return {
+        hintsUsed: value.hintsUsed,
+        ...(isString(value.answer) ? { answer: value.answer } : {}),
+        ...(['correct', 'incorrect', 'unknown'].includes(value.result as string) ? { result: value.result as PracticeRecord['result'] } : {}),
+        solutionShown: value.solutionShown === true,
+    };
+};
+
+// Malformed turns are dropped rather than failing the whole entry.
+const toChat = (value: unknown): ChatMessage[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const messages = value.flatMap((message): ChatMessage[] => {
+        if (!isRecord(message) || (message.role !== 'user' && message.role !== 'assistant') || !isString(message.text)) return [];
+        return [{
+            role: message.role,
+            text: message.text,
+            ...(typeof message.quotedStep === 'number' && Number.isInteger(message.quotedStep) ? { quotedStep: message.quotedStep } : {}),
+        }];
+    });
+    return messages.length > 0 ? messages : undefined;
+};
+
+const toCorrection = (value: unknown): ProblemCorrection | undefined => {
+    if (!isRecord(value) || !isString(value.recognizedLatex) || !isString(value.correctedLatex)) return undefined;
+    return {
+        ...(typeof value.entryId === 'number' && Number.isFinite(value.entryId) ? { entryId: value.entryId } : {}),
+        recognizedLatex: value.recognizedLatex,
+        correctedLatex: value.correctedLatex,
+    };
+};
+
+const METHOD_CHOICES: readonly string[] = [...SOLVING_METHODS, 'twoMethods'];
+
+/**
+ * Checks one bundled entry and converts it back to a storable entry.
+ * @returns The entry, or `null` if it is malformed or has neither a problem nor a solution.
+ */
+const fromBundledEntry = async (value: unknown): Promise<HistoryEntry | null> => {
+    if (!isRecord(value) || typeof value.id !== 'number' || !Number.isFinite(value.id) || !isString(value.problemSnippet)) {
+        return null;
+    }
+
+    let image: Blob | undefined;
+    if (value.image !== undefined) {
+        if (!isRecord(value.image) || !isString(value.image.base64) || !isString(value.image.mimeType)
+            || !value.image.mimeType.startsWith('image/')) {
+            return null;
+        }
+        try {
+            image = base64ToBlob(value.image.base64, value.image.mimeType);
+        } catch {
+            return null;
+        }
+    }
+    const problemText = isString(value.problemText) ? value.problemText : undefined;
+    const solution = toSolution(value.solution);
+    const fullSolution = isString(value.fullSolution) ? value.fullSolution : undefined;
+    if ((!image && problemText === undefined) || (!solution && fullSolution === undefined)) {
+        return null;
+    }
+    const verification = toVerification(value.verification);
+    const practice = toPractice(value.practice);
+    const chat = toChat(value.chat);
+    const correction = toCorrection(value.correction);
+    const method = METHOD_CHOICES.includes(value.method as string) ? value.method as MethodChoice : undefined;
+
+    return {
+        id: value.id,
+        createdAt: typeof value.createdAt === 'number' && Number.isFinite(value.createdAt) ? value.createdAt : value.id,
+        ...(image ? { image, thumbnail: await createThumbnail(image).catch(() => undefined) } : {}),
+        ...(problemText !== undefined ? { problemText } : {}),
+        problemSnippet: value.problemSnippet,
+        ...(solution ? { solution } : {}),
+        ...(fullSolution !== undefined ? { fullSolution } : {}),
+        ...(verification ? { verification } : {}),
+        favorite: value.favorite === true,
+        tags: Array.isArray(value.tags) ? [...new Set(value.tags.filter(isString))] : [],
+        ...(practice ? { practice } : {}),
+        ...(chat ? { chat } : {}),
+        ...(correction ? { correction } : {}),
+        ...(method ? { method } : {}),
+    };
+};
+
+/**
+ * Identifies an entry by what was solved and the answer given, so the same problem exported
+ * from two devices is recognised even when the ids differ.
+ */
+const contentKey = async (entry: HistoryEntry): Promise<string> => {
+    const problem = entry.image ? new Uint8Array(await entry.image.arrayBuffer()) : new TextEncoder().encode(entry.problemText ?? '');
+    const answer = new TextEncoder().encode(JSON.stringify(entry.solution ?? entry.fullSolution ?? ''));
+    const bytes = new Uint8Array(problem.length + answer.length + 1);
+    bytes.set(problem, 0);
+    bytes[problem.length] = entry.image ? 1 : 0;
+    bytes.set(answer, problem.length + 1);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const parseBundle = (text: string): unknown[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new HistoryBundleError('invalid', `The file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!isRecord(data) || data.format !== BUNDLE_FORMAT || typeof data.version !== 'number' || !Array.isArray(data.entries)) {
+        throw new HistoryBundleError('invalid', 'The file is not a history bundle.');
+    }
+    if (data.version > BUNDLE_VERSION) {
+        throw new HistoryBundleError('unsupportedVersion', `Bundle version ${data.version} is newer than supported version ${BUNDLE_VERSION}.`);
+    }
+    return data.entries;
+};
+
+/**
+ * Merges a bundle file into the stored history.
+ * An entry with the same content as an existing one only contributes its favorite flag and tags;
+ * a new entry whose id is already taken is given a fresh id, and corrections linking to it follow.
+ * @param file The bundle file chosen by the user.
+ * @returns Counts of added, merged and skipped entries. Throws a `HistoryBundleError` if the file is not a bundle.
+ */
+export const importHistoryBundle = async (file: Blob): Promise<HistoryImportSummary> => {
+    const rawEntries = parseBundle(await file.text());
+    const summary: HistoryImportSummary = { added: 0, merged: 0, invalid: 0 };
+
+    const existing = await getAllHistoryEntries();
+    const byContent = new Map<string, HistoryEntry>();
+    for (const entry of existing) {
+        byContent.set(await contentKey(entry), entry);
+    }
+    const usedIds = new Set(existing.map(entry => entry.id));
+    let nextId = Math.max(Date.now(), ...usedIds) + 1;
+    const changed = new Map<number, HistoryEntry>();
+    // Where each bundled id ended up: its fresh id, or the existing entry it duplicates.
+    const storedIds = new Map<number, number>();
+    const added: HistoryEntry[] = [];
+
+    for (const raw of rawEntries) {
+        const entry = await fromBundledEntry(raw);
+        if (!entry) {
+            summary.invalid++;
+            continue;
+        }
+
+        const key = await contentKey(entry);
+        const duplicate = byContent.get(key);
+        storedIds.set(entry.id, duplicate?.id ?? entry.id);
+        if (duplicate) {
+            const tags = [...new Set([...duplicate.tags, ...entry.tags])];
+            const favorite = duplicate.favorite || entry.favorite;
+            if (favorite !== duplicate.favorite || tags.length !== duplicate.tags.length) {
+                const merged = { ...duplicate, favorite, tags };
+                byContent.set(key, merged);
+                changed.set(merged.id, merged);
+            }
+            summary.merged++;
+            continue;
+        }
+
+        if (usedIds.has(entry.id)) {
+            const freshId = nextId++;
+            storedIds.set(entry.id, freshId);
+            entry.id = freshId;
+        }
+        usedIds.add(entry.id);
+        byContent.set(key, entry);
+        changed.set(entry.id, entry);
+        added.push(entry);
+        summary.added++;
+    }
+
+    for (const entry of added) {
+        const correction = entry.correction;
+        const linkedId = correction?.entryId !== undefined ? storedIds.get(correction.entryId) : undefined;
+        if (correction && linkedId !== undefined) entry.correction = { ...correction, entryId: linkedId };
+    }
+
+    await saveHistoryEntries([...changed.values()]);
+    return summary;
+};
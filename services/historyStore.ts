@@ -0,0 +1,297 @@
+import type { HistoryEntry, ProblemCorrection, StructuredSolution, Topic } from "../types";
+import type { LimitVerification } from "../utils/limitVerification";
+import { base64ToBlob } from "../utils/imageData";
+import { topicOf } from "../utils/topics";
+
+// Solve history lives in IndexedDB so images can be stored as Blobs without the localStorage quota.
+
+const DB_NAME = 'limitSolver';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const LEGACY_STORAGE_KEY = 'limitSolverHistory';
+const THUMBNAIL_SIZE = 128;
+
+/** What is persisted: the entry plus a lowercase blob of its text for full-text search. */
+type HistoryRecord = HistoryEntry & { searchText: string };
+
+export interface HistoryQuery {
+    /** Whitespace-separated terms; an entry matches when it contains all of them. */
+    search?: string;
+    favoritesOnly?: boolean;
+    tag?: string;
+    /** Only entries solved as this topic; entries from before topics count as limits. */
+    topic?: Topic;
+    offset: number;
+    limit: number;
+}
+
+export interface HistoryPage {
+    entries: HistoryEntry[];
+    /** Number of entries matching the query, across all pages. */
+    total: number;
+    /** Every tag in use, for the tag filter. */
+    tags: string[];
+    /** Every correction of a misread problem, newest first, whatever the filters. */
+    corrections: ProblemCorrection[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+            store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+
+const solutionText = (solution: StructuredSolution): string =>
+    [
+        solution.problemLatex,
+        solution.limitForm,
+        ...solution.steps.flatMap(step => [step.explanationKm, step.explanationEn ?? '', step.latex]),
+        solution.finalAnswerLatex,
+    ].join(' ');
+
+const toRecord = (entry: HistoryEntry): HistoryRecord => ({
+    ...entry,
+    searchText: [
+        entry.problemSnippet,
+        entry.problemText ?? '',
+        entry.solution ? solutionText(entry.solution) : '',
+        entry.fullSolution ?? '',
+        entry.tags.join(' '),
+        ...(entry.chat ?? []).map(message => message.text),
+    ].join(' ').toLowerCase(),
+});
+
+const fromRecord = ({ searchText: _searchText, ...entry }: HistoryRecord): HistoryEntry => entry;
+
+const matchesQuery = (record: HistoryRecord, terms: string[], query: HistoryQuery): boolean => {
+    if (query.favoritesOnly && !record.favorite) return false;
+    if (query.tag && !record.tags.includes(query.tag)) return false;
+    if (query.topic && topicOf(record.solution ?? {}) !== query.topic) return false;
+    return terms.every(term => record.searchText.includes(term));
+};
+
+/**
+ * Scales an image down to a square-bounded JPEG thumbnail for the history list.
+ * @param image The full-size image.
+ * @returns The thumbnail Blob.
+ */
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), 'image/jpeg', 0.8);
+    });
+};
+
+/**
+ * Saves a new entry, or replaces the entry with the same id.
+ * @param entry The entry to save.
+ */
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    transaction.objectStore(HISTORY_STORE).put(toRecord(entry));
+    await transactionDone(transaction);
+};
+
+/**
+ * Saves several entries in one transaction, replacing entries with the same ids.
+ * @param entries The entries to save.
+ */
+export const saveHistoryEntries = async (entries: HistoryEntry[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    entries.forEach(entry => store.put(toRecord(entry)));
+    await transactionDone(transaction);
+};
+
+/**
+ * Updates some fields of an existing entry.
+ * @param id The entry id.
+ * @param changes The fields to change.
+ * @returns The updated entry, or `null` if no entry has that id.
+ */
+export const updateHistoryEntry = async (
+    id: number,
+    changes: Partial<Pick<HistoryEntry, 'favorite' | 'tags' | 'practice' | 'chat' | 'solution' | 'verification'>>,
+): Promise<HistoryEntry | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    const record = await requestToPromise<HistoryRecord | undefined>(store.get(id));
+    if (!record) return null;
+    const updated = toRecord({ ...fromRecord(record), ...changes });
+    store.put(updated);
+    await transactionDone(transaction);
+    return fromRecord(updated);
+};
+
+/**
+ * Deletes one entry.
+ * @param id The entry id.
+ */
+export const deleteHistoryEntry = async (id: number): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    transaction.objectStore(HISTORY_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+/** Deletes every entry. */
+export const clearHistory = async (): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    transaction.objectStore(HISTORY_STORE).clear();
+    await transactionDone(transaction);
+};
+
+/**
+ * Returns one page of entries, newest first, filtered by search terms, favorites and tag.
+ * @param query The filters and page window.
+ * @returns The page, the total number of matches, all tags in use and all problem corrections.
+ */
+export const queryHistory = async (query: HistoryQuery): Promise<HistoryPage> => {
+    const db = await openDatabase();
+    const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('createdAt');
+    const terms = (query.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+    const entries: HistoryEntry[] = [];
+    const tags = new Set<string>();
+    const corrections: ProblemCorrection[] = [];
+    let total = 0;
+
+    await new Promise<void>((resolve, reject) => {
+        const request = index.openCursor(null, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            const record = cursor.value as HistoryRecord;
+            record.tags.forEach(tag => tags.add(tag));
+            if (record.correction) corrections.push(record.correction);
+            if (matchesQuery(record, terms, query)) {
+                if (total >= query.offset && entries.length < query.limit) {
+                    entries.push(fromRecord(record));
+                }
+                total++;
+            }
+            cursor.continue();
+        };
+    });
+
+    return { entries, total, tags: [...tags].sort(), corrections };
+};
+
+/**
+ * Loads every entry, newest first.
+ * @returns All stored entries.
+ */
+export const getAllHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const db = await openDatabase();
+    const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('createdAt');
+    const records = await requestToPromise<HistoryRecord[]>(index.getAll());
+    return records.reverse().map(fromRecord);
+};
+
+/**
+ * Loads the given entries.
+ * @param ids The entry ids.
+ * @returns The entries in the order of `ids`, skipping ids that no longer exist.
+ */
+export const getHistoryEntries = async (ids: number[]): Promise<HistoryEntry[]> => {
+    const db = await openDatabase();
+    const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+    const records = await Promise.all(ids.map(id => requestToPromise<HistoryRecord | undefined>(store.get(id))));
+    return records.filter((record): record is HistoryRecord => !!record).map(fromRecord);
+};
+
+interface LegacyHistoryEntry {
+    id: number;
+    imageData?: { base64: string; mimeType: string };
+    problemText?: string;
+    problemSnippet: string;
+    solution?: StructuredSolution;
+    fullSolution?: string;
+    verification?: LimitVerification;
+}
+
+/**
+ * Moves history saved by earlier versions (one JSON array in localStorage) into IndexedDB, then removes it.
+ * Safe to call on every start-up; it does nothing once the legacy key is gone.
+ * @returns The number of migrated entries.
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return 0;
+
+    let legacyEntries: LegacyHistoryEntry[];
+    try {
+        legacyEntries = JSON.parse(raw);
+    } catch (error) {
+        // Unreadable data can never be migrated; drop it rather than retrying on every start.
+        console.error("Failed to parse legacy history from localStorage:", error);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return 0;
+    }
+
+    // Build everything first: an IndexedDB transaction auto-commits if we await other work inside it.
+    const entries: HistoryEntry[] = await Promise.all((Array.isArray(legacyEntries) ? legacyEntries : []).map(async legacy => {
+        const image = legacy.imageData ? base64ToBlob(legacy.imageData.base64, legacy.imageData.mimeType) : undefined;
+        return {
+            id: legacy.id,
+            createdAt: legacy.id,
+            ...(image ? { image, thumbnail: await createThumbnail(image).catch(() => undefined) } : {}),
+            ...(legacy.problemText !== undefined ? { problemText: legacy.problemText } : {}),
+            problemSnippet: legacy.problemSnippet,
+            ...(legacy.solution ? { solution: legacy.solution } : {}),
+            ...(legacy.fullSolution !== undefined ? { fullSolution: legacy.fullSolution } : {}),
+            ...(legacy.verification ? { verification: legacy.verification } : {}),
+            favorite: false,
+            tags: [],
+        };
+    }));
+
+    await saveHistoryEntries(entries);
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return entries.length;
+};
+
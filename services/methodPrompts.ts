@@ -0,0 +1,56 @@
+import type { Language, MethodChoice, SolutionLanguage, SolvingMethod } from "../types";
+
+// One prompt template per solving method, so a solve can be held to the technique the student is being taught.
+// The chosen template is appended to the solve instructions; `auto` adds nothing and leaves the choice to the model.
+
+/** Every method a student can choose, in the order they are offered. */
+export const SOLVING_METHODS: SolvingMethod[] = ['factoring', 'conjugate', 'lhopital', 'trigLimits', 'squeeze'];
+
+const METHOD_TEMPLATES: Record<SolvingMethod, Record<Language, string>> = {
+    factoring: {
+        km: 'ដោះស្រាយដោយការដាក់ជាផលគុណកត្តា៖ ដាក់ភាគយក និងភាគបែងជាផលគុណកត្តា (ឬចែកនឹងស្វ័យគុណខ្ពស់បំផុតនៃ $x$ សម្រាប់លីមីតត្រង់អនន្ត) សម្រួលកត្តារួម រួចជំនួសតម្លៃ។',
+        en: 'Solve by factoring: factor the numerator and denominator (or divide by the highest power of $x$ for limits at infinity), cancel the common factor, then substitute.',
+    },
+    conjugate: {
+        km: 'ដោះស្រាយដោយគុណនឹងកន្សោមឆ្លាស់ (conjugate)៖ គុណភាគយក និងភាគបែងនឹងកន្សោមឆ្លាស់នៃកន្សោមដែលមានឫស សម្រួល រួចជំនួសតម្លៃ។',
+        en: 'Solve by conjugate multiplication: multiply the numerator and denominator by the conjugate of the expression containing the root, simplify, then substitute.',
+    },
+    lhopital: {
+        km: 'ដោះស្រាយដោយប្រើវិធាន L\'Hôpital៖ ពិនិត្យថាទម្រង់ជា $\\frac{0}{0}$ ឬ $\\frac{\\infty}{\\infty}$ (បើជាទម្រង់ផ្សេង ត្រូវបំប្លែងជាទម្រង់មួយក្នុងចំណោមនេះសិន) ធ្វើដេរីវេភាគយក និងភាគបែងដាច់ដោយឡែកពីគ្នា ហើយធ្វើម្តងទៀតបើចាំបាច់។',
+        en: 'Solve with L\'Hôpital\'s rule: check that the form is $\\frac{0}{0}$ or $\\frac{\\infty}{\\infty}$ (rewrite any other form into one of these first), differentiate the numerator and denominator separately, and repeat if needed.',
+    },
+    trigLimits: {
+        km: 'ដោះស្រាយដោយប្រើលីមីតត្រីកោណមាត្រគោល $\\lim_{x \\to 0} \\frac{\\sin x}{x} = 1$ និង $\\lim_{x \\to 0} \\frac{1 - \\cos x}{x^2} = \\frac{1}{2}$ ដោយសរសេរកន្សោមឡើងវិញឱ្យលេចចេញលីមីតទាំងនេះ។',
+        en: 'Solve with the standard trigonometric limits $\\lim_{x \\to 0} \\frac{\\sin x}{x} = 1$ and $\\lim_{x \\to 0} \\frac{1 - \\cos x}{x^2} = \\frac{1}{2}$, rewriting the expression so that they appear.',
+    },
+    squeeze: {
+        km: 'ដោះស្រាយដោយប្រើទ្រឹស្តីបទសង្កត់ (squeeze theorem)៖ បង្ខាំងកន្សោមនៅចន្លោះអនុគមន៍សាមញ្ញពីរដែលមានលីមីតដូចគ្នា រួចសន្និដ្ឋាន។',
+        en: 'Solve with the squeeze theorem: bound the expression between two simpler functions that have the same limit, then conclude.',
+    },
+};
+
+const SINGLE_METHOD_RULE: Record<Language, string> = {
+    km: 'ប្រើតែវិធីនេះប៉ុណ្ណោះ ហើយបញ្ជាក់នៅជំហានទីមួយថាកំពុងប្រើវិធីនេះ។ បើវិធីនេះមិនអាចប្រើជាមួយលំហាត់នេះបានទេ សូមពន្យល់មូលហេតុនៅជំហានទីមួយ រួចប្រើវិធីដែលសមស្របបំផុត។',
+    en: 'Use only this method, and say in the first step that you are using it. If it cannot be applied to this problem, explain why in the first step and then use the most suitable method.',
+};
+
+const TWO_METHODS: Record<Language, string> = {
+    km: 'ដោះស្រាយលំហាត់ដោយវិធីពីរផ្សេងគ្នា មួយបន្ទាប់ពីមួយ។ ចាប់ផ្តើមវិធីនីមួយៗដោយជំហានមួយដែលការពន្យល់ប្រាប់ឈ្មោះវិធី (ឧទាហរណ៍៖ "វិធីទី 1៖ ការដាក់ជាផលគុណកត្តា") ហើយ `latex` ជាខ្សែអក្សរទទេ។ ពិនិត្យថាវិធីទាំងពីរទទួលបានចម្លើយដូចគ្នា។',
+    en: 'Solve the problem with two different methods, one after the other. Start each method with a step whose explanation names the method (e.g. "Method 1: factoring") and whose `latex` is an empty string. Check that both methods reach the same answer.',
+};
+
+/**
+ * Returns the prompt text that holds a solve to the chosen method.
+ * @param method The method the student chose.
+ * @param language The language(s) the explanations are written in; the instructions follow the solve prompt's language.
+ * @returns The instruction text, or an empty string for `auto`.
+ */
+export const methodInstructions = (method: MethodChoice = 'auto', language: SolutionLanguage = 'km'): string => {
+    if (method === 'auto') return '';
+    const promptLanguage: Language = language === 'km' ? 'km' : 'en';
+    const heading = promptLanguage === 'km' ? '**វិធីដោះស្រាយ៖**' : '**METHOD:**';
+    const text = method === 'twoMethods'
+        ? TWO_METHODS[promptLanguage]
+        : `${METHOD_TEMPLATES[method][promptLanguage]} ${SINGLE_METHOD_RULE[promptLanguage]}`;
+    return `\n\n${heading} ${text}`;
+};
@@ -0,0 +1,124 @@
+import type { DetectedProblem, FollowUpContext, SimilarProblem, SolutionLanguage, StructuredSolution } from "../types";
+import type { SolverProvider } from "./solverProvider";
+import { MOCK_SIMILAR_PROBLEMS, MOCK_SOLUTIONS } from "./fixtures/mockSolutions";
+import { SolverError, type ChatOptions, type SolveOptions } from "./solveRequest";
+import { parsePartialSolution, parseSolution, STEP_EXPLANATION_FIELDS } from "./solutionPrompt";
+
+// Enough delay for the loading and streaming states to be visible during development.
+const MOCK_LATENCY_MS = 1500;
+const MOCK_CHUNKS = 30;
+
+// FNV-1a, so the same input always replays the same fixture.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new SolverError('cancelled', 'Mock request aborted'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+const normalizeLatex = (latex: string): string => latex.replace(/[\s$]/g, '');
+
+// Keeps only the explanation fields a real provider would return for the requested language.
+const inLanguage = (solution: StructuredSolution, language: SolutionLanguage) => ({
+    ...solution,
+    steps: solution.steps.map(step => ({
+        ...Object.fromEntries(STEP_EXPLANATION_FIELDS[language].map(field => [field, step[field] ?? ''])),
+        latex: step.latex,
+    })),
+});
+
+const replay = async (key: string, { signal, onProgress, language = 'km' }: SolveOptions = {}, exactMatch?: StructuredSolution): Promise<StructuredSolution> => {
+    const fixture = exactMatch ?? MOCK_SOLUTIONS[hashString(key) % MOCK_SOLUTIONS.length];
+
+    // Stream the recorded JSON in chunks, like a real provider would.
+    const json = JSON.stringify(inLanguage(fixture, language));
+    const chunkSize = Math.ceil(json.length / MOCK_CHUNKS);
+    for (let end = chunkSize; end < json.length + chunkSize; end += chunkSize) {
+        await delay(MOCK_LATENCY_MS / MOCK_CHUNKS, signal);
+        const partial = onProgress && parsePartialSolution(json.slice(0, end));
+        if (partial) onProgress(partial);
+    }
+    return parseSolution(json);
+};
+
+// Pretends the worksheet holds every fixture, one per horizontal band, top to bottom.
+const detectFixtures = async ({ signal }: Pick<SolveOptions, 'signal'> = {}): Promise<DetectedProblem[]> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const bandHeight = 1 / MOCK_SOLUTIONS.length;
+    return MOCK_SOLUTIONS.map((solution, index) => ({
+        latex: solution.problemLatex,
+        box: { x: 0.05, y: index * bandHeight + 0.01, width: 0.9, height: bandHeight - 0.02 },
+    }));
+};
+
+// A canned reply that echoes the quoted step, so the chat panel can be exercised offline.
+const replyToFollowUp = async ({ solution, messages }: FollowUpContext, { signal, onProgress, language = 'km' }: ChatOptions = {}): Promise<string> => {
+    const quotedStep = messages[messages.length - 1]?.quotedStep;
+    const step = quotedStep !== undefined ? solution.steps[quotedStep] : undefined;
+    const reply = language === 'km'
+        ? (step
+            ? `នៅជំហានទី ${quotedStep! + 1} យើងសរសេរ $${step.latex || solution.problemLatex}$ ដើម្បីសម្រួលកន្សោម មុនពេលជំនួសតម្លៃដែល $x$ ខិតទៅ។ (ចម្លើយសាកល្បង)`
+            : `សំណួរល្អ! ជំហាននីមួយៗនាំយើងទៅរកចម្លើយ $${solution.finalAnswerLatex}$។ (ចម្លើយសាកល្បង)`)
+        : (step
+            ? `In step ${quotedStep! + 1} we write $${step.latex || solution.problemLatex}$ to simplify the expression before substituting the value $x$ approaches. (Mock reply)`
+            : `Good question! Each step leads us to the answer $${solution.finalAnswerLatex}$. (Mock reply)`);
+
+    const chunkSize = Math.ceil(reply.length / MOCK_CHUNKS);
+    for (let end = chunkSize; end < reply.length + chunkSize; end += chunkSize) {
+        await delay(MOCK_LATENCY_MS / MOCK_CHUNKS, signal);
+        onProgress?.(reply.slice(0, end));
+    }
+    return reply;
+};
+
+// Returns the recorded problems for the fixture the solution came from (matched like a typed problem).
+const similarFixtures = async (solution: StructuredSolution, count: number, { signal }: Pick<SolveOptions, 'signal'> = {}): Promise<SimilarProblem[]> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const normalized = normalizeLatex(solution.problemLatex);
+    const index = MOCK_SOLUTIONS.findIndex(fixture => normalizeLatex(fixture.problemLatex) === normalized);
+    return MOCK_SIMILAR_PROBLEMS[index === -1 ? hashString(solution.problemLatex) % MOCK_SIMILAR_PROBLEMS.length : index].slice(0, count);
+};
+
+/**
+ * Creates a deterministic offline solver that replays recorded fixtures instead of calling a model.
+ * Typed problems matching a fixture's `problemLatex` get that fixture; any other input is mapped to one by hash.
+ * @returns The provider.
+ */
+export const createMockProvider = (): SolverProvider => ({
+    id: 'mock',
+    model: 'mock-fixtures',
+    solveLimitFromImage: (base64Image, _mimeType, options) => replay(base64Image, options),
+    solveLimitFromText: (problemText, options) => {
+        const normalized = normalizeLatex(problemText);
+        return replay(problemText, options, MOCK_SOLUTIONS.find(solution => normalizeLatex(solution.problemLatex) === normalized));
+    },
+    // A corrected reading is matched like a typed problem; the photo adds nothing offline.
+    solveCorrectedFromImage: (problemLatex, _base64Image, _mimeType, options) => {
+        const normalized = normalizeLatex(problemLatex);
+        return replay(problemLatex, options, MOCK_SOLUTIONS.find(solution => normalizeLatex(solution.problemLatex) === normalized));
+    },
+    detectProblems: (_base64Image, _mimeType, options) => detectFixtures(options),
+    askFollowUp: replyToFollowUp,
+    generateSimilarProblems: similarFixtures,
+    // The fixtures render cleanly, so a "fixed" solution is just the matching fixture replayed (or the solution itself).
+    fixFormatting: (solution, _errors, options) => replay(
+        solution.problemLatex,
+        options,
+        MOCK_SOLUTIONS.find(fixture => normalizeLatex(fixture.problemLatex) === normalizeLatex(solution.problemLatex)) ?? solution,
+    ),
+});
@@ -0,0 +1,72 @@
+import type { SolveOptions } from "./solveRequest";
+
+// Photos solved while offline, kept in IndexedDB so they survive the app being closed before the connection returns.
+
+const DB_NAME = 'limitSolverQueue';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'solves';
+
+/** A photo waiting to be solved, with the solve settings chosen when it was queued. */
+export interface QueuedSolve {
+    id: number;
+    image: Blob;
+    options: Pick<SolveOptions, 'language' | 'method' | 'topic'>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Adds a photo to the end of the queue.
+ * @param image The preprocessed image, as it would have been sent.
+ * @param options The language, method and topic to solve it with.
+ */
+export const queueSolve = async (image: Blob, options: QueuedSolve['options']): Promise<void> => {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).add({ image, options }));
+};
+
+/**
+ * Loads the queue.
+ * @returns The queued photos, oldest first.
+ */
+export const getQueuedSolves = async (): Promise<QueuedSolve[]> => {
+    const db = await openDatabase();
+    return requestToPromise<QueuedSolve[]>(db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll());
+};
+
+/**
+ * Loads the photo at the front of the queue.
+ * @returns The oldest queued photo, or `undefined` when the queue is empty.
+ */
+export const getNextQueuedSolve = async (): Promise<QueuedSolve | undefined> => {
+    const db = await openDatabase();
+    const cursor = await requestToPromise(db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).openCursor());
+    return cursor?.value;
+};
+
+/**
+ * Removes a photo from the queue once it has been solved or has failed for good.
+ * @param id The queued photo's id.
+ */
+export const removeQueuedSolve = async (id: number): Promise<void> => {
+    const db = await openDatabase();
+    await requestToPromise(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).delete(id));
+};
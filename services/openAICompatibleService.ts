@@ -0,0 +1,158 @@
+import type { DetectedProblem, FollowUpContext, SimilarProblem, StructuredSolution } from "../types";
+import type { SolverProvider } from "./solverProvider";
+import { buildCorrectedImagePrompt, buildDetectionPrompt, buildFollowUpInstructions, buildFormattingFixPrompt, buildImagePrompt, buildSimilarProblemsPrompt, buildTextPrompt, formatChatMessage, parseChatReply, parseDetectedProblems, parsePartialSolution, parseSimilarProblems, parseSolution } from "./solutionPrompt";
+import { SolverError, toSolverError, type ChatOptions, type SolveOptions } from "./solveRequest";
+
+type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ChatContentPart[];
+}
+
+interface OpenAICompatibleProviderConfig {
+    /** Base URL including the version prefix, e.g. `http://localhost:11434/v1` for Ollama. */
+    baseUrl: string;
+    /** Optional bearer token; local servers usually don't need one. */
+    apiKey?: string;
+    /** A vision-capable model served by the endpoint, e.g. `llava` or `qwen2.5-vl`. */
+    model: string;
+}
+
+/**
+ * Creates a solver that streams from any OpenAI-compatible `/chat/completions` endpoint (Ollama, vLLM, LM Studio, ...).
+ * The JSON shape is described in the prompt and requested via JSON mode, since not every server supports schemas.
+ * @param config The endpoint, optional API key and model.
+ * @returns The provider. Solves reject with a `SolverError` on failure.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleProviderConfig): SolverProvider => {
+    // Solves and detection ask for JSON mode; follow-up replies are free Markdown.
+    const postChatCompletion = async (
+        messages: ChatCompletionMessage[],
+        { stream, json = true, signal }: { stream: boolean; json?: boolean; signal?: AbortSignal },
+    ): Promise<Response> => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages,
+                ...(json ? { response_format: { type: 'json_object' } } : {}),
+                stream,
+            }),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            throw toSolverError(new Error(`HTTP ${response.status}: ${await response.text()}`), response.status);
+        }
+        return response;
+    };
+
+    /** Streams a completion, calling `onText` with the text so far after each delta, and returns the whole text. */
+    const streamChatCompletion = async (messages: ChatCompletionMessage[], json: boolean, signal: AbortSignal | undefined, onText?: (text: string) => void): Promise<string> => {
+        let text = '';
+        try {
+            const response = await postChatCompletion(messages, { stream: true, json, signal });
+
+            // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                    const choice = JSON.parse(payload)?.choices?.[0];
+                    if (choice?.finish_reason === 'content_filter') {
+                        throw new SolverError('safety', 'Blocked by the server content filter.');
+                    }
+                    const delta = choice?.delta?.content;
+                    if (!delta) continue;
+                    text += delta;
+                    onText?.(text);
+                }
+            }
+        } catch (error) {
+            throw toSolverError(error);
+        }
+        return text;
+    };
+
+    const generateSolution = async (content: ChatContentPart[], { signal, onProgress }: SolveOptions = {}): Promise<StructuredSolution> => {
+        const text = await streamChatCompletion([{ role: 'user', content }], true, signal, onProgress && (textSoFar => {
+            const partial = parsePartialSolution(textSoFar);
+            if (partial) onProgress(partial);
+        }));
+        return parseSolution(text);
+    };
+
+    // Problem lists are only useful once complete, so they are requested without streaming.
+    const completeJson = async (content: ChatContentPart[], { signal }: Pick<SolveOptions, 'signal'> = {}): Promise<string | undefined> => {
+        try {
+            const response = await postChatCompletion([{ role: 'user', content }], { stream: false, signal });
+            const choice = (await response.json())?.choices?.[0];
+            if (choice?.finish_reason === 'content_filter') {
+                throw new SolverError('safety', 'Blocked by the server content filter.');
+            }
+            return choice?.message?.content;
+        } catch (error) {
+            throw toSolverError(error);
+        }
+    };
+
+    const detectProblems = async (content: ChatContentPart[], options?: Pick<SolveOptions, 'signal'>): Promise<DetectedProblem[]> =>
+        parseDetectedProblems(await completeJson(content, options));
+
+    const generateSimilarProblems = async (solution: StructuredSolution, count: number, options?: Pick<SolveOptions, 'signal'>): Promise<SimilarProblem[]> =>
+        parseSimilarProblems(await completeJson([{ type: 'text', text: buildSimilarProblemsPrompt(solution, count) }], options)).slice(0, count);
+
+    const askFollowUp = async ({ image, solution, messages }: FollowUpContext, { signal, onProgress, language = 'km' }: ChatOptions = {}): Promise<string> => {
+        // The photo goes with the first question, so every later turn can still refer to it.
+        const turns = messages.map((message, index): ChatCompletionMessage => {
+            const text = formatChatMessage(message, solution);
+            return {
+                role: message.role,
+                content: index === 0 && image
+                    ? [{ type: 'text', text }, { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } }]
+                    : text,
+            };
+        });
+        const text = await streamChatCompletion(
+            [{ role: 'system', content: buildFollowUpInstructions(solution, language) }, ...turns],
+            false,
+            signal,
+            onProgress,
+        );
+        return parseChatReply(text);
+    };
+
+    return {
+        id: 'openai',
+        model,
+        solveLimitFromImage: (base64Image, mimeType, options) => generateSolution([
+            { type: 'text', text: buildImagePrompt(options?.language, options?.method, options?.topic) },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+        ], options),
+        solveLimitFromText: (problemText, options) => generateSolution([{ type: 'text', text: buildTextPrompt(problemText, options?.language, options?.method, options?.topic) }], options),
+        solveCorrectedFromImage: (problemLatex, base64Image, mimeType, options) => generateSolution([
+            { type: 'text', text: buildCorrectedImagePrompt(problemLatex, options?.language, options?.method, options?.topic) },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+        ], options),
+        detectProblems: (base64Image, mimeType, options) => detectProblems([
+            { type: 'text', text: buildDetectionPrompt(options?.language, options?.topic) },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+        ], options),
+        askFollowUp,
+        generateSimilarProblems,
+        fixFormatting: (solution, errors, options) => generateSolution([{ type: 'text', text: buildFormattingFixPrompt(solution, errors) }], options),
+    };
+};
@@ -0,0 +1,342 @@
+import type { BoundingBox, ChatMessage, DetectedProblem, Language, MethodChoice, PartialSolution, ProblemDifficulty, SimilarProblem, SolutionLanguage, SolutionStep, StructuredSolution, TopicChoice } from "../types";
+import { sanitizeLatex, sanitizeMathMarkdown, sanitizeSolution, type MathError } from "../utils/mathFormatting";
+import { parsePartialJson } from "../utils/partialJson";
+import { TOPICS } from "../utils/topics";
+import { methodInstructions } from "./methodPrompts";
+import { SolverError } from "./solveRequest";
+import { topicFieldInstructions, topicProblem } from "./topicPrompts";
+
+// Provider-independent prompt text and response parsing, shared by every solver backend.
+
+/** Which explanation fields each step carries, per requested language; also the order the model writes them in. */
+export const STEP_EXPLANATION_FIELDS: Record<SolutionLanguage, ('explanationKm' | 'explanationEn')[]> = {
+    km: ['explanationKm'],
+    en: ['explanationEn'],
+    bilingual: ['explanationKm', 'explanationEn'],
+};
+
+/**
+ * Works out which language(s) a solution was requested in, from the explanation fields its steps carry.
+ * @param solution The solution.
+ * @returns The language setting that produces those fields.
+ */
+export const solutionLanguageOf = (solution: StructuredSolution): SolutionLanguage => {
+    const hasEnglish = solution.steps.some(step => step.explanationEn !== undefined);
+    const hasKhmer = solution.steps.some(step => step.explanationKm.trim());
+    return hasEnglish ? (hasKhmer ? 'bilingual' : 'en') : 'km';
+};
+
+// KaTeX only renders math inside dollar signs, so every explanation and chat reply must follow these rules.
+const renderingRules = (subject: string, correctExample: string, incorrectExample: string): string => `**CRITICAL RENDERING RULES FOR ${subject} (MUST FOLLOW):**
+1.  **NEVER use raw Unicode characters for math symbols.** For example, NEVER type '≠', '→', or '∞' directly in the text.
+2.  **ALWAYS use LaTeX commands inside dollar signs for all math symbols.** Use \`$\\ne$\` for the 'not equal' symbol. Use \`$\\to$\` for arrows. Use \`$\\infty$\` for infinity.
+3.  **EVERYTHING mathematical must be inside dollar signs.** This includes single variables (like \`$x$\`), numbers (like \`$1$\`), and full expressions.
+4.  Correct example: \`${correctExample}\`
+5.  Incorrect example: \`${incorrectExample}\`
+Following these rules is mandatory for correct display.`;
+
+// A correct and an incorrect example for the rendering rules, in the language the text is written in.
+const RULE_EXAMPLES: Record<Language, [string, string]> = {
+    km: ['...ដូច្នេះ $x \\ne 1$...', '...ដូច្នេះ x ≠ 1...'],
+    en: ['...so $x \\ne 1$...', '...so x ≠ 1...'],
+};
+
+// Shared by every solve entry point so image and typed problems get the same structure and rendering rules.
+const khmerSolutionInstructions = (topic: TopicChoice): string => `ផ្តល់ដំណោះស្រាយលម្អិតមួយជំហានម្តងៗ ដោយពន្យល់ពីជំហាននីមួយៗឱ្យបានច្បាស់លាស់ ជាភាសាខ្មែរ។ ឆ្លើយតបជា JSON តាម schema ដែលបានផ្តល់៖
+${topicFieldInstructions(topic, 'km')}
+- \`steps\`: ជំហាននីមួយៗមាន \`explanationKm\` (ការពន្យល់ជាភាសាខ្មែរ) និង \`latex\` (ការគណនាសំខាន់នៃជំហាននោះជា LaTeX ដោយគ្មានសញ្ញា $ ឬខ្សែអក្សរទទេ)។
+- \`finalAnswerLatex\`: តែតម្លៃចម្លើយចុងក្រោយជា LaTeX ដោយគ្មានសញ្ញា $ (ឧទាហរណ៍៖ \`2\`, \`\\frac{1}{2}\`, \`+\\infty\`)។
+បើមិនអាចអានលំហាត់បាន ឬវាមិនមែនជា${topicProblem(topic, 'km')} សូមឲ្យ \`problemLatex\` ជាខ្សែអក្សរទទេ។
+
+${renderingRules('`explanationKm`', ...RULE_EXAMPLES.km)}`;
+
+const ENGLISH_STEP_FIELDS: Record<'en' | 'bilingual', string> = {
+    en: `\`explanationEn\` (the explanation in English)`,
+    bilingual: `\`explanationKm\` (the explanation in Khmer), \`explanationEn\` (the same explanation in English)`,
+};
+
+const englishSolutionInstructions = (language: 'en' | 'bilingual', topic: TopicChoice): string => `Give a detailed step-by-step solution, explaining each step clearly ${language === 'en' ? 'in English' : 'in both Khmer and English'}. Respond with JSON following the provided schema:
+${topicFieldInstructions(topic, language)}
+- \`steps\`: each step has ${ENGLISH_STEP_FIELDS[language]} and \`latex\` (the step's main working as LaTeX without $ signs, or an empty string).
+- \`finalAnswerLatex\`: only the final answer as LaTeX without $ signs (e.g. \`2\`, \`\\frac{1}{2}\`, \`+\\infty\`).
+If the problem cannot be read or is not a ${topicProblem(topic, language)}, set \`problemLatex\` to an empty string.
+
+${renderingRules('THE EXPLANATIONS', ...RULE_EXAMPLES.en)}`;
+
+/**
+ * Returns the structure and rendering rules shared by every solve prompt, plus the chosen topic's and method's templates.
+ * @param language The language(s) the explanations should be written in.
+ * @param method The solving method the student chose.
+ * @param topic The topic the student chose.
+ * @returns The instruction text.
+ */
+export const solutionInstructions = (language: SolutionLanguage = 'km', method: MethodChoice = 'auto', topic: TopicChoice = 'limits'): string =>
+    (language === 'km' ? khmerSolutionInstructions(topic) : englishSolutionInstructions(language, topic)) + methodInstructions(method, language);
+
+/**
+ * Builds the instruction that accompanies a problem image.
+ * @param language The language(s) the explanations should be written in.
+ * @param method The solving method the student chose.
+ * @param topic The topic the student chose.
+ * @returns The prompt text to send alongside the image.
+ */
+export const buildImagePrompt = (language: SolutionLanguage = 'km', method: MethodChoice = 'auto', topic: TopicChoice = 'limits'): string =>
+    language === 'km'
+        ? `វិភាគ${topicProblem(topic, language)}នៅក្នុងរូបភាពនេះ។ ${solutionInstructions(language, method, topic)}`
+        : `Analyze the ${topicProblem(topic, language)} in this image. ${solutionInstructions(language, method, topic)}`;
+
+/**
+ * Builds the instruction for re-solving a photographed problem whose reading the user has corrected.
+ * @param problemLatex The problem as the user corrected it; it takes precedence over the photo.
+ * @param language The language(s) the explanations should be written in.
+ * @param method The solving method the student chose.
+ * @param topic The topic the problem was solved as.
+ * @returns The prompt text to send alongside the image.
+ */
+export const buildCorrectedImagePrompt = (problemLatex: string, language: SolutionLanguage = 'km', method: MethodChoice = 'auto', topic: TopicChoice = 'limits'): string =>
+    language === 'km'
+        ? `រូបភាពនេះមាន${topicProblem(topic, language)}មួយ។ អ្នកប្រើបានកែការអានលំហាត់នេះជា LaTeX ខាងក្រោម។ សូមដោះស្រាយលំហាត់តាម LaTeX នេះឱ្យបានត្រឹមត្រូវ ហើយប្រើរូបភាពសម្រាប់តែជាបរិបទប៉ុណ្ណោះ។ \`problemLatex\` ត្រូវតែជា LaTeX នេះ។ ${solutionInstructions(language, method, topic)}
+
+លំហាត់៖
+${problemLatex}`
+        : `This image shows a ${topicProblem(topic, language)}. The user has corrected how it was read to the LaTeX below. Solve exactly this problem, using the image only as context; \`problemLatex\` must be this LaTeX. ${solutionInstructions(language, method, topic)}
+
+Problem:
+${problemLatex}`;
+
+/**
+ * Builds the prompt for a typed problem.
+ * @param problemText The problem as typed by the user (LaTeX or plain text).
+ * @param language The language(s) the explanations should be written in.
+ * @param method The solving method the student chose.
+ * @param topic The topic the student chose.
+ * @returns The full prompt text.
+ */
+export const buildTextPrompt = (problemText: string, language: SolutionLanguage = 'km', method: MethodChoice = 'auto', topic: TopicChoice = 'limits'): string =>
+    language === 'km'
+        ? `វិភាគ${topicProblem(topic, language)}ខាងក្រោម (វាអាចសរសេរជា LaTeX ឬជាអក្សរធម្មតា)។ ${solutionInstructions(language, method, topic)}
+
+លំហាត់៖
+${problemText}`
+        : `Analyze the following ${topicProblem(topic, language)} (it may be written in LaTeX or as plain text). ${solutionInstructions(language, method, topic)}
+
+Problem:
+${problemText}`;
+
+const stepText = (step: SolutionStep): string =>
+    [step.explanationKm, step.explanationEn, step.latex.trim() && `$$${step.latex}$$`].filter(Boolean).join(' ');
+
+/**
+ * Builds the system instruction for a follow-up conversation about a solved problem.
+ * The whole solution is included, with numbered steps the student's questions can refer to.
+ * @param solution The solution the student is asking about.
+ * @param language The language to reply in.
+ * @returns The instruction text.
+ */
+export const buildFollowUpInstructions = (solution: StructuredSolution, language: Language = 'km'): string => `You are a patient mathematics tutor. A student has been shown the worked solution below to a ${topicProblem(solution.topic, 'en').replace(/^math /, '')} and is asking follow-up questions about it. Reply ${language === 'km' ? 'in Khmer' : 'in English'}, in Markdown. Explain the reasoning the student asks about, building on this solution rather than solving the problem again from scratch. When the student quotes a step, focus on that step. Keep replies short unless the student asks for more detail.
+
+Problem: $$${solution.problemLatex}$$
+
+Solution steps:
+${solution.steps.map((step, index) => `${index + 1}. ${stepText(step)}`).join('\n')}
+
+Final answer: $$${solution.finalAnswerLatex}$$
+
+${renderingRules('YOUR REPLIES', ...RULE_EXAMPLES[language])}`;
+
+/**
+ * Writes one turn of a follow-up conversation as the text sent to the model.
+ * @param message The turn.
+ * @param solution The solution being discussed, to look up a quoted step.
+ * @returns The text, with any quoted step in front of the question.
+ */
+export const formatChatMessage = (message: ChatMessage, solution: StructuredSolution): string => {
+    const step = message.quotedStep !== undefined ? solution.steps[message.quotedStep] : undefined;
+    if (message.role !== 'user' || !step) return message.text;
+    return `> Step ${message.quotedStep! + 1}: ${stepText(step)}\n\n${message.text}`;
+};
+
+/**
+ * Checks and cleans up the text of a follow-up reply.
+ * @param text The streamed reply.
+ * @returns The trimmed reply with its math cleaned up. Throws a `SolverError` if it is empty.
+ */
+export const parseChatReply = (text: string): string => {
+    const reply = text.trim();
+    if (!reply) throw new SolverError('unknown', 'The model returned an empty reply.');
+    return sanitizeMathMarkdown(reply);
+};
+
+/**
+ * Builds the prompt asking the model to repair the math of a solution that KaTeX could not render.
+ * @param solution The solution as shown.
+ * @param errors The formulas that failed, with KaTeX's messages.
+ * @returns The full prompt text.
+ */
+export const buildFormattingFixPrompt = (solution: StructuredSolution, errors: MathError[]): string => `The JSON below is a worked solution to a ${topicProblem(solution.topic, 'en').replace(/^math /, '')}, but some of its math cannot be rendered by KaTeX. Return the same solution as JSON with exactly the same fields, steps and wording, correcting only the LaTeX so that every formula renders. The fields \`problemLatex\`, \`limitForm\`, \`latex\` and \`finalAnswerLatex\` hold LaTeX without $ signs; the explanations put all math inside $ signs.
+
+KaTeX errors:
+${errors.map(error => `- \`${error.latex}\`: ${error.message}`).join('\n')}
+
+Solution:
+${JSON.stringify(solution, null, 2)}
+
+${renderingRules('THE EXPLANATIONS', ...RULE_EXAMPLES.en)}`;
+
+/**
+ * Builds the prompt for writing practice problems like a solved one.
+ * The worked steps are included so the model keeps to the technique the student has just seen.
+ * @param solution The solved problem.
+ * @param count How many problems to write.
+ * @returns The full prompt text.
+ */
+export const buildSimilarProblemsPrompt = (solution: StructuredSolution, count: number): string => `A student has just studied this worked limit problem:
+
+Problem: $$${solution.problemLatex}$$
+${solution.limitForm.trim() ? `Indeterminate form: $$${solution.limitForm}$$\n` : ''}Solution steps:
+${solution.steps.map((step, index) => `${index + 1}. ${stepText(step)}`).join('\n')}
+
+Final answer: $$${solution.finalAnswerLatex}$$
+
+Write ${count} new limit problems for the student to practise on. Each must have the same indeterminate form and be solved with the same technique (e.g. factoring a rational \`\\frac{0}{0}\` form, multiplying by the conjugate, a standard trigonometric limit, or dividing by the highest power for \`\\frac{\\infty}{\\infty}\`). Grade the difficulty from easy warm-ups that change only the numbers to harder problems that need an extra step, roughly a third at each level. Every problem must differ from the original and from each other, and its limit must have a definite answer. Respond with JSON following the provided schema:
+- \`problems\`: the problems, easiest first, each with \`problemLatex\` (the whole problem as LaTeX without $ signs, starting with \`\\lim\`), \`answerLatex\` (only the exact final answer as LaTeX without $ signs, e.g. \`2\`, \`\\frac{1}{2}\`, \`+\\infty\`) and \`difficulty\` (\`easy\`, \`medium\` or \`hard\`).`;
+
+const DIFFICULTIES: ProblemDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Returns `unknown`: callers narrow it to the fields they need.
+const parseJsonResponse = (json: string | undefined): unknown => {
+    try {
+        // Some OpenAI-compatible servers wrap JSON mode output in a Markdown code fence.
+        return JSON.parse((json ?? '').trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch (error) {
+        throw new SolverError('unknown', `The response is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Parses and normalizes a JSON solution returned by any provider, cleaning up its math.
+ * @param json The raw JSON text of the model response.
+ * @returns The structured solution. Throws a `SolverError` if the JSON is invalid or reports an unreadable problem.
+ */
+export const parseSolution = (json: string | undefined): StructuredSolution => {
+    const data = parseJsonResponse(json);
+    if (!isRecord(data) || !isString(data.problemLatex) || !isString(data.finalAnswerLatex) || !Array.isArray(data.steps)) {
+        throw new SolverError('unknown', 'The response does not match the solution schema.');
+    }
+    if (!data.problemLatex.trim()) {
+        throw new SolverError('unreadable', 'The model could not read a problem of the requested topic from the input.');
+    }
+    const topic = TOPICS.find(name => name === data.topic);
+    return sanitizeSolution({
+        ...(topic ? { topic } : {}),
+        problemLatex: data.problemLatex,
+        limitForm: isString(data.limitForm) ? data.limitForm : '',
+        steps: data.steps.map(step => {
+            const fields = isRecord(step) ? step : {};
+            return {
+                explanationKm: isString(fields.explanationKm) ? fields.explanationKm : '',
+                ...(isString(fields.explanationEn) ? { explanationEn: fields.explanationEn } : {}),
+                latex: isString(fields.latex) ? fields.latex : '',
+            };
+        }),
+        finalAnswerLatex: data.finalAnswerLatex,
+    });
+};
+
+/**
+ * Parses the JSON received so far from a streaming response.
+ * @param json The accumulated (possibly truncated) JSON text.
+ * @returns The fields that have arrived, or `null` if nothing usable has arrived yet.
+ */
+export const parsePartialSolution = (json: string): PartialSolution | null => {
+    const data = parsePartialJson(json.trim().replace(/^```(?:json)?\s*/, ''));
+    if (!isRecord(data)) return null;
+
+    const partial: PartialSolution = {};
+    const topic = TOPICS.find(name => name === data.topic);
+    if (topic) partial.topic = topic;
+    if (typeof data.problemLatex === 'string') partial.problemLatex = data.problemLatex;
+    if (typeof data.limitForm === 'string') partial.limitForm = data.limitForm;
+    if (Array.isArray(data.steps)) {
+        partial.steps = data.steps
+            .filter(isRecord)
+            .map(step => ({
+                ...(typeof step.explanationKm === 'string' ? { explanationKm: step.explanationKm } : {}),
+                ...(typeof step.explanationEn === 'string' ? { explanationEn: step.explanationEn } : {}),
+                ...(typeof step.latex === 'string' ? { latex: step.latex } : {}),
+            }));
+    }
+    if (typeof data.finalAnswerLatex === 'string') partial.finalAnswerLatex = data.finalAnswerLatex;
+    return partial;
+};
+
+/**
+ * Builds the instruction for listing every problem of the chosen topic on a worksheet photo.
+ * Boxes use Gemini's native `[ymin, xmin, ymax, xmax]` on a 0–1000 grid, which other vision models also handle well.
+ * @param language The language the student reads, which the prompt is written in.
+ * @param topic The topic the student chose.
+ * @returns The prompt text to send alongside the image.
+ */
+export const buildDetectionPrompt = (language: SolutionLanguage = 'km', topic: TopicChoice = 'limits'): string =>
+    language === 'km'
+        ? `រូបភាពនេះជាសន្លឹកលំហាត់ដែលអាចមាន${topicProblem(topic, language)}ច្រើន។ កុំដោះស្រាយវា។ ស្វែងរកលំហាត់នីមួយៗតាមលំដាប់អាន ហើយឆ្លើយតបជា JSON តាម schema ដែលបានផ្តល់៖
+- \`problems\`: បញ្ជីលំហាត់ ដែលនីមួយៗមាន \`latex\` (លំហាត់ជា LaTeX ដោយគ្មានសញ្ញា $) និង \`box2d\` (ប្រអប់ព័ទ្ធជុំវិញលំហាត់ទាំងមូល រួមទាំងលេខរៀងរបស់វា ជា \`[ymin, xmin, ymax, xmax]\` ក្នុងមាត្រដ្ឋាន 0–1000)។
+បើគ្មានលំហាត់បែបនេះទេ សូមឲ្យ \`problems\` ជាបញ្ជីទទេ។`
+        : `This image is a worksheet that may hold several ${topicProblem(topic, language)}s. Do not solve them. Find each one in reading order and respond with JSON following the provided schema:
+- \`problems\`: the problems, each with \`latex\` (the problem as LaTeX without $ signs) and \`box2d\` (the box around the whole problem, including its number, as \`[ymin, xmin, ymax, xmax]\` on a 0–1000 scale).
+If there are no such problems, make \`problems\` an empty list.`;
+
+const GRID_SIZE = 1000;
+
+const toBoundingBox = (box2d: unknown): BoundingBox | null => {
+    if (!Array.isArray(box2d) || box2d.length !== 4 || !box2d.every(value => typeof value === 'number' && Number.isFinite(value))) {
+        return null;
+    }
+    const clamp = (value: number) => Math.min(1, Math.max(0, value / GRID_SIZE));
+    const [top, left, bottom, right] = box2d.map(clamp);
+    if (bottom <= top || right <= left) return null;
+    return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Parses and normalizes the JSON problem list returned for a worksheet photo.
+ * Entries without LaTeX or with an unusable box are dropped.
+ * @param json The raw JSON text of the model response.
+ * @returns The detected problems. Throws a `SolverError` if the JSON is invalid.
+ */
+export const parseDetectedProblems = (json: string | undefined): DetectedProblem[] => {
+    const data = parseJsonResponse(json);
+    if (!isRecord(data) || !Array.isArray(data.problems)) {
+        throw new SolverError('unknown', 'The response does not match the detection schema.');
+    }
+    return data.problems.filter(isRecord).flatMap(problem => {
+        const box = toBoundingBox(problem.box2d);
+        const latex = isString(problem.latex) ? sanitizeLatex(problem.latex) : '';
+        return box && latex ? [{ latex, box }] : [];
+    });
+};
+
+/**
+ * Parses and normalizes the JSON practice problems returned for a solved problem.
+ * Entries without a problem or an answer are dropped; an unrecognized difficulty counts as `medium`.
+ * @param json The raw JSON text of the model response.
+ * @returns The problems, easiest first. Throws a `SolverError` if the JSON is invalid.
+ */
+export const parseSimilarProblems = (json: string | undefined): SimilarProblem[] => {
+    const data = parseJsonResponse(json);
+    if (!isRecord(data) || !Array.isArray(data.problems)) {
+        throw new SolverError('unknown', 'The response does not match the similar problems schema.');
+    }
+    const problems: SimilarProblem[] = data.problems.filter(isRecord).flatMap(problem => {
+        const problemLatex = isString(problem.problemLatex) ? sanitizeLatex(problem.problemLatex) : '';
+        const answerLatex = isString(problem.answerLatex) ? sanitizeLatex(problem.answerLatex) : '';
+        const difficulty = DIFFICULTIES.find(level => level === problem.difficulty) ?? 'medium';
+        return problemLatex && answerLatex ? [{ problemLatex, answerLatex, difficulty }] : [];
+    });
+    return problems.sort((a, b) => DIFFICULTIES.indexOf(a.difficulty) - DIFFICULTIES.indexOf(b.difficulty));
+};
@@ -0,0 +1,102 @@
+import type { StructuredSolution } from "../types";
+import { base64ToBlob } from "../utils/imageData";
+import { buildImagePrompt } from "./solutionPrompt";
+import type { SolveOptions } from "./solveRequest";
+import type { SolverProvider } from "./solverProvider";
+
+// Solutions of photographed problems, keyed by a hash of what was sent, so an identical photo is not paid for twice.
+// The key covers the exact prompt text, so any change to a prompt template (or the language, method or topic) misses.
+
+const DB_NAME = 'limitSolverCache';
+const DB_VERSION = 1;
+const SOLUTION_STORE = 'solutions';
+const MAX_CACHED_SOLUTIONS = 200;
+
+interface CachedSolution {
+    key: string;
+    solution: StructuredSolution;
+    savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(SOLUTION_STORE, { keyPath: 'key' });
+            store.createIndex('savedAt', 'savedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Works out the cache key of an image solve: a SHA-256 of the image bytes, the prompt sent with them and the model.
+ * @param image The preprocessed image, as sent to the provider.
+ * @param options The language, method and topic of the solve, which shape the prompt.
+ * @param solver The provider the solve goes to.
+ * @returns The key, as hex.
+ */
+export const solveCacheKey = async (
+    image: { base64: string; mimeType: string },
+    { language, method, topic }: Pick<SolveOptions, 'language' | 'method' | 'topic'>,
+    solver: Pick<SolverProvider, 'id' | 'model'>,
+): Promise<string> => {
+    const bytes = await base64ToBlob(image.base64, image.mimeType).arrayBuffer();
+    const context = new TextEncoder().encode(`\u0000${buildImagePrompt(language, method, topic)}\u0000${solver.id}/${solver.model}`);
+    const data = new Uint8Array(bytes.byteLength + context.byteLength);
+    data.set(new Uint8Array(bytes));
+    data.set(context, bytes.byteLength);
+    return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+/**
+ * Looks up the solution saved under a key.
+ * @param key The key from `solveCacheKey`.
+ * @returns The solution, or `undefined` if none is saved.
+ */
+export const getCachedSolution = async (key: string): Promise<StructuredSolution | undefined> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<CachedSolution | undefined>(
+        db.transaction(SOLUTION_STORE, 'readonly').objectStore(SOLUTION_STORE).get(key),
+    );
+    return record?.solution;
+};
+
+/**
+ * Saves a solution under a key, replacing any saved before and dropping the oldest beyond the size limit.
+ * @param key The key from `solveCacheKey`.
+ * @param solution The solution the provider returned.
+ */
+export const cacheSolution = async (key: string, solution: StructuredSolution): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SOLUTION_STORE, 'readwrite');
+    const store = transaction.objectStore(SOLUTION_STORE);
+    store.put({ key, solution, savedAt: Date.now() } satisfies CachedSolution);
+
+    const excess = (await requestToPromise(store.count())) - MAX_CACHED_SOLUTIONS;
+    if (excess > 0) {
+        const oldest = await requestToPromise(store.index('savedAt').getAllKeys(null, excess));
+        oldest.forEach(oldKey => store.delete(oldKey));
+    }
+    await transactionDone(transaction);
+};
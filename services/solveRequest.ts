@@ -0,0 +1,150 @@
+import type { Language, MethodChoice, PartialSolution, SolutionLanguage, SolveErrorKind, SolveResult, TopicChoice } from "../types";
+
+/** Thrown by solver providers; `kind` drives retrying and the message shown to the user. */
+export class SolverError extends Error {
+    constructor(public readonly kind: SolveErrorKind, message: string, public readonly unreachable = false) {
+        super(message);
+        this.name = 'SolverError';
+    }
+}
+
+export interface SolveOptions {
+    /** Aborts the in-flight request; the solve then resolves with a `cancelled` error. */
+    signal?: AbortSignal;
+    /** Called with the fields received so far each time more of the streamed response arrives. */
+    onProgress?: (partial: PartialSolution) => void;
+    /** The language(s) to write the step explanations in; Khmer by default. */
+    language?: SolutionLanguage;
+    /** The solving method to hold the solution to; the model chooses (`auto`) by default. */
+    method?: MethodChoice;
+    /** The topic to solve the problem as; limits by default. */
+    topic?: TopicChoice;
+}
+
+export interface ChatOptions {
+    /** Aborts the in-flight request; the request then resolves with a `cancelled` error. */
+    signal?: AbortSignal;
+    /** Called with the reply so far each time more of the streamed response arrives. */
+    onProgress?: (text: string) => void;
+    /** The language to reply in; Khmer by default. */
+    language?: Language;
+}
+
+interface RetryOptions {
+    signal?: AbortSignal;
+    /** Total attempts, including the first one. */
+    maxAttempts?: number;
+    /** Per-attempt time limit. */
+    timeoutMs?: number;
+    /** Delay before the first retry; doubled for each further retry. */
+    baseDelayMs?: number;
+}
+
+const TRANSIENT_ERRORS: ReadonlySet<SolveErrorKind> = new Set(['quota', 'network', 'timeout']);
+
+/**
+ * Tells whether a failure is worth retrying later: the service was unreachable, slow or over quota.
+ * @param kind The kind of failure.
+ * @returns True for transient failures.
+ */
+export const isTransientError = (kind: SolveErrorKind): boolean => TRANSIENT_ERRORS.has(kind);
+
+const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'AbortError' || error.name === 'TimeoutError');
+
+/**
+ * Maps errors that are not already a `SolverError` (fetch failures, aborts, HTTP statuses) to a kind.
+ * @param error The caught error.
+ * @param status The HTTP status of the failed response, when known.
+ * @returns The classified error.
+ */
+export const toSolverError = (error: unknown, status?: number): SolverError => {
+    if (error instanceof SolverError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    if (isAbortError(error)) return new SolverError('cancelled', message);
+    if (status === 429) return new SolverError('quota', message);
+    if (status !== undefined && (status === 408 || status >= 500)) return new SolverError('network', message);
+    // fetch() rejects with a TypeError when the request never reached the server.
+    if (error instanceof TypeError) return new SolverError('network', message, true);
+    return new SolverError('unknown', message);
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new SolverError('cancelled', 'Cancelled while waiting to retry'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// The signal for one attempt: aborted by the caller's signal or after the time limit. Built by hand because
+// `AbortSignal.timeout` and `AbortSignal.any` are missing from older Safari and Android WebView.
+const attemptSignal = (timeoutMs: number, signal?: AbortSignal) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort(new DOMException('The attempt timed out', 'TimeoutError'));
+    }, timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    return {
+        signal: controller.signal,
+        timedOut: () => timedOut,
+        dispose: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        },
+    };
+};
+
+/**
+ * Runs a solver request with a per-attempt timeout, retrying transient failures with exponential backoff and jitter.
+ * Never rejects: every failure is returned as a typed `SolveResult`.
+ * @param attempt Performs one request (a solve, or e.g. problem detection); must honour the signal it is given.
+ * @param options Cancellation signal and retry tuning.
+ * @returns The result, or the error of the last attempt.
+ */
+export const solveWithRetry = async <T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    { signal, maxAttempts = 3, timeoutMs = 90_000, baseDelayMs = 1_000 }: RetryOptions = {},
+): Promise<SolveResult<T>> => {
+    let lastError = new SolverError('unknown', 'No attempt was made');
+
+    for (let attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
+        if (signal?.aborted) return { status: 'failed', error: { kind: 'cancelled', detail: 'Cancelled by the user' } };
+
+        const limited = attemptSignal(timeoutMs, signal);
+        try {
+            return { status: 'solved', solution: await attempt(limited.signal) };
+        } catch (error) {
+            if (signal?.aborted) return { status: 'failed', error: { kind: 'cancelled', detail: 'Cancelled by the user' } };
+            lastError = toSolverError(error);
+            // An abort the user didn't ask for is our own per-attempt timeout.
+            if (lastError.kind === 'cancelled' && limited.timedOut()) {
+                lastError = new SolverError('timeout', lastError.message);
+            }
+            console.error(`Solve attempt ${attemptNumber}/${maxAttempts} failed (${lastError.kind}):`, error);
+        } finally {
+            limited.dispose();
+        }
+
+        if (!isTransientError(lastError.kind) || attemptNumber === maxAttempts) break;
+        try {
+            const backoff = baseDelayMs * 2 ** (attemptNumber - 1);
+            await wait(backoff + Math.random() * backoff * 0.25, signal);
+        } catch {
+            return { status: 'failed', error: { kind: 'cancelled', detail: 'Cancelled by the user' } };
+        }
+    }
+
+    return {
+        status: 'failed',
+        error: { kind: lastError.kind, detail: lastError.message, ...(lastError.unreachable ? { unreachable: true } : {}) },
+    };
+};
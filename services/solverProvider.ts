@@ -0,0 +1,85 @@
+import type { DetectedProblem, FollowUpContext, SimilarProblem, StructuredSolution } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { createMockProvider } from "./mockSolverService";
+import type { ChatOptions, SolveOptions } from "./solveRequest";
+import type { MathError } from "../utils/mathFormatting";
+
+/**
+ * A backend that turns a limit problem into a structured solution explained in Khmer, English or both.
+ * The app talks only to this interface; which implementation is used is decided by `getSolverProvider`.
+ */
+export interface SolverProvider {
+    /** Short identifier of the backend, e.g. `gemini`. */
+    readonly id: SolverProviderId;
+    /** The model the backend sends requests to. */
+    readonly model: string;
+    /** Rejects with a `SolverError` describing the failure. */
+    solveLimitFromImage(base64Image: string, mimeType: string, options?: SolveOptions): Promise<StructuredSolution>;
+    /** Rejects with a `SolverError` describing the failure. */
+    solveLimitFromText(problemText: string, options?: SolveOptions): Promise<StructuredSolution>;
+    /**
+     * Solves a photographed problem from the user's correction of how it was read; the photo is sent as context only.
+     * Rejects with a `SolverError` describing the failure.
+     */
+    solveCorrectedFromImage(problemLatex: string, base64Image: string, mimeType: string, options?: SolveOptions): Promise<StructuredSolution>;
+    /**
+     * Finds every problem of the chosen topic on a photo of a worksheet, in reading order.
+     * Resolves with an empty list when there are none; rejects with a `SolverError` on failure.
+     */
+    detectProblems(base64Image: string, mimeType: string, options?: Pick<SolveOptions, 'signal' | 'language' | 'topic'>): Promise<DetectedProblem[]>;
+    /**
+     * Answers a follow-up question about a solved problem; the question is the last of `context.messages`.
+     * Resolves with the Markdown reply; rejects with a `SolverError` on failure.
+     */
+    askFollowUp(context: FollowUpContext, options?: ChatOptions): Promise<string>;
+    /**
+     * Writes practice problems of the same form as a solved one, easiest first, each with its answer.
+     * Resolves with at most `count` problems; rejects with a `SolverError` on failure.
+     */
+    generateSimilarProblems(solution: StructuredSolution, count: number, options?: Pick<SolveOptions, 'signal'>): Promise<SimilarProblem[]>;
+    /**
+     * Asks the model to correct the LaTeX of a solution whose math KaTeX could not render, keeping everything else.
+     * `options.language` should be the solution's own (see `solutionLanguageOf`). Rejects with a `SolverError` on failure.
+     */
+    fixFormatting(solution: StructuredSolution, errors: MathError[], options?: SolveOptions): Promise<StructuredSolution>;
+}
+
+export type SolverProviderId = 'gemini' | 'openai' | 'mock';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+let provider: SolverProvider | null = null;
+
+/**
+ * Returns the solver backend selected by `SOLVER_PROVIDER` (`gemini` by default, `openai` or `mock`).
+ * `SOLVER_MODEL` overrides the model; the OpenAI-compatible backend also reads `OPENAI_BASE_URL` and `OPENAI_API_KEY`.
+ * Missing credentials are reported when a solve is attempted, not here. An unknown `SOLVER_PROVIDER` does throw, so call
+ * this inside a request (e.g. a `solveWithRetry` attempt), where the error is shown like any failed solve and the app can
+ * always start.
+ * @returns The shared provider instance.
+ */
+export const getSolverProvider = (): SolverProvider => {
+    if (provider) return provider;
+
+    const id = (process.env.SOLVER_PROVIDER || 'gemini') as SolverProviderId;
+    const model = process.env.SOLVER_MODEL || undefined;
+    switch (id) {
+        case 'openai':
+            provider = createOpenAICompatibleProvider({
+                baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: process.env.OPENAI_API_KEY || undefined,
+                model: model ?? 'llava',
+            });
+            break;
+        case 'mock':
+            provider = createMockProvider();
+            break;
+        case 'gemini':
+            provider = createGeminiProvider({ apiKey: process.env.API_KEY || undefined, model: model ?? DEFAULT_GEMINI_MODEL });
+            break;
+        default:
+            throw new Error(`Unknown SOLVER_PROVIDER "${id}". Expected "gemini", "openai" or "mock".`);
+    }
+    return provider;
+};
@@ -0,0 +1,140 @@
+import type { Language, SolutionLanguage, Topic, TopicChoice } from "../types";
+import { TOPICS } from "../utils/topics";
+
+// One prompt template per topic: what kind of problem to expect, and how `problemLatex` and `limitForm` are written for it.
+// `problemLatex` is the first line of every solution, so each topic fixes a heading convention the display and history can rely on.
+
+interface TopicTemplate {
+    /** The problem as it is named in "Analyze the ___ in this image". */
+    problem: string;
+    /** How `problemLatex` is written, with an example. */
+    heading: string;
+    /** What `limitForm` holds. */
+    form: string;
+}
+
+const INDETERMINATE_FORM: Record<Language, string> = {
+    km: 'ទម្រង់មិនកំណត់ជា LaTeX ដោយគ្មានសញ្ញា $ (ឧទាហរណ៍៖ `\\frac{0}{0}`, `\\frac{\\infty}{\\infty}`, `\\infty - \\infty`, `1^{\\infty}`) ឬខ្សែអក្សរទទេ បើជំនួសតម្លៃផ្ទាល់បាន',
+    en: 'the indeterminate form as LaTeX without $ signs (e.g. `\\frac{0}{0}`, `\\frac{\\infty}{\\infty}`, `\\infty - \\infty`, `1^{\\infty}`), or an empty string if direct substitution works',
+};
+
+const NO_FORM: Record<Language, string> = {
+    km: 'ខ្សែអក្សរទទេជានិច្ច',
+    en: 'always an empty string',
+};
+
+const TOPIC_TEMPLATES: Record<Topic, Record<Language, TopicTemplate>> = {
+    limits: {
+        km: {
+            problem: 'លំហាត់លីមីតគណិតវិទ្យា',
+            heading: 'លំហាត់ដើមជា LaTeX ដោយគ្មានសញ្ញា $ (ឧទាហរណ៍៖ `\\lim_{x \\to 1} \\frac{x^2-1}{x-1}`)',
+            form: INDETERMINATE_FORM.km,
+        },
+        en: {
+            problem: 'math limit problem',
+            heading: 'the original problem as LaTeX without $ signs (e.g. `\\lim_{x \\to 1} \\frac{x^2-1}{x-1}`)',
+            form: INDETERMINATE_FORM.en,
+        },
+    },
+    derivatives: {
+        km: {
+            problem: 'លំហាត់ដេរីវេគណិតវិទ្យា',
+            heading: 'អនុគមន៍ដែលត្រូវធ្វើដេរីវេជា LaTeX ដោយគ្មានសញ្ញា $ ក្នុងទម្រង់ `\\frac{d}{dx}\\left(...\\right)` (ឧទាហរណ៍៖ `\\frac{d}{dx}\\left(x^2 \\sin x\\right)`) ឬ `f(x) = ..., \\; f\'(a)` បើលំហាត់សួររកដេរីវេត្រង់ចំណុចមួយ',
+            form: NO_FORM.km,
+        },
+        en: {
+            problem: 'math derivative problem',
+            heading: 'the function to differentiate as LaTeX without $ signs, written as `\\frac{d}{dx}\\left(...\\right)` (e.g. `\\frac{d}{dx}\\left(x^2 \\sin x\\right)`), or as `f(x) = ..., \\; f\'(a)` when the problem asks for the derivative at a point',
+            form: NO_FORM.en,
+        },
+    },
+    integrals: {
+        km: {
+            problem: 'លំហាត់អាំងតេក្រាលគណិតវិទ្យា',
+            heading: 'អាំងតេក្រាលជា LaTeX ដោយគ្មានសញ្ញា $ រួមទាំង `\\, dx` (ឧទាហរណ៍៖ `\\int x e^{x} \\, dx` ឬ `\\int_{0}^{1} x^2 \\, dx`)',
+            form: NO_FORM.km,
+        },
+        en: {
+            problem: 'math integral problem',
+            heading: 'the integral as LaTeX without $ signs, including `\\, dx` (e.g. `\\int x e^{x} \\, dx` or `\\int_{0}^{1} x^2 \\, dx`)',
+            form: NO_FORM.en,
+        },
+    },
+    continuity: {
+        km: {
+            problem: 'លំហាត់ភាពជាប់នៃអនុគមន៍',
+            heading: 'អនុគមន៍ និងចំណុចដែលត្រូវសិក្សា ជា LaTeX ដោយគ្មានសញ្ញា $ (ឧទាហរណ៍៖ `f(x) = \\begin{cases} x^2 & x < 1 \\\\ 2x - 1 & x \\ge 1 \\end{cases}, \\quad x = 1`)',
+            form: 'ទម្រង់មិនកំណត់ដែលជួបពេលគណនាលីមីតខាងឆ្វេង ឬខាងស្តាំ ជា LaTeX ដោយគ្មានសញ្ញា $ ឬខ្សែអក្សរទទេ បើគ្មាន',
+        },
+        en: {
+            problem: 'continuity problem',
+            heading: 'the function and the point to study as LaTeX without $ signs (e.g. `f(x) = \\begin{cases} x^2 & x < 1 \\\\ 2x - 1 & x \\ge 1 \\end{cases}, \\quad x = 1`)',
+            form: 'the indeterminate form met while computing the one-sided limits, as LaTeX without $ signs, or an empty string if there is none',
+        },
+    },
+    sequences: {
+        km: {
+            problem: 'លំហាត់ស្វ៊ីតគណិតវិទ្យា',
+            heading: 'លីមីតនៃស្វ៊ីតជា LaTeX ដោយគ្មានសញ្ញា $ (ឧទាហរណ៍៖ `\\lim_{n \\to \\infty} \\frac{2n+1}{n-3}`) ឬតួទូទៅ `u_n = ...` បើលំហាត់សួរអ្វីផ្សេង',
+            form: INDETERMINATE_FORM.km,
+        },
+        en: {
+            problem: 'math sequence problem',
+            heading: 'the limit of the sequence as LaTeX without $ signs (e.g. `\\lim_{n \\to \\infty} \\frac{2n+1}{n-3}`), or its general term `u_n = ...` when the problem asks something else',
+            form: INDETERMINATE_FORM.en,
+        },
+    },
+};
+
+const AUTO_PROBLEM: Record<Language, string> = {
+    km: 'លំហាត់លីមីត ដេរីវេ អាំងតេក្រាល ភាពជាប់ ឬស្វ៊ីត',
+    en: 'limit, derivative, integral, continuity or sequence problem',
+};
+
+const promptLanguageOf = (language: SolutionLanguage): Language => (language === 'km' ? 'km' : 'en');
+
+/**
+ * Names the kind of problem a solve prompt should expect.
+ * @param topic The chosen topic.
+ * @param language The language(s) of the solve prompt.
+ * @returns The noun phrase, e.g. "math limit problem".
+ */
+export const topicProblem = (topic: TopicChoice = 'limits', language: SolutionLanguage = 'km'): string => {
+    const promptLanguage = promptLanguageOf(language);
+    return topic === 'auto' ? AUTO_PROBLEM[promptLanguage] : TOPIC_TEMPLATES[topic][promptLanguage].problem;
+};
+
+/**
+ * Describes the `topic`, `problemLatex` and `limitForm` fields of the solution JSON for the chosen topic.
+ * With `auto` the model picks the topic and follows that topic's conventions.
+ * @param topic The chosen topic.
+ * @param language The language(s) of the solve prompt.
+ * @returns One Markdown list item per field.
+ */
+export const topicFieldInstructions = (topic: TopicChoice = 'limits', language: SolutionLanguage = 'km'): string => {
+    const promptLanguage = promptLanguageOf(language);
+    const topicList = TOPICS.map(name => `\`${name}\``).join(', ');
+    if (topic !== 'auto') {
+        const template = TOPIC_TEMPLATES[topic][promptLanguage];
+        return promptLanguage === 'km'
+            ? `- \`topic\`: \`${topic}\` ជានិច្ច។
+- \`problemLatex\`: ${template.heading}។
+- \`limitForm\`: ${template.form}។`
+            : `- \`topic\`: always \`${topic}\`.
+- \`problemLatex\`: ${template.heading}.
+- \`limitForm\`: ${template.form}.`;
+    }
+    const conventions = (field: keyof TopicTemplate) =>
+        TOPICS.map(name => `  - \`${name}\`: ${TOPIC_TEMPLATES[name][promptLanguage][field]}`).join('\n');
+    return promptLanguage === 'km'
+        ? `- \`topic\`: ប្រធានបទនៃលំហាត់ មួយក្នុងចំណោម ${topicList}។
+- \`problemLatex\`: តាមប្រធានបទ៖
+${conventions('heading')}
+- \`limitForm\`: តាមប្រធានបទ៖
+${conventions('form')}`
+        : `- \`topic\`: the topic of the problem, one of ${topicList}.
+- \`problemLatex\`: depending on the topic:
+${conventions('heading')}
+- \`limitForm\`: depending on the topic:
+${conventions('form')}`;
+};
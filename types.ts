@@ -0,0 +1,163 @@
+// --- Shared Type Definitions ---
+
+import type { AnswerCheck, LimitVerification } from './utils/limitVerification';
+
+/** A UI language. */
+export type Language = 'km' | 'en';
+
+/** The language(s) a solution's explanations are requested in; `bilingual` asks for Khmer and English side by side. */
+export type SolutionLanguage = Language | 'bilingual';
+
+export interface SolutionStep {
+  /** Khmer explanation of the step; may contain inline `$...$` math. Empty when the solution was requested in English only. */
+  explanationKm: string;
+  /** English explanation of the step, present on solutions requested in English or bilingually. */
+  explanationEn?: string;
+  /** The step's main working as LaTeX, without `$` delimiters. May be empty. */
+  latex: string;
+}
+
+/** The kind of problem a solution answers. */
+export type Topic = 'limits' | 'derivatives' | 'integrals' | 'continuity' | 'sequences';
+
+/** The topic requested for a solve: a specific one, or `auto` to let the model tell from the problem. */
+export type TopicChoice = 'auto' | Topic;
+
+/** A solution as returned by the model's JSON response schema. All LaTeX fields omit `$` delimiters. */
+export interface StructuredSolution {
+  /** The topic the problem was solved as; missing on solutions saved before topics existed, which are all limits. */
+  topic?: Topic;
+  problemLatex: string;
+  /** The indeterminate form (e.g. `\frac{0}{0}`), or an empty string when direct substitution works or the topic has none. */
+  limitForm: string;
+  steps: SolutionStep[];
+  finalAnswerLatex: string;
+}
+
+/** A technique a solution can be asked to use. */
+export type SolvingMethod = 'factoring' | 'conjugate' | 'lhopital' | 'trigLimits' | 'squeeze';
+
+/** The method requested for a solve: one technique, the model's own choice, or two different techniques one after the other. */
+export type MethodChoice = 'auto' | SolvingMethod | 'twoMethods';
+
+/** A solution that is still streaming in: any field may be missing and the last string received may be cut off. */
+export type PartialSolution = Partial<Omit<StructuredSolution, 'steps'>> & { steps?: Partial<SolutionStep>[] };
+
+/**
+ * Why a solve failed. `quota`, `network` and `timeout` are transient and retried automatically;
+ * `cancelled` means the user aborted the request and should not be shown as an error.
+ */
+export type SolveErrorKind = 'quota' | 'network' | 'safety' | 'unreadable' | 'timeout' | 'cancelled' | 'unknown';
+
+export interface SolveError {
+  kind: SolveErrorKind;
+  /** Technical detail for logs; the UI shows a localized message chosen by `kind`. */
+  detail: string;
+  /** Set when the request never reached the server, unlike a `network` error the server answered with (5xx, 408). */
+  unreachable?: boolean;
+}
+
+/** Outcome of a solver request; `solution` is the request's result (a `StructuredSolution` unless stated otherwise). */
+export type SolveResult<T = StructuredSolution> =
+  | { status: 'solved'; solution: T }
+  | { status: 'failed'; error: SolveError };
+
+/** A rectangle as fractions (0–1) of the image width and height, measured from the top-left corner. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One problem found on a worksheet photo. */
+export interface DetectedProblem {
+  /** The problem as LaTeX without `$`, for the selection list. */
+  latex: string;
+  box: BoundingBox;
+}
+
+/** How hard a generated practice problem is meant to be. */
+export type ProblemDifficulty = 'easy' | 'medium' | 'hard';
+
+/** A practice problem written to be like a solved one: the same indeterminate form, solved by the same technique. */
+export interface SimilarProblem {
+  /** The limit as LaTeX without `$`. */
+  problemLatex: string;
+  /** The answer as LaTeX without `$`; hidden from the student until the quiz is checked. */
+  answerLatex: string;
+  difficulty: ProblemDifficulty;
+}
+
+/** One turn of a follow-up conversation about a solved problem. */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  /** Markdown with inline `$...$` and display `$$...$$` math. */
+  text: string;
+  /** The index of the solution step the student quoted with their question, if any. */
+  quotedStep?: number;
+}
+
+/** What a follow-up question is asked about: the solved problem and the conversation so far. */
+export interface FollowUpContext {
+  /** The problem photo, for photographed problems. */
+  image?: { base64: string; mimeType: string };
+  solution: StructuredSolution;
+  /** The turns so far, oldest first, ending with the student's new question. */
+  messages: ChatMessage[];
+}
+
+/** How a problem went in practice mode, where the steps are hidden and revealed one at a time as hints. */
+export interface PracticeRecord {
+  /** Number of steps the student revealed. */
+  hintsUsed: number;
+  /** The last answer the student checked, as typed, and its verdict. */
+  answer?: string;
+  result?: AnswerCheck;
+  /** Whether the student gave up and showed the whole solution. */
+  solutionShown: boolean;
+}
+
+/** How the user corrected the problem the model had read, before solving it again. */
+export interface ProblemCorrection {
+  /** The entry whose reading was corrected, if it was saved. */
+  entryId?: number;
+  /** The problem LaTeX as the model read it. */
+  recognizedLatex: string;
+  /** The problem LaTeX as the user corrected it. */
+  correctedLatex: string;
+}
+
+export interface HistoryEntry {
+  id: number;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  // Photo solves carry the cropped `image` and its `thumbnail`; typed solves carry `problemText` instead.
+  image?: Blob;
+  thumbnail?: Blob;
+  problemText?: string;
+  problemSnippet: string;
+  solution?: StructuredSolution;
+  // Markdown solution of entries saved before structured output; new entries only set `solution`.
+  fullSolution?: string;
+  // Missing on entries saved before numeric verification existed; recomputed on load.
+  verification?: LimitVerification;
+  favorite: boolean;
+  tags: string[];
+  // Only set on entries solved in practice mode.
+  practice?: PracticeRecord;
+  /** Follow-up questions about the solution and their replies, oldest first. */
+  chat?: ChatMessage[];
+  /** Only set on re-solves from a corrected reading of the problem; links back to the entry that was misread. */
+  correction?: ProblemCorrection;
+  /** The method the solve was asked to use; missing means the model chose (`auto`). */
+  method?: MethodChoice;
+}
+
+/** A solved problem as written into an exported document (PDF worksheet or `.tex` file). */
+export interface DocumentProblem {
+  /** Object URL of the cropped problem photo, if the problem was photographed. */
+  imageUrl?: string;
+  // Legacy history entries only have a Markdown solution.
+  solution: StructuredSolution | string;
+}
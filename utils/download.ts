@@ -0,0 +1,16 @@
+/**
+ * Saves a Blob to the user's device through a temporary download link.
+ * @param blob The file contents.
+ * @param filename The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the URL.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
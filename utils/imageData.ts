@@ -0,0 +1,61 @@
+import type { BoundingBox } from "../types";
+
+// Conversions between the base64 payloads the solver APIs take and the Blobs we store.
+
+/**
+ * Decodes a base64 string (without the `data:` prefix) into a Blob.
+ * @param base64 The base64-encoded bytes.
+ * @param mimeType The MIME type to give the Blob.
+ * @returns The decoded Blob.
+ */
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Encodes a Blob as base64 (without the `data:` prefix).
+ * @param blob The Blob to encode.
+ * @returns A promise that resolves to the base64 string.
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Cuts a region out of an image, grown by a margin so a slightly tight box does not clip the problem.
+ * @param image The full image.
+ * @param box The region, as fractions of the image size.
+ * @param margin Extra space on every side, as a fraction of the image size.
+ * @returns The region as a Blob of the same type as `image` (PNG if the browser cannot encode that type).
+ */
+export const cropImageToBox = async (image: Blob, box: BoundingBox, margin = 0.01): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    const left = Math.max(0, box.x - margin) * bitmap.width;
+    const top = Math.max(0, box.y - margin) * bitmap.height;
+    const right = Math.min(1, box.x + box.width + margin) * bitmap.width;
+    const bottom = Math.min(1, box.y + box.height + margin) * bitmap.height;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(right - left));
+    canvas.height = Math.max(1, Math.round(bottom - top));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    ctx.drawImage(bitmap, left, top, right - left, bottom - top, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), image.type);
+    });
+};
@@ -0,0 +1,268 @@
+// Cleans up a cropped photo before it is sent to the model: straighten it, boost the ink, shrink it.
+// Smaller, higher-contrast images upload faster and are read more reliably.
+
+export type ImageEnhancement = 'none' | 'contrast' | 'threshold';
+
+export interface PreprocessOptions {
+    /** Clockwise quarter turns, 0–3. */
+    quarterTurns: number;
+    /** Fine clockwise rotation in degrees, to straighten a tilted photo. */
+    skewDegrees: number;
+    grayscale: boolean;
+    /** `contrast` stretches the levels; `threshold` turns the image into black ink on white, best for handwriting. */
+    enhancement: ImageEnhancement;
+    /** The longest side of the result, in pixels. */
+    maxDimension: number;
+}
+
+/** The options that are kept between images; the rotation belongs to one photo only. */
+export type PreprocessSettings = Pick<PreprocessOptions, 'grayscale' | 'enhancement' | 'maxDimension'>;
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+    grayscale: true,
+    enhancement: 'contrast',
+    maxDimension: 1600,
+};
+
+export const MAX_DIMENSION_CHOICES = [1024, 1600, 2048, 3072];
+
+export const MAX_SKEW_DEGREES = 15;
+
+/** A region of a displayed image, in CSS pixels of the element (as react-image-crop reports it). */
+export interface DisplayRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Cuts a region out of a displayed image at the image's full resolution.
+ * @param image The loaded image element.
+ * @param region The region, in the element's displayed pixels.
+ * @returns A canvas holding the region.
+ */
+export const cropToCanvas = (image: HTMLImageElement, region: DisplayRegion): HTMLCanvasElement => {
+    const scaleX = image.naturalWidth / image.width;
+    const scaleY = image.naturalHeight / image.height;
+    const { canvas, ctx } = createCanvas(region.width * scaleX, region.height * scaleY);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(
+        image,
+        region.x * scaleX,
+        region.y * scaleY,
+        region.width * scaleX,
+        region.height * scaleY,
+        0,
+        0,
+        canvas.width,
+        canvas.height,
+    );
+    return canvas;
+};
+
+const luma = (r: number, g: number, b: number): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Picks the grey level that best separates ink from paper (Otsu's method).
+ * @param histogram Pixel counts for levels 0–255.
+ * @returns The threshold; levels at or below it are ink.
+ */
+export const otsuThreshold = (histogram: ArrayLike<number>): number => {
+    let total = 0;
+    let sum = 0;
+    for (let level = 0; level < 256; level++) {
+        total += histogram[level];
+        sum += level * histogram[level];
+    }
+
+    let best = 127;
+    let bestVariance = -1;
+    let backgroundCount = 0;
+    let backgroundSum = 0;
+    for (let level = 0; level < 256; level++) {
+        backgroundCount += histogram[level];
+        if (backgroundCount === 0) continue;
+        const foregroundCount = total - backgroundCount;
+        if (foregroundCount === 0) break;
+        backgroundSum += level * histogram[level];
+        const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            best = level;
+        }
+    }
+    return best;
+};
+
+/**
+ * Applies grayscale and contrast/threshold enhancement to RGBA pixels in place.
+ * @param data RGBA pixel data, as in `ImageData.data`.
+ * @param options Which adjustments to make.
+ */
+export const enhancePixels = (data: Uint8ClampedArray, options: Pick<PreprocessOptions, 'grayscale' | 'enhancement'>): void => {
+    if (!options.grayscale && options.enhancement === 'none') return;
+
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[Math.round(luma(data[i], data[i + 1], data[i + 2]))]++;
+    }
+
+    if (options.enhancement === 'threshold') {
+        const threshold = otsuThreshold(histogram);
+        for (let i = 0; i < data.length; i += 4) {
+            const value = luma(data[i], data[i + 1], data[i + 2]) <= threshold ? 0 : 255;
+            data[i] = data[i + 1] = data[i + 2] = value;
+        }
+        return;
+    }
+
+    // Stretch the levels so the darkest 1% becomes black and the brightest 1% white.
+    let low = 0;
+    let high = 255;
+    if (options.enhancement === 'contrast') {
+        const clip = (data.length / 4) * 0.01;
+        for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+        for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+        if (high <= low) {
+            low = 0;
+            high = 255;
+        }
+    }
+    const stretch = (value: number) => ((value - low) * 255) / (high - low);
+
+    for (let i = 0; i < data.length; i += 4) {
+        if (options.grayscale) {
+            data[i] = data[i + 1] = data[i + 2] = stretch(luma(data[i], data[i + 1], data[i + 2]));
+        } else {
+            data[i] = stretch(data[i]);
+            data[i + 1] = stretch(data[i + 1]);
+            data[i + 2] = stretch(data[i + 2]);
+        }
+    }
+};
+
+/**
+ * Estimates the clockwise rotation that makes the text lines of a page horizontal.
+ * Tries each angle and keeps the one whose row profile of ink pixels is most sharply peaked.
+ * @param gray Grey levels, one byte per pixel.
+ * @param width The image width.
+ * @param height The image height.
+ * @returns The correction in degrees, within ±`MAX_SKEW_DEGREES`.
+ */
+export const estimateSkewDegrees = (gray: Uint8Array, width: number, height: number): number => {
+    const histogram = new Uint32Array(256);
+    gray.forEach(value => histogram[value]++);
+    const threshold = otsuThreshold(histogram);
+
+    const inkX: number[] = [];
+    const inkY: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (gray[y * width + x] <= threshold) {
+                inkX.push(x - width / 2);
+                inkY.push(y - height / 2);
+            }
+        }
+    }
+    // A blank or fully dark image has no lines to align.
+    if (inkX.length === 0 || inkX.length > gray.length * 0.5) return 0;
+
+    const diagonal = Math.ceil(Math.hypot(width, height));
+    const rows = new Uint32Array(diagonal + 1);
+    let best = 0;
+    let bestScore = -1;
+    for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += 0.5) {
+        const radians = (degrees * Math.PI) / 180;
+        const sin = Math.sin(radians);
+        const cos = Math.cos(radians);
+        rows.fill(0);
+        for (let i = 0; i < inkX.length; i++) {
+            rows[Math.round(inkX[i] * sin + inkY[i] * cos + diagonal / 2)]++;
+        }
+        let score = 0;
+        rows.forEach(count => { score += count * count; });
+        // Prefer the smaller correction when two angles score the same.
+        if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(best))) {
+            bestScore = score;
+            best = degrees;
+        }
+    }
+    return best;
+};
+
+/**
+ * Estimates how far a cropped photo is tilted, on a downscaled copy for speed.
+ * @param source The cropped image.
+ * @param quarterTurns The quarter turns the user has already applied.
+ * @returns The fine rotation in degrees that straightens it.
+ */
+export const detectSkew = (source: HTMLCanvasElement, quarterTurns: number): number => {
+    const upright = preprocessImage(source, { quarterTurns, skewDegrees: 0, grayscale: true, enhancement: 'none', maxDimension: 400 });
+    const { data } = upright.getContext('2d')!.getImageData(0, 0, upright.width, upright.height);
+    const gray = new Uint8Array(upright.width * upright.height);
+    for (let i = 0; i < gray.length; i++) gray[i] = data[i * 4];
+    return estimateSkewDegrees(gray, upright.width, upright.height);
+};
+
+/**
+ * Rotates, downscales and enhances a cropped image.
+ * @param source The cropped image at full resolution.
+ * @param options The adjustments to make.
+ * @returns A new canvas with the result; areas uncovered by a fine rotation are filled white.
+ */
+export const preprocessImage = (source: HTMLCanvasElement, options: PreprocessOptions): HTMLCanvasElement => {
+    const radians = (((options.quarterTurns % 4) * 90 + options.skewDegrees) * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    const rotatedWidth = source.width * cos + source.height * sin;
+    const rotatedHeight = source.width * sin + source.height * cos;
+    const scale = Math.min(1, options.maxDimension / Math.max(rotatedWidth, rotatedHeight));
+
+    const { canvas, ctx } = createCanvas(rotatedWidth * scale, rotatedHeight * scale);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(radians);
+    ctx.scale(scale, scale);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+
+    if (options.grayscale || options.enhancement !== 'none') {
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        enhancePixels(imageData.data, options);
+        ctx.putImageData(imageData, 0, 0);
+    }
+    return canvas;
+};
+
+/**
+ * The format to upload a processed image in: PNG keeps black-and-white ink sharp and small, JPEG suits photos.
+ * @param options The adjustments that were made.
+ * @returns The MIME type.
+ */
+export const preprocessedMimeType = (options: Pick<PreprocessOptions, 'enhancement'>): string =>
+    options.enhancement === 'threshold' ? 'image/png' : 'image/jpeg';
+
+/**
+ * Encodes a canvas.
+ * @param canvas The canvas to encode.
+ * @param mimeType The image format.
+ * @returns The encoded image.
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), mimeType, 0.9);
+    });
@@ -0,0 +1,166 @@
+import { estimateSkewDegrees, otsuThreshold } from "./imagePreprocess";
+
+// Local checks for photos the model is likely to misread, so we can warn before spending an API call.
+
+export type ImageQualityIssue = 'blurry' | 'tooDark' | 'tooBright' | 'glare' | 'tilted' | 'textTooSmall';
+
+/** The analysis works on a copy this size; larger adds time without changing the verdicts. */
+const ANALYSIS_SIZE = 600;
+
+// Thresholds for the analysis copy. They lean lenient: a false warning costs the user a click, a missed one only an API call.
+const MIN_LAPLACIAN_VARIANCE = 80;
+const MIN_MEAN_LEVEL = 70;
+/** A washed-out photo is bright overall and has no properly dark ink anywhere. */
+const MAX_MEAN_LEVEL = 215;
+const MIN_INK_LEVEL = 130;
+const GLARE_GRID = 8;
+const GLARE_LEVEL = 250;
+const TILT_WARNING_DEGREES = 4;
+/** Text lines shorter than this, in pixels of the uploaded image, are hard for the model to read. */
+const MIN_TEXT_HEIGHT = 14;
+
+const laplacianVariance = (gray: Uint8Array, width: number, height: number): number => {
+    let sum = 0;
+    let sumOfSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+            sum += value;
+            sumOfSquares += value * value;
+            count++;
+        }
+    }
+    if (count === 0) return Infinity;
+    const mean = sum / count;
+    return sumOfSquares / count - mean * mean;
+};
+
+const percentile = (histogram: Uint32Array, total: number, fraction: number): number => {
+    let count = 0;
+    for (let level = 0; level < 256; level++) {
+        count += histogram[level];
+        if (count >= total * fraction) return level;
+    }
+    return 255;
+};
+
+/**
+ * Glare shows as a blown-out patch that is much brighter than the paper around it.
+ * Compares each cell of a grid with the typical cell, so evenly white paper is not flagged.
+ */
+const hasGlare = (gray: Uint8Array, width: number, height: number): boolean => {
+    const cellWidth = Math.floor(width / GLARE_GRID);
+    const cellHeight = Math.floor(height / GLARE_GRID);
+    if (cellWidth < 4 || cellHeight < 4) return false;
+
+    const cells: { mean: number; saturated: number }[] = [];
+    for (let row = 0; row < GLARE_GRID; row++) {
+        for (let column = 0; column < GLARE_GRID; column++) {
+            let sum = 0;
+            let saturated = 0;
+            for (let y = row * cellHeight; y < (row + 1) * cellHeight; y++) {
+                for (let x = column * cellWidth; x < (column + 1) * cellWidth; x++) {
+                    const value = gray[y * width + x];
+                    sum += value;
+                    if (value >= GLARE_LEVEL) saturated++;
+                }
+            }
+            const size = cellWidth * cellHeight;
+            cells.push({ mean: sum / size, saturated: saturated / size });
+        }
+    }
+    const means = cells.map(cell => cell.mean).sort((a, b) => a - b);
+    const typical = means[Math.floor(means.length / 2)];
+    return cells.some(cell => cell.saturated > 0.6 && cell.mean - typical > 35);
+};
+
+/** The median height of the bands of rows that contain ink, i.e. the typical text line height. */
+const medianTextHeight = (gray: Uint8Array, width: number, height: number, threshold: number): number | null => {
+    const runs: number[] = [];
+    let run = 0;
+    for (let y = 0; y <= height; y++) {
+        let ink = 0;
+        if (y < height) {
+            for (let x = 0; x < width; x++) {
+                if (gray[y * width + x] <= threshold) ink++;
+            }
+        }
+        // A row belongs to a text line when a little of it is ink; stray specks are ignored.
+        if (y < height && ink > width * 0.01) {
+            run++;
+        } else if (run > 0) {
+            if (run > 1) runs.push(run);
+            run = 0;
+        }
+    }
+    if (runs.length === 0) return null;
+    runs.sort((a, b) => a - b);
+    return runs[Math.floor(runs.length / 2)];
+};
+
+/**
+ * Checks a greyscale image for the problems listed in the photo tips.
+ * @param gray Grey levels, one byte per pixel.
+ * @param width The image width.
+ * @param height The image height.
+ * @param uploadScale How many pixels of the uploaded image one pixel of `gray` stands for.
+ * @returns The issues found, in order of importance.
+ */
+export const assessGrayImage = (gray: Uint8Array, width: number, height: number, uploadScale = 1): ImageQualityIssue[] => {
+    const issues: ImageQualityIssue[] = [];
+    const histogram = new Uint32Array(256);
+    let sum = 0;
+    gray.forEach(value => {
+        histogram[value]++;
+        sum += value;
+    });
+    const mean = sum / gray.length;
+
+    if (mean < MIN_MEAN_LEVEL) {
+        issues.push('tooDark');
+    } else if (mean > MAX_MEAN_LEVEL && percentile(histogram, gray.length, 0.005) > MIN_INK_LEVEL) {
+        issues.push('tooBright');
+    }
+    if (laplacianVariance(gray, width, height) < MIN_LAPLACIAN_VARIANCE) {
+        issues.push('blurry');
+    }
+    if (hasGlare(gray, width, height)) {
+        issues.push('glare');
+    }
+    if (Math.abs(estimateSkewDegrees(gray, width, height)) > TILT_WARNING_DEGREES) {
+        issues.push('tilted');
+    }
+    const textHeight = medianTextHeight(gray, width, height, otsuThreshold(histogram));
+    if (textHeight !== null && textHeight * uploadScale < MIN_TEXT_HEIGHT) {
+        issues.push('textTooSmall');
+    }
+    return issues;
+};
+
+/**
+ * Checks an image before it is sent for solving.
+ * @param image The image at the size it will be uploaded, before any contrast enhancement or thresholding.
+ * @returns The issues found; empty when the photo looks fine.
+ */
+export const analyzeImageQuality = async (image: Blob | HTMLCanvasElement): Promise<ImageQualityIssue[]> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const gray = new Uint8Array(canvas.width * canvas.height);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+    return assessGrayImage(gray, canvas.width, canvas.height, 1 / scale);
+};
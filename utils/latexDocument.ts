@@ -0,0 +1,167 @@
+import type { DocumentProblem, Language, StructuredSolution } from '../types';
+import { getMessages, stepExplanations } from '../i18n/messages';
+
+// Builds a standalone, compilable LaTeX document from solutions, for students who hand in typeset work.
+
+// XeLaTeX shapes Khmer through HarfBuzz; Kantumruy Pro (the app's font) also covers Latin, so one font serves both.
+const PREAMBLE = String.raw`% Compile with XeLaTeX, e.g. "xelatex limit-solution.tex".
+% The Khmer text needs the Kantumruy Pro font (https://fonts.google.com/specimen/Kantumruy+Pro) installed.
+\documentclass[12pt,a4paper]{article}
+\usepackage[margin=2cm]{geometry}
+\usepackage{amsmath,amssymb}
+\usepackage{fontspec}
+\setmainfont{Kantumruy Pro}[Script=Khmer]
+% Khmer does not put spaces between words; let XeTeX break lines at syllable boundaries.
+\XeTeXlinebreaklocale "km"
+\XeTeXlinebreakskip = 0pt plus 1pt
+\setlength{\parindent}{0pt}
+\setlength{\parskip}{0.6em}
+`;
+
+const TEXT_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '#': '\\#',
+    '$': '\\$',
+    '%': '\\%',
+    '&': '\\&',
+    '_': '\\_',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+/** Escapes plain text (without math) so LaTeX prints it literally. */
+const escapeLatexText = (text: string): string =>
+    text.replace(/[\\{}#$%&_~^]/g, ch => TEXT_ESCAPES[ch]);
+
+// Math spans are swapped for NUL-delimited placeholders so escaping and line handling leave them untouched.
+const MATH_SPAN = /\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g;
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+const convertInline = (line: string): string => {
+    let bold = false;
+    const converted = escapeLatexText(line).replace(/\*\*/g, () => {
+        bold = !bold;
+        return bold ? '\\textbf{' : '}';
+    });
+    return bold ? `${converted}}` : converted;
+};
+
+/**
+ * Converts the Markdown subset the model writes (headings, bold, lists, `$`/`$$` math) to LaTeX.
+ * @param markdown The Markdown text.
+ * @returns LaTeX body text.
+ */
+export const markdownToLatex = (markdown: string): string => {
+    const math: string[] = [];
+    const text = markdown.replace(MATH_SPAN, (_match, display: string | undefined, inline: string | undefined) => {
+        math.push(display !== undefined ? `\\[ ${display.trim()} \\]` : `$${inline}$`);
+        return `\u0000${math.length - 1}\u0000`;
+    });
+
+    const output: string[] = [];
+    let openList: 'itemize' | 'enumerate' | null = null;
+    const closeList = () => {
+        if (openList) output.push(`\\end{${openList}}`);
+        openList = null;
+    };
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        const heading = line.match(/^(#{1,3})\s+(.*)$/);
+        const bullet = line.match(/^[-*]\s+(.*)$/);
+        const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+        if (heading) {
+            closeList();
+            const command = ['section', 'subsection', 'subsubsection'][heading[1].length - 1];
+            output.push(`\\${command}*{${convertInline(heading[2])}}`);
+        } else if (bullet || numbered) {
+            const kind = bullet ? 'itemize' : 'enumerate';
+            if (openList !== kind) {
+                closeList();
+                output.push(`\\begin{${kind}}`);
+                openList = kind;
+            }
+            output.push(`  \\item ${convertInline((bullet ?? numbered)![1])}`);
+        } else if (!line) {
+            closeList();
+            output.push('');
+        } else {
+            if (openList && /^\s/.test(rawLine)) {
+                // An indented continuation of the previous list item.
+                output.push(`    ${convertInline(line)}`);
+                continue;
+            }
+            closeList();
+            output.push(convertInline(line));
+        }
+    }
+    closeList();
+
+    return output.join('\n').replace(PLACEHOLDER, (_match, index: string) => math[Number(index)]);
+};
+
+/** The language of a document's labels and explanations; `bilingual` also adds each step's other-language explanation. */
+export interface LatexDocumentOptions {
+    language: Language;
+    bilingual: boolean;
+}
+
+const structuredSolutionToLatex = (solution: StructuredSolution, { language, bilingual }: LatexDocumentOptions): string => {
+    const t = getMessages(language);
+    const lines = [`\\[ ${solution.problemLatex} \\]`];
+    if (solution.limitForm.trim()) {
+        lines.push(`${t.solution.indeterminateForm} $${solution.limitForm}$`);
+    }
+    if (solution.steps.length > 0) {
+        lines.push('\\begin{enumerate}');
+        for (const step of solution.steps) {
+            const [first, ...others] = stepExplanations(step, language, bilingual).map(({ text }) => markdownToLatex(text));
+            lines.push(`  \\item ${first ?? ''}`);
+            others.forEach(text => lines.push(`\n  {\\itshape ${text}}`));
+            if (step.latex.trim()) lines.push(`  \\[ ${step.latex} \\]`);
+        }
+        lines.push('\\end{enumerate}');
+    }
+    lines.push(`\\textbf{${t.solution.finalAnswer}}\n\\[ \\boxed{${solution.finalAnswerLatex}} \\]`);
+    return lines.join('\n');
+};
+
+/**
+ * Builds a complete `.tex` document for one solution or a numbered worksheet of several.
+ * Photos are not embedded (a `.tex` file cannot carry them); each problem is typeset from its recognized LaTeX.
+ * @param problems The solved problems, in order.
+ * @param title The document title.
+ * @param options The language to write labels and explanations in.
+ * @returns The LaTeX source.
+ */
+export const buildLatexDocument = (
+    problems: DocumentProblem[],
+    title: string,
+    options: LatexDocumentOptions = { language: 'km', bilingual: false },
+): string => {
+    const t = getMessages(options.language);
+    const sections = problems.map((problem, index) => {
+        const heading = problems.length > 1 ? `\\section*{${t.common.problemNumber(index + 1)}}\n` : '';
+        // Both solution shapes restate the problem (in `problemLatex` or the Markdown heading).
+        const body = typeof problem.solution === 'string'
+            ? markdownToLatex(problem.solution)
+            : structuredSolutionToLatex(problem.solution, options);
+        return `${heading}${body}`;
+    });
+
+    return `${PREAMBLE}
+\\title{${escapeLatexText(title)}}
+\\author{}
+\\date{}
+
+\\begin{document}
+\\maketitle
+
+${sections.join('\n\n\\bigskip\n\n')}
+
+\\end{document}
+`;
+};
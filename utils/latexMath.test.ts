@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { evaluate, LatexParseError, parseLatexExpression, parseLimitHeading, parseLimitLatex, readBraceGroup } from './latexMath';
+
+const valueAt = (latex: string, x: number, variable = 'x') => evaluate(parseLatexExpression(latex, variable), x);
+
+describe('parseLatexExpression', () => {
+    it('follows operator precedence and implicit multiplication', () => {
+        expect(valueAt('2 + 3x^2', 2)).toBe(14);
+        expect(valueAt('2x(x+1)', 3)).toBe(24);
+        expect(valueAt('-x^2', 3)).toBe(-9);
+        expect(valueAt('6 \\div 2 \\cdot 3', 0)).toBe(9);
+    });
+
+    it('reads braced fractions and roots', () => {
+        expect(valueAt('\\frac{x^2-1}{x-1}', 3)).toBe(4);
+        expect(valueAt('\\dfrac{1}{x}', 4)).toBe(0.25);
+        expect(valueAt('\\sqrt{x}', 9)).toBe(3);
+        expect(valueAt('\\sqrt[3]{x}', -8)).toBe(-2);
+    });
+
+    it('reads single-token arguments of \\frac and \\sqrt, as LaTeX does', () => {
+        expect(valueAt('\\frac12', 0)).toBe(0.5);
+        expect(valueAt('\\frac\\pi2', 0)).toBeCloseTo(Math.PI / 2);
+        expect(valueAt('\\frac1x', 4)).toBe(0.25);
+        expect(valueAt('\\sqrt2', 0)).toBeCloseTo(Math.SQRT2);
+        expect(valueAt('\\sqrt2x', 3)).toBeCloseTo(3 * Math.SQRT2);
+    });
+
+    it('splits a digit run after ^ into its first digit and the rest', () => {
+        expect(valueAt('x^23', 3)).toBe(27);
+        expect(valueAt('x^{23}', 1)).toBe(1);
+        expect(valueAt('e^-x', 0)).toBe(1);
+    });
+
+    it('reads functions with and without parentheses', () => {
+        expect(valueAt('\\sin(2x)', Math.PI / 4)).toBeCloseTo(1);
+        expect(valueAt('\\sin 2x', Math.PI / 4)).toBeCloseTo(1);
+        expect(valueAt('\\ln x^2', Math.E)).toBeCloseTo(2);
+        expect(valueAt('\\log_2 x', 8)).toBeCloseTo(3);
+        expect(valueAt('\\sin^{-1} x', 1)).toBeCloseTo(Math.PI / 2);
+        expect(valueAt('\\sin^2 x', Math.PI / 2)).toBeCloseTo(1);
+        expect(valueAt('\\operatorname{tanh} x', 0)).toBe(0);
+    });
+
+    it('reads absolute values and ignores sizing commands', () => {
+        expect(valueAt('|x - 3|', 1)).toBe(2);
+        expect(valueAt('\\left( x + 1 \\right)^2', 2)).toBe(9);
+    });
+
+    it('uses the given variable', () => {
+        expect(valueAt('n^2', 3, 'n')).toBe(9);
+    });
+
+    it('rejects unknown symbols, commands and malformed input', () => {
+        expect(() => parseLatexExpression('y + 1')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('\\foo x')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('\\frac{1}')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('(x + 1')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('x +')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('x^')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('x # 2')).toThrow(LatexParseError);
+        expect(() => parseLatexExpression('\\sqrt[1.5]{x}')).toThrow(LatexParseError);
+    });
+});
+
+describe('evaluate', () => {
+    it('returns NaN outside the domain', () => {
+        expect(valueAt('\\sqrt{x}', -1)).toBeNaN();
+        expect(valueAt('\\ln x', -1)).toBeNaN();
+    });
+
+    it('keeps odd roots of negative numbers real', () => {
+        expect(valueAt('x^{1/3}', -8)).toBeCloseTo(-2);
+        expect(valueAt('x^{1/2}', -4)).toBeNaN();
+    });
+});
+
+describe('readBraceGroup', () => {
+    it('reads a nested group and where it ends', () => {
+        expect(readBraceGroup('a{b{c}d}e', 1)).toEqual({ content: 'b{c}d', end: 8 });
+    });
+
+    it('skips escaped braces', () => {
+        expect(readBraceGroup('{\\{x}', 0)).toEqual({ content: '\\{x', end: 5 });
+    });
+
+    it('returns null when the text does not start a group there or it never closes', () => {
+        expect(readBraceGroup('abc', 0)).toBeNull();
+        expect(readBraceGroup('{abc', 0)).toBeNull();
+    });
+});
+
+describe('parseLimitLatex', () => {
+    it('reads the variable, approach point and expression', () => {
+        const problem = parseLimitLatex('\\lim_{x \\to 2} \\frac{x^2-4}{x-2}');
+        expect(problem?.variable).toBe('x');
+        expect(problem?.approach).toEqual({ kind: 'finite', value: 2, side: 'both' });
+        expect(problem?.expressionLatex).toBe('\\frac{x^2-4}{x-2}');
+        expect(problem && evaluate(problem.expression, 3)).toBe(5);
+    });
+
+    it('reads one-sided limits and limits at infinity', () => {
+        expect(parseLimitLatex('\\lim_{x \\to 0^+} \\ln x')?.approach).toEqual({ kind: 'finite', value: 0, side: 'right' });
+        expect(parseLimitLatex('\\lim_{x \\to 1^{-}} x')?.approach).toEqual({ kind: 'finite', value: 1, side: 'left' });
+        expect(parseLimitLatex('\\lim_{n \\to -\\infty} n')?.approach).toEqual({ kind: 'infinity', sign: -1 });
+        expect(parseLimitLatex('\\lim\\limits_{x \\rightarrow \\frac{\\pi}{2}} \\sin x')?.approach).toMatchObject({ value: Math.PI / 2 });
+    });
+
+    it('cuts the expression at the first =', () => {
+        const problem = parseLimitLatex('\\lim_{x \\to 0} \\frac{\\sin x}{x} = 1');
+        expect(problem?.expressionLatex).toBe('\\frac{\\sin x}{x}');
+    });
+
+    it('returns null for notation it does not understand', () => {
+        expect(parseLimitLatex('\\frac{1}{x}')).toBeNull();
+        expect(parseLimitLatex('\\lim x')).toBeNull();
+        expect(parseLimitLatex('\\lim_{x = 0} x')).toBeNull();
+        expect(parseLimitLatex('\\lim_{x \\to 0}')).toBeNull();
+        expect(parseLimitLatex('\\lim_{x \\to 0} \\foo x')).toBeNull();
+        expect(parseLimitLatex('\\lim_{x \\to y} x')).toBeNull();
+    });
+});
+
+describe('parseLimitHeading', () => {
+    it('reads the limit from the first heading of a Markdown solution', () => {
+        const problem = parseLimitHeading('intro\n## $\\lim_{x \\to 3} x^2$\nsteps');
+        expect(problem?.approach).toEqual({ kind: 'finite', value: 3, side: 'both' });
+    });
+
+    it('returns null without a heading', () => {
+        expect(parseLimitHeading('$\\lim_{x \\to 3} x^2$')).toBeNull();
+    });
+});
@@ -0,0 +1,485 @@
+// A small LaTeX-to-expression parser covering the notation that shows up in school limit problems:
+// \frac, \sqrt, powers, absolute values, trig/log/exp functions, implicit multiplication and constants.
+// It intentionally rejects anything it does not understand so callers can fall back gracefully.
+
+export type MathNode =
+    | { type: 'num'; value: number }
+    | { type: 'var' }
+    | { type: 'neg'; arg: MathNode }
+    | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+    | { type: 'func'; name: string; arg: MathNode }
+    | { type: 'root'; index: number; arg: MathNode }
+    | { type: 'log'; base: MathNode; arg: MathNode };
+
+export class LatexParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LatexParseError';
+    }
+}
+
+/** Where the limit variable is heading: a finite point (optionally one-sided) or ±∞. */
+export type ApproachPoint =
+    | { kind: 'finite'; value: number; side: 'both' | 'left' | 'right' }
+    | { kind: 'infinity'; sign: 1 | -1 };
+
+export interface LimitProblem {
+    variable: string;
+    approach: ApproachPoint;
+    expression: MathNode;
+    /** The LaTeX of the function being limited, as it appeared after `\lim_{...}`. */
+    expressionLatex: string;
+}
+
+type Token =
+    | { type: 'num'; text: string }
+    | { type: 'ident'; text: string }
+    | { type: 'cmd'; text: string }
+    | { type: 'op'; text: string };
+
+const FUNCTIONS = new Set([
+    'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan',
+    'sinh', 'cosh', 'tanh', 'ln', 'log', 'exp',
+]);
+
+const INVERSE_TRIG: Record<string, string> = { sin: 'arcsin', cos: 'arccos', tan: 'arctan' };
+
+// Spacing and sizing commands that carry no mathematical meaning.
+const IGNORED_COMMANDS = new Set([
+    'left', 'right', 'displaystyle', 'textstyle', 'limits', 'big', 'Big', 'bigg', 'Bigg',
+    'quad', 'qquad', ',', ';', '!', ':', ' ',
+]);
+
+const tokenize = (latex: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < latex.length) {
+        const ch = latex[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9.]/.test(ch)) {
+            let j = i;
+            while (j < latex.length && /[0-9.]/.test(latex[j])) j++;
+            tokens.push({ type: 'num', text: latex.slice(i, j) });
+            i = j;
+        } else if (/[a-zA-Z]/.test(ch)) {
+            tokens.push({ type: 'ident', text: ch });
+            i++;
+        } else if (ch === '\\') {
+            let j = i + 1;
+            if (/[a-zA-Z]/.test(latex[j] ?? '')) {
+                while (j < latex.length && /[a-zA-Z]/.test(latex[j])) j++;
+            } else {
+                j++;
+            }
+            const name = latex.slice(i + 1, j);
+            i = j;
+            if (IGNORED_COMMANDS.has(name)) continue;
+            if (name === 'cdot' || name === 'times') tokens.push({ type: 'op', text: '*' });
+            else if (name === 'div') tokens.push({ type: 'op', text: '/' });
+            else if (name === '{' || name === 'lbrace') tokens.push({ type: 'op', text: '(' });
+            else if (name === '}' || name === 'rbrace') tokens.push({ type: 'op', text: ')' });
+            else if (name === 'lvert' || name === 'rvert' || name === 'vert') tokens.push({ type: 'op', text: '|' });
+            else tokens.push({ type: 'cmd', text: name });
+        } else if ('+-*/^_()[]{}|'.includes(ch)) {
+            tokens.push({ type: 'op', text: ch });
+            i++;
+        } else {
+            throw new LatexParseError(`Unsupported character "${ch}"`);
+        }
+    }
+    return tokens;
+};
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+class Parser {
+    private pos = 0;
+    private absDepth = 0;
+
+    constructor(private tokens: Token[], private variable: string) {}
+
+    parse(): MathNode {
+        const node = this.parseExpression();
+        if (this.pos < this.tokens.length) {
+            throw new LatexParseError(`Unexpected token "${this.tokens[this.pos].text}"`);
+        }
+        return node;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private isOp(text: string): boolean {
+        const token = this.peek();
+        return !!token && token.type === 'op' && token.text === text;
+    }
+
+    private expectOp(text: string): void {
+        if (!this.isOp(text)) {
+            throw new LatexParseError(`Expected "${text}"`);
+        }
+        this.pos++;
+    }
+
+    private parseExpression(): MathNode {
+        let node = this.parseTerm();
+        while (this.isOp('+') || this.isOp('-')) {
+            const op = this.tokens[this.pos++].text as '+' | '-';
+            node = { type: 'binary', op, left: node, right: this.parseTerm() };
+        }
+        return node;
+    }
+
+    private parseTerm(): MathNode {
+        let node = this.parseUnary();
+        for (;;) {
+            if (this.isOp('*') || this.isOp('/')) {
+                const op = this.tokens[this.pos++].text as '*' | '/';
+                node = { type: 'binary', op, left: node, right: this.parseUnary() };
+            } else if (this.startsAtom()) {
+                node = { type: 'binary', op: '*', left: node, right: this.parsePower() };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private parseUnary(): MathNode {
+        if (this.isOp('-')) {
+            this.pos++;
+            return { type: 'neg', arg: this.parseUnary() };
+        }
+        if (this.isOp('+')) {
+            this.pos++;
+            return this.parseUnary();
+        }
+        return this.parsePower();
+    }
+
+    private startsAtom(): boolean {
+        const token = this.peek();
+        if (!token) return false;
+        if (token.type !== 'op') return true;
+        if (token.text === '|') return this.absDepth === 0;
+        return token.text === '(' || token.text === '[' || token.text === '{';
+    }
+
+    private parsePower(): MathNode {
+        const base = this.parseAtom();
+        if (this.isOp('^')) {
+            this.pos++;
+            return { type: 'binary', op: '^', left: base, right: this.parseScript() };
+        }
+        return base;
+    }
+
+    /** Parses a `^`/`_` argument, which unlike a command argument may be negated. */
+    private parseScript(): MathNode {
+        if (!this.peek()) throw new LatexParseError('Missing exponent');
+        if (this.isOp('-')) {
+            this.pos++;
+            return { type: 'neg', arg: this.parseArgument() };
+        }
+        return this.parseArgument();
+    }
+
+    /** Parses a script or command argument: a braced group, or (as in LaTeX) a single character or command. */
+    private parseArgument(): MathNode {
+        const token = this.peek();
+        if (!token) throw new LatexParseError('Missing argument');
+        if (token.type === 'num' && token.text.length > 1) {
+            // `x^23` means x² · 3 and `\frac12` means ½ in LaTeX; split the digit run.
+            this.tokens.splice(this.pos, 1, { type: 'num', text: token.text[0] }, { type: 'num', text: token.text.slice(1) });
+        }
+        return this.parseAtom();
+    }
+
+    private parseGroup(): MathNode {
+        const token = this.peek();
+        if (!token || token.type !== 'op' || !CLOSING[token.text]) {
+            throw new LatexParseError('Expected a group');
+        }
+        this.pos++;
+        const node = this.parseExpression();
+        this.expectOp(CLOSING[token.text]);
+        return node;
+    }
+
+    private parseAtom(): MathNode {
+        const token = this.peek();
+        if (!token) throw new LatexParseError('Unexpected end of expression');
+
+        if (token.type === 'num') {
+            this.pos++;
+            const value = Number(token.text);
+            if (Number.isNaN(value)) throw new LatexParseError(`Invalid number "${token.text}"`);
+            return { type: 'num', value };
+        }
+
+        if (token.type === 'ident') {
+            this.pos++;
+            if (token.text === this.variable) return { type: 'var' };
+            if (token.text === 'e') return { type: 'num', value: Math.E };
+            throw new LatexParseError(`Unknown symbol "${token.text}"`);
+        }
+
+        if (token.type === 'op') {
+            if (token.text === '|') {
+                this.pos++;
+                this.absDepth++;
+                const arg = this.parseExpression();
+                this.absDepth--;
+                this.expectOp('|');
+                return { type: 'func', name: 'abs', arg };
+            }
+            if (CLOSING[token.text]) return this.parseGroup();
+            throw new LatexParseError(`Unexpected "${token.text}"`);
+        }
+
+        this.pos++;
+        const name = token.text;
+        switch (name) {
+            case 'frac':
+            case 'dfrac':
+            case 'tfrac': {
+                const numerator = this.parseArgument();
+                const denominator = this.parseArgument();
+                return { type: 'binary', op: '/', left: numerator, right: denominator };
+            }
+            case 'sqrt': {
+                let index = 2;
+                if (this.isOp('[')) {
+                    const indexNode = this.parseGroup();
+                    index = evaluate(indexNode, NaN);
+                    if (!Number.isInteger(index) || index < 2) throw new LatexParseError('Unsupported root index');
+                }
+                return { type: 'root', index, arg: this.parseArgument() };
+            }
+            case 'pi':
+                return { type: 'num', value: Math.PI };
+            case 'infty':
+                return { type: 'num', value: Infinity };
+            case 'mathrm':
+            case 'boxed':
+                return this.parseGroup();
+            case 'operatorname': {
+                this.expectOp('{');
+                let fn = '';
+                while (this.peek()?.type === 'ident') fn += this.tokens[this.pos++].text;
+                this.expectOp('}');
+                if (!FUNCTIONS.has(fn)) throw new LatexParseError(`Unsupported function "${fn}"`);
+                return this.parseFunction(fn);
+            }
+            default:
+                if (FUNCTIONS.has(name)) return this.parseFunction(name);
+                throw new LatexParseError(`Unsupported command "\\${name}"`);
+        }
+    }
+
+    private parseFunction(name: string): MathNode {
+        let fn = name;
+        let base: MathNode | null = null;
+        let power: MathNode | null = null;
+
+        if (fn === 'log' && this.isOp('_')) {
+            this.pos++;
+            base = this.parseScript();
+        }
+        if (this.isOp('^')) {
+            this.pos++;
+            power = this.parseScript();
+            // `\sin^{-1}` is the inverse function, not a reciprocal.
+            if (power.type === 'neg' && power.arg.type === 'num' && power.arg.value === 1 && INVERSE_TRIG[fn]) {
+                fn = INVERSE_TRIG[fn];
+                power = null;
+            }
+        }
+
+        const arg = this.parseFunctionArgument();
+        const call: MathNode = fn === 'log'
+            ? { type: 'log', base: base ?? { type: 'num', value: 10 }, arg }
+            : { type: 'func', name: fn, arg };
+        return power ? { type: 'binary', op: '^', left: call, right: power } : call;
+    }
+
+    /** `\sin(2x)`, `\sin 2x` and `\ln x^2` are all accepted; a bare argument stops at the next operator or function. */
+    private parseFunctionArgument(): MathNode {
+        const token = this.peek();
+        if (token?.type === 'op' && (token.text === '(' || token.text === '[' || token.text === '{')) {
+            return this.parseGroup();
+        }
+        let node = this.parsePower();
+        for (;;) {
+            const next = this.peek();
+            if (!next || next.type === 'op' || (next.type === 'cmd' && FUNCTIONS.has(next.text))) return node;
+            node = { type: 'binary', op: '*', left: node, right: this.parsePower() };
+        }
+    }
+}
+
+/**
+ * Parses a LaTeX math expression in a single variable.
+ * @param latex The expression, without surrounding `$` delimiters.
+ * @param variable The name of the free variable (e.g. `x`).
+ * @returns The expression tree. Throws `LatexParseError` for unsupported notation.
+ */
+export const parseLatexExpression = (latex: string, variable = 'x'): MathNode => {
+    return new Parser(tokenize(latex), variable).parse();
+};
+
+// Real-valued power that keeps odd roots of negative numbers, e.g. (-8)^{1/3} = -2.
+const realPow = (base: number, exponent: number): number => {
+    if (base >= 0 || Number.isInteger(exponent)) return Math.pow(base, exponent);
+    for (let q = 3; q <= 15; q += 2) {
+        const p = exponent * q;
+        if (Math.abs(p - Math.round(p)) < 1e-9) {
+            const magnitude = Math.pow(-base, exponent);
+            return Math.round(p) % 2 === 0 ? magnitude : -magnitude;
+        }
+    }
+    return NaN;
+};
+
+/**
+ * Evaluates an expression tree at a point.
+ * @param node The parsed expression.
+ * @param x The value of the free variable.
+ * @returns The real value, or NaN outside the domain.
+ */
+export const evaluate = (node: MathNode, x: number): number => {
+    switch (node.type) {
+        case 'num':
+            return node.value;
+        case 'var':
+            return x;
+        case 'neg':
+            return -evaluate(node.arg, x);
+        case 'binary': {
+            const a = evaluate(node.left, x);
+            const b = evaluate(node.right, x);
+            switch (node.op) {
+                case '+': return a + b;
+                case '-': return a - b;
+                case '*': return a * b;
+                case '/': return a / b;
+                case '^': return realPow(a, b);
+            }
+        }
+        case 'root': {
+            const value = evaluate(node.arg, x);
+            if (value < 0) return node.index % 2 === 1 ? -Math.pow(-value, 1 / node.index) : NaN;
+            return Math.pow(value, 1 / node.index);
+        }
+        case 'log':
+            return Math.log(evaluate(node.arg, x)) / Math.log(evaluate(node.base, x));
+        case 'func': {
+            const v = evaluate(node.arg, x);
+            switch (node.name) {
+                case 'sin': return Math.sin(v);
+                case 'cos': return Math.cos(v);
+                case 'tan': return Math.tan(v);
+                case 'cot': return 1 / Math.tan(v);
+                case 'sec': return 1 / Math.cos(v);
+                case 'csc': return 1 / Math.sin(v);
+                case 'arcsin': return Math.asin(v);
+                case 'arccos': return Math.acos(v);
+                case 'arctan': return Math.atan(v);
+                case 'sinh': return Math.sinh(v);
+                case 'cosh': return Math.cosh(v);
+                case 'tanh': return Math.tanh(v);
+                case 'ln': return Math.log(v);
+                case 'exp': return Math.exp(v);
+                case 'abs': return Math.abs(v);
+                default: return NaN;
+            }
+        }
+    }
+};
+
+/** Reads a brace-delimited group starting at `start` (which must be `{`), honouring nesting. */
+export const readBraceGroup = (text: string, start: number): { content: string; end: number } | null => {
+    if (text[start] !== '{') return null;
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (text[i] === '{') depth++;
+        if (text[i] === '}') {
+            depth--;
+            if (depth === 0) return { content: text.slice(start + 1, i), end: i + 1 };
+        }
+    }
+    return null;
+};
+
+const parseApproach = (latex: string): ApproachPoint => {
+    let text = latex.trim();
+    const infinity = text.match(/^([+-]?)\s*\\infty$/);
+    if (infinity) return { kind: 'infinity', sign: infinity[1] === '-' ? -1 : 1 };
+
+    let side: 'both' | 'left' | 'right' = 'both';
+    const oneSided = text.match(/\^\s*(?:\{\s*([+-])\s*\}|([+-]))$/);
+    if (oneSided) {
+        side = (oneSided[1] ?? oneSided[2]) === '+' ? 'right' : 'left';
+        text = text.slice(0, oneSided.index).trim();
+    }
+    const value = evaluate(parseLatexExpression(text), NaN);
+    if (!Number.isFinite(value)) throw new LatexParseError('Approach point is not a finite constant');
+    return { kind: 'finite', value, side };
+};
+
+/**
+ * Parses a limit written as `\lim_{x \to a} f(x)` (optionally one-sided or at ±∞).
+ * Anything after a top-level `=` is ignored, so `\lim_{x \to 0} \frac{\sin x}{x} = 1` also works.
+ * @param latex The limit LaTeX, without `$` delimiters.
+ * @returns The parsed problem, or `null` if the notation is not understood.
+ */
+export const parseLimitLatex = (latex: string): LimitProblem | null => {
+    const limIndex = latex.indexOf('\\lim');
+    if (limIndex === -1) return null;
+
+    let i = limIndex + '\\lim'.length;
+    const afterLim = latex.slice(i).match(/^\s*(\\limits)?\s*_\s*/);
+    if (!afterLim) return null;
+    i += afterLim[0].length;
+
+    const subscript = readBraceGroup(latex, i);
+    if (!subscript) return null;
+
+    const arrow = subscript.content.match(/^\s*([a-zA-Z])\s*\\(?:to|rightarrow|longrightarrow)\s*(.+)$/);
+    if (!arrow) return null;
+
+    let expressionLatex = latex.slice(subscript.end);
+    const equalsIndex = expressionLatex.indexOf('=');
+    if (equalsIndex !== -1) expressionLatex = expressionLatex.slice(0, equalsIndex);
+    expressionLatex = expressionLatex.trim();
+    if (!expressionLatex) return null;
+
+    try {
+        const variable = arrow[1];
+        return {
+            variable,
+            approach: parseApproach(arrow[2]),
+            expression: parseLatexExpression(expressionLatex, variable),
+            expressionLatex,
+        };
+    } catch (error) {
+        if (error instanceof LatexParseError) return null;
+        throw error;
+    }
+};
+
+/**
+ * Finds the limit in the solution's first-line heading (`## $\lim_{x \to a} ...$`).
+ * @param markdown The full Markdown solution returned by the model.
+ * @returns The parsed problem, or `null` if there is no heading or it cannot be parsed.
+ */
+export const parseLimitHeading = (markdown: string): LimitProblem | null => {
+    const heading = markdown.split('\n').find(line => line.trim().startsWith('##'));
+    const math = heading?.match(/\$\$?([^$]+)\$\$?/);
+    return math ? parseLimitLatex(math[1]) : null;
+};
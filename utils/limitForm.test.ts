@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseLimitLatex } from './latexMath';
+import { classifyLimitForm } from './limitForm';
+
+const formOf = (latex: string) => {
+    const problem = parseLimitLatex(latex);
+    if (!problem) throw new Error(`Could not parse ${latex}`);
+    return classifyLimitForm(problem);
+};
+
+describe('classifyLimitForm', () => {
+    it('names the form of the top-level operation', () => {
+        expect(formOf('\\lim_{x \\to 1} \\frac{x^2-1}{x-1}')).toBe('zeroOverZero');
+        expect(formOf('\\lim_{x \\to \\infty} \\frac{2x+1}{x-3}')).toBe('infinityOverInfinity');
+        expect(formOf('\\lim_{x \\to \\infty} \\sqrt{x^2+x} - x')).toBe('infinityMinusInfinity');
+        expect(formOf('\\lim_{x \\to \\infty} \\left(1 + \\frac{1}{x}\\right)^x')).toBe('oneToInfinity');
+        expect(formOf('\\lim_{x \\to 0^+} x^x')).toBe('zeroToZero');
+    });
+
+    it('finds a form inside a subexpression', () => {
+        expect(formOf('\\lim_{x \\to 1} \\frac{x^2-1}{x-1} + 1')).toBe('zeroOverZero');
+        expect(formOf('\\lim_{x \\to 0} 2\\frac{\\sin x}{x}')).toBe('zeroOverZero');
+        expect(formOf('\\lim_{x \\to 0} -\\frac{\\sin x}{x}')).toBe('zeroOverZero');
+    });
+
+    it('classifies products with a logarithm as 0·∞', () => {
+        expect(formOf('\\lim_{x \\to 0} x \\ln x')).toBe('zeroTimesInfinity');
+        expect(formOf('\\lim_{x \\to 0^+} x^2 \\cdot \\ln x')).toBe('zeroTimesInfinity');
+    });
+
+    it('reports determinate limits', () => {
+        expect(formOf('\\lim_{x \\to 2} x^2 + 1')).toBe('determinate');
+        expect(formOf('\\lim_{x \\to 0} \\frac{1}{x^2}')).toBe('determinate');
+        expect(formOf('\\lim_{x \\to \\infty} x + \\ln x')).toBe('determinate');
+    });
+
+    it('returns null when a part cannot be estimated', () => {
+        expect(formOf('\\lim_{x \\to 0} \\sin\\frac{1}{x}')).toBeNull();
+        expect(formOf('\\lim_{x \\to 0} x + \\sin\\frac{1}{x}')).toBeNull();
+    });
+});
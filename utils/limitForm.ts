@@ -0,0 +1,127 @@
+import { estimateLimit, estimateOneSidedLimits } from './limitVerification';
+import type { LimitProblem, MathNode } from './latexMath';
+
+// Classifies a limit by the form direct substitution gives, from numeric limits of the parts of every operation in it.
+
+export type IndeterminateForm =
+    | 'zeroOverZero'
+    | 'infinityOverInfinity'
+    | 'infinityMinusInfinity'
+    | 'zeroTimesInfinity'
+    | 'oneToInfinity'
+    | 'zeroToZero'
+    | 'infinityToZero';
+
+/** Each form as LaTeX, without `$`. */
+export const INDETERMINATE_FORM_LATEX: Record<IndeterminateForm, string> = {
+    zeroOverZero: '\\frac{0}{0}',
+    infinityOverInfinity: '\\frac{\\infty}{\\infty}',
+    infinityMinusInfinity: '\\infty - \\infty',
+    zeroTimesInfinity: '0 \\cdot \\infty',
+    oneToInfinity: '1^{\\infty}',
+    zeroToZero: '0^{0}',
+    infinityToZero: '\\infty^{0}',
+};
+
+// The samples only get within about 1e-4 of the point, so a part's limit is only this close to 0 or 1.
+const TOLERANCE = 1e-3;
+
+const isZero = (value: number | undefined): boolean => value !== undefined && Math.abs(value) < TOLERANCE;
+const isOne = (value: number | undefined): boolean => value !== undefined && Math.abs(value - 1) < TOLERANCE;
+const isInfinite = (value: number | undefined): value is number => value !== undefined && !Number.isFinite(value) && !Number.isNaN(value);
+
+const LOGARITHMS = new Set(['ln', 'log']);
+
+// The limit of one part of the expression, taken from the side the problem asks about (the right for two-sided limits).
+// Logarithms grow too slowly for the samples to show they diverge, so theirs is worked out from the limit of their argument.
+const partLimit = (problem: LimitProblem, expression: MathNode): number | undefined => {
+    const part = { ...problem, expression };
+    const { approach } = problem;
+    let value: number | undefined;
+    if (approach.kind === 'infinity') {
+        const estimate = estimateLimit(part);
+        value = typeof estimate === 'number' ? estimate : undefined;
+    } else {
+        const { left, right } = estimateOneSidedLimits(part, approach.value);
+        value = approach.side === 'left' ? left : right;
+    }
+    if (value !== undefined) return value;
+
+    if (expression.type === 'neg') {
+        const inner = partLimit(problem, expression.arg);
+        return inner === undefined ? undefined : -inner;
+    }
+    if (expression.type === 'func' && LOGARITHMS.has(expression.name)) {
+        const inner = partLimit(problem, expression.arg);
+        if (isZero(inner)) return -Infinity;
+        if (inner === Infinity) return Infinity;
+    }
+    return undefined;
+};
+
+const formOf = (op: Extract<MathNode, { type: 'binary' }>['op'], left: number, right: number): IndeterminateForm | null => {
+    switch (op) {
+        case '/':
+            if (isZero(left) && isZero(right)) return 'zeroOverZero';
+            if (isInfinite(left) && isInfinite(right)) return 'infinityOverInfinity';
+            break;
+        case '*':
+            if ((isZero(left) && isInfinite(right)) || (isInfinite(left) && isZero(right))) return 'zeroTimesInfinity';
+            break;
+        case '+':
+        case '-':
+            if (isInfinite(left) && isInfinite(right) && (op === '-' ? left === right : left !== right)) return 'infinityMinusInfinity';
+            break;
+        case '^':
+            if (isOne(left) && isInfinite(right)) return 'oneToInfinity';
+            if (isZero(left) && isZero(right)) return 'zeroToZero';
+            if (isInfinite(left) && isZero(right)) return 'infinityToZero';
+            break;
+    }
+    return null;
+};
+
+const childrenOf = (node: MathNode): MathNode[] => {
+    switch (node.type) {
+        case 'binary': return [node.left, node.right];
+        case 'log': return [node.base, node.arg];
+        case 'neg':
+        case 'func':
+        case 'root': return [node.arg];
+        default: return [];
+    }
+};
+
+// An operation is checked before its operands, so the outermost indeterminate form is the one reported.
+const classifyNode = (problem: LimitProblem, node: MathNode): IndeterminateForm | 'determinate' | null => {
+    let result: 'determinate' | null = 'determinate';
+    if (node.type === 'binary') {
+        const left = partLimit(problem, node.left);
+        const right = partLimit(problem, node.right);
+        if (left === undefined || right === undefined) {
+            result = null;
+        } else {
+            const form = formOf(node.op, left, right);
+            if (form) return form;
+        }
+    } else if (childrenOf(node).length > 0 && partLimit(problem, node) === undefined) {
+        result = null;
+    }
+    for (const child of childrenOf(node)) {
+        const form = classifyNode(problem, child);
+        if (form === null) {
+            result = null;
+        } else if (form !== 'determinate') {
+            return form;
+        }
+    }
+    return result;
+};
+
+/**
+ * Works out which indeterminate form, if any, direct substitution gives.
+ * @param problem The parsed limit.
+ * @returns The form, `'determinate'` when substitution is not indeterminate, or `null` when none was found but some part's limit could not be estimated.
+ */
+export const classifyLimitForm = (problem: LimitProblem): IndeterminateForm | 'determinate' | null =>
+    classifyNode(problem, problem.expression);
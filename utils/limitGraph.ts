@@ -0,0 +1,166 @@
+import { evaluate, type LimitProblem, type MathNode } from './latexMath';
+import { estimateLimit, estimateOneSidedLimits } from './limitVerification';
+
+// The numbers behind the graph of a limit problem's function: what to mark, the initial window and the curve.
+// Everything is computed here so the graph component only has to draw it.
+
+export interface Viewport {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+}
+
+export interface PlotPoint {
+    x: number;
+    y: number;
+}
+
+/** What the graph marks besides the curve. Values are numbers; one-sided limits may be ±Infinity. */
+export interface LimitGraphFeatures {
+    /** The point the variable approaches; absent for limits at ±∞. */
+    approachX?: number;
+    leftValue?: number;
+    rightValue?: number;
+    /** Where the curve has a gap: both sides tend to the same finite value, which the function does not take there. */
+    hole?: PlotPoint;
+    /** The function's value at the approach point, when it is defined there. */
+    valueAt?: PlotPoint;
+    verticalAsymptote?: number;
+    /** The finite value approached at ±∞. */
+    horizontalAsymptote?: number;
+}
+
+const SAMPLES = 600;
+// The y-window ignores the most extreme samples so an asymptote doesn't flatten the rest of the curve.
+const Y_PERCENTILE = 0.1;
+const Y_PADDING = 0.2;
+const INFINITY_WINDOW = 20;
+
+const isClose = (a: number, b: number): boolean => Math.abs(a - b) <= 1e-3 * Math.max(1, Math.abs(a), Math.abs(b));
+
+/**
+ * Works out what to mark on the graph of a limit problem.
+ * @param problem The parsed limit.
+ * @returns The approach point, one-sided limits, hole and asymptotes that could be determined.
+ */
+export const analyzeLimitGraph = (problem: LimitProblem): LimitGraphFeatures => {
+    const { approach, expression } = problem;
+    if (approach.kind === 'infinity') {
+        const estimate = estimateLimit(problem);
+        return typeof estimate === 'number' && Number.isFinite(estimate) ? { horizontalAsymptote: estimate } : {};
+    }
+
+    const a = approach.value;
+    const { left, right } = estimateOneSidedLimits(problem, a);
+    const features: LimitGraphFeatures = { approachX: a, leftValue: left, rightValue: right };
+    const valueAtA = evaluate(expression, a);
+    if (Number.isFinite(valueAtA)) features.valueAt = { x: a, y: valueAtA };
+
+    if ((left !== undefined && !Number.isFinite(left)) || (right !== undefined && !Number.isFinite(right))) {
+        features.verticalAsymptote = a;
+    } else if (left !== undefined && right !== undefined && isClose(left, right) && !(Number.isFinite(valueAtA) && isClose(valueAtA, right))) {
+        features.hole = { x: a, y: (left + right) / 2 };
+    }
+    return features;
+};
+
+/**
+ * Chooses the window first shown: around the approach point, or along the axis towards ±∞.
+ * @param problem The parsed limit.
+ * @param features The marks from `analyzeLimitGraph`, kept inside the window.
+ * @returns The viewport.
+ */
+export const defaultViewport = (problem: LimitProblem, features: LimitGraphFeatures): Viewport => {
+    const { approach } = problem;
+    let xMin: number;
+    let xMax: number;
+    if (approach.kind === 'infinity') {
+        [xMin, xMax] = approach.sign > 0 ? [0, INFINITY_WINDOW] : [-INFINITY_WINDOW, 0];
+    } else {
+        const halfWidth = Math.max(2, Math.abs(approach.value) / 2);
+        [xMin, xMax] = [approach.value - halfWidth, approach.value + halfWidth];
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i <= SAMPLES; i++) {
+        const y = evaluate(problem.expression, xMin + (i / SAMPLES) * (xMax - xMin));
+        if (Number.isFinite(y)) values.push(y);
+    }
+    values.sort((p, q) => p - q);
+    const marks = [features.leftValue, features.rightValue, features.hole?.y, features.valueAt?.y, features.horizontalAsymptote]
+        .filter((value): value is number => value !== undefined && Number.isFinite(value));
+    const low = Math.min(values[Math.floor(values.length * Y_PERCENTILE)] ?? 0, ...marks, 0);
+    const high = Math.max(values[Math.ceil(values.length * (1 - Y_PERCENTILE)) - 1] ?? 0, ...marks, 0);
+    const span = Math.max(high - low, 1);
+    return { xMin, xMax, yMin: low - span * Y_PADDING, yMax: high + span * Y_PADDING };
+};
+
+/**
+ * Samples the function across the viewport as polylines, broken wherever it is undefined or jumps across the window (an asymptote).
+ * @param expression The function.
+ * @param viewport The visible window.
+ * @returns The pieces of the curve, in data coordinates, with y clamped to just outside the window.
+ */
+export const sampleCurve = (expression: MathNode, viewport: Viewport): PlotPoint[][] => {
+    const { xMin, xMax, yMin, yMax } = viewport;
+    const height = yMax - yMin;
+    const segments: PlotPoint[][] = [];
+    let current: PlotPoint[] = [];
+    for (let i = 0; i <= SAMPLES; i++) {
+        const x = xMin + (i / SAMPLES) * (xMax - xMin);
+        const y = evaluate(expression, x);
+        const previous = current[current.length - 1];
+        if (!Number.isFinite(y) || (previous && Math.abs(y - previous.y) > height && Math.sign(y) !== Math.sign(previous.y))) {
+            if (current.length > 1) segments.push(current);
+            current = [];
+            if (!Number.isFinite(y)) continue;
+        }
+        current.push({ x, y: Math.min(yMax + height, Math.max(yMin - height, y)) });
+    }
+    if (current.length > 1) segments.push(current);
+    return segments;
+};
+
+/**
+ * Picks a round grid spacing (1, 2 or 5 times a power of ten) for a span.
+ * @param span The width or height of the window.
+ * @returns The spacing between grid lines.
+ */
+export const gridStep = (span: number): number => {
+    const raw = span / 8;
+    const magnitude = 10 ** Math.floor(Math.log10(raw));
+    const normalized = raw / magnitude;
+    return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+};
+
+/**
+ * Formats a value for the graph's labels as LaTeX, e.g. `0.25` or `+\infty`.
+ * @param value The value.
+ * @returns The LaTeX, without `$`.
+ */
+export const formatGraphValue = (value: number): string => {
+    if (value === Infinity) return '+\\infty';
+    if (value === -Infinity) return '-\\infty';
+    return Number(value.toPrecision(4)).toString();
+};
+
+/**
+ * Zooms a viewport about an anchor point.
+ * @param viewport The current window.
+ * @param factor Above 1 zooms out, below 1 zooms in.
+ * @param anchorX The anchor's position across the window, 0 (left) to 1 (right); it stays put on screen.
+ * @param anchorY The anchor's position down the window, 0 (top) to 1 (bottom).
+ * @returns The new window.
+ */
+export const zoomViewport = (viewport: Viewport, factor: number, anchorX = 0.5, anchorY = 0.5): Viewport => {
+    const { xMin, xMax, yMin, yMax } = viewport;
+    const x = xMin + anchorX * (xMax - xMin);
+    const y = yMax - anchorY * (yMax - yMin);
+    return {
+        xMin: x - (x - xMin) * factor,
+        xMax: x + (xMax - x) * factor,
+        yMin: y - (y - yMin) * factor,
+        yMax: y + (yMax - y) * factor,
+    };
+};
@@ -0,0 +1,220 @@
+import { evaluate, parseLatexExpression, parseLimitHeading, parseLimitLatex, readBraceGroup, LatexParseError, type LimitProblem, type MathNode } from './latexMath';
+import type { StructuredSolution } from '../types';
+
+export type VerificationStatus = 'verified' | 'disagrees' | 'unchecked';
+
+/**
+ * Outcome of checking the model's final answer against a numeric estimate.
+ * Values are stored as LaTeX strings so the result survives JSON (history) round-trips, where ±∞ would not.
+ */
+export interface LimitVerification {
+    status: VerificationStatus;
+    numericEstimate?: string;
+    modelAnswer?: string;
+}
+
+/** A limit value: a real number, ±Infinity, or `'dne'` when the one-sided limits differ. */
+type LimitValue = number | 'dne';
+
+// Step sizes 10^-2 … 10^-8 towards a finite point (10^2 … 10^8 towards ±∞); smaller steps lose to cancellation.
+const STEP_EXPONENTS = [2, 3, 4, 5, 6, 7, 8];
+const DIVERGENCE_THRESHOLD = 1e6;
+const RELATIVE_TOLERANCE = 1e-3;
+
+const sample = (expression: MathNode, points: number[]): number[] =>
+    points.map(x => evaluate(expression, x)).filter(v => !Number.isNaN(v));
+
+/**
+ * Estimates a limit from a sequence of samples taken ever closer to the approach point.
+ * Returns `undefined` when the samples neither settle nor blow up (oscillation, domain gaps).
+ */
+const estimateFromSamples = (values: number[]): number | undefined => {
+    if (values.length < 3) return undefined;
+
+    const tail = values.slice(-3);
+    const sameSign = tail.every(v => Math.sign(v) === Math.sign(tail[0]));
+    const growing = tail.every((v, i) => i === 0 || Math.abs(v) >= Math.abs(tail[i - 1]));
+    if (sameSign && growing && Math.abs(tail[2]) > DIVERGENCE_THRESHOLD) {
+        return tail[0] > 0 ? Infinity : -Infinity;
+    }
+
+    // Take the first pair of consecutive samples that agree; later samples are the most affected by round-off.
+    for (let i = 1; i < values.length; i++) {
+        const [previous, current] = [values[i - 1], values[i]];
+        if (!Number.isFinite(previous) || !Number.isFinite(current)) continue;
+        if (Math.abs(current - previous) <= 1e-4 * Math.max(1, Math.abs(current))) {
+            return current;
+        }
+    }
+    return undefined;
+};
+
+const estimateOneSided = (problem: LimitProblem, point: number, direction: 1 | -1): number | undefined => {
+    const scale = Math.max(1, Math.abs(point));
+    const points = STEP_EXPONENTS.map(k => point + direction * scale * Math.pow(10, -k));
+    return estimateFromSamples(sample(problem.expression, points));
+};
+
+/**
+ * Numerically estimates both one-sided limits at a point, whichever side the problem itself asks about.
+ * @param problem The parsed limit.
+ * @param point The point to approach.
+ * @returns Each side's estimate (possibly ±Infinity), or `undefined` for a side that could not be estimated.
+ */
+export const estimateOneSidedLimits = (problem: LimitProblem, point: number): { left?: number; right?: number } => ({
+    left: estimateOneSided(problem, point, -1),
+    right: estimateOneSided(problem, point, 1),
+});
+
+/**
+ * Numerically estimates a parsed limit from the relevant side(s).
+ * @param problem The parsed limit.
+ * @returns The estimate, `'dne'` if the one-sided limits disagree, or `undefined` if no estimate could be made.
+ */
+export const estimateLimit = (problem: LimitProblem): LimitValue | undefined => {
+    const { approach } = problem;
+    if (approach.kind === 'infinity') {
+        const points = STEP_EXPONENTS.map(k => approach.sign * Math.pow(10, k));
+        return estimateFromSamples(sample(problem.expression, points));
+    }
+    if (approach.side === 'left') return estimateOneSided(problem, approach.value, -1);
+    if (approach.side === 'right') return estimateOneSided(problem, approach.value, 1);
+
+    const left = estimateOneSided(problem, approach.value, -1);
+    const right = estimateOneSided(problem, approach.value, 1);
+    if (left === undefined || right === undefined) return undefined;
+    return valuesAgree(left, right) ? right : 'dne';
+};
+
+const valuesAgree = (a: LimitValue, b: LimitValue): boolean => {
+    if (a === 'dne' || b === 'dne') return a === b;
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return a === b;
+    return Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+};
+
+const mathSpans = (markdown: string): string[] =>
+    Array.from(markdown.matchAll(/\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g), m => (m[1] ?? m[2]).trim());
+
+/**
+ * Finds the model's final answer: a `\boxed{}` value if present, otherwise the right-hand side of
+ * the last equation in the solution.
+ * @param markdown The full Markdown solution.
+ * @returns The answer LaTeX, or `null` if none was found.
+ */
+export const extractFinalAnswer = (markdown: string): string | null => {
+    const spans = mathSpans(markdown);
+    for (let i = spans.length - 1; i >= 0; i--) {
+        const boxedIndex = spans[i].search(/\\boxed\s*\{/);
+        if (boxedIndex !== -1) {
+            const group = readBraceGroup(spans[i], spans[i].indexOf('{', boxedIndex));
+            if (group) return group.content.trim();
+        }
+    }
+    for (let i = spans.length - 1; i >= 0; i--) {
+        if (spans[i].includes('=')) {
+            const parts = spans[i].split('=');
+            return parts[parts.length - 1].trim();
+        }
+    }
+    return null;
+};
+
+const parseAnswer = (latex: string, variable: string): LimitValue | undefined => {
+    const text = latex.replace(/\\text\{[^}]*\}/g, '').replace(/[.,;]+$/, '').trim();
+    if (/\\nexists|\\not\\exists|DNE/.test(latex)) return 'dne';
+    const infinity = text.match(/^([+-]?)\s*\\infty$/);
+    if (infinity) return infinity[1] === '-' ? -Infinity : Infinity;
+    try {
+        const value = evaluate(parseLatexExpression(text, variable), NaN);
+        return Number.isNaN(value) ? undefined : value;
+    } catch (error) {
+        if (error instanceof LatexParseError) return undefined;
+        throw error;
+    }
+};
+
+const formatValue = (value: LimitValue): string => {
+    if (value === 'dne') return '\\nexists';
+    if (value === Infinity) return '+\\infty';
+    if (value === -Infinity) return '-\\infty';
+    return Number(value.toPrecision(5)).toString();
+};
+
+const verifyParsedLimit = (problem: LimitProblem | null, answerLatex: string | null): LimitVerification => {
+    const result: LimitVerification = { status: 'unchecked' };
+    if (answerLatex) result.modelAnswer = answerLatex;
+    if (!problem) return result;
+
+    const estimate = estimateLimit(problem);
+    if (estimate !== undefined) result.numericEstimate = formatValue(estimate);
+
+    const answer = answerLatex ? parseAnswer(answerLatex, problem.variable) : undefined;
+    if (estimate === undefined || answer === undefined) return result;
+
+    result.status = valuesAgree(estimate, answer) ? 'verified' : 'disagrees';
+    return result;
+};
+
+/**
+ * Cross-checks a structured solution: estimates `problemLatex` numerically and compares the
+ * estimate with `finalAnswerLatex`.
+ * @param solution The structured solution returned by the model.
+ * @returns The verification result; `unchecked` whenever either side could not be determined.
+ */
+export const verifyStructuredSolution = (solution: StructuredSolution): LimitVerification =>
+    verifyLimitAnswer(solution.problemLatex, solution.finalAnswerLatex);
+
+/**
+ * Cross-checks an answer given for a limit, e.g. the hidden answer of a generated practice problem.
+ * @param problemLatex The limit as LaTeX.
+ * @param answerLatex The stated answer as LaTeX.
+ * @returns The verification result; `unchecked` whenever either side could not be determined.
+ */
+export const verifyLimitAnswer = (problemLatex: string, answerLatex: string): LimitVerification =>
+    verifyParsedLimit(parseLimitLatex(problemLatex), answerLatex.trim() || null);
+
+/**
+ * Cross-checks a legacy Markdown solution: parses the limit from its heading, estimates it
+ * numerically and compares the estimate with the final answer.
+ * @param markdown The full Markdown solution returned by the model.
+ * @returns The verification result; `unchecked` whenever either side could not be determined.
+ */
+export const verifySolution = (markdown: string): LimitVerification => {
+    return verifyParsedLimit(parseLimitHeading(markdown), extractFinalAnswer(markdown));
+};
+
+/** How a student's answer compares with the model's; `unknown` when either could not be read. */
+export type AnswerCheck = 'correct' | 'incorrect' | 'unknown';
+
+// Plain-text spellings students type instead of LaTeX, rewritten so `parseAnswer` understands them.
+const PLAIN_ANSWER_REPLACEMENTS: [RegExp, string][] = [
+    [/\b(?:does not exist|dne)\b|មិនមាន/gi, 'DNE'],
+    [/∞|\b(?:infinity|inf|oo)\b/gi, '\\infty'],
+    [/π/g, '\\pi'],
+    [/√/g, '\\sqrt'],
+    [/(?<!\\)\b(pi|sqrt|sin|cos|tan|ln|log|exp)\b/g, '\\$1'],
+];
+
+const normalizeStudentAnswer = (answer: string): string =>
+    PLAIN_ANSWER_REPLACEMENTS.reduce(
+        (text, [pattern, replacement]) => text.replace(pattern, replacement),
+        answer.replace(/\$/g, '').trim(),
+    );
+
+const compactLatex = (latex: string): string => latex.replace(/\s+|\\left|\\right/g, '').replace(/\\[dt]frac/g, '\\frac');
+
+/**
+ * Checks whether a student's final answer has the same value as the model's, e.g. `0.5` and `\frac{1}{2}`.
+ * Both are evaluated numerically, so plain-text input such as `1/2`, `sqrt(2)` or `-inf` is accepted too.
+ * @param studentAnswer The answer as the student typed it, in LaTeX or plain text.
+ * @param modelAnswer The model's `finalAnswerLatex`.
+ * @returns The verdict; `unknown` when the answers differ as text and either could not be evaluated.
+ */
+export const checkAnswerEquivalence = (studentAnswer: string, modelAnswer: string): AnswerCheck => {
+    const studentLatex = normalizeStudentAnswer(studentAnswer);
+    if (!studentLatex) return 'unknown';
+    const student = parseAnswer(studentLatex, 'x');
+    const model = parseAnswer(modelAnswer, 'x');
+    if (student !== undefined && model !== undefined) return valuesAgree(student, model) ? 'correct' : 'incorrect';
+    return compactLatex(studentLatex) === compactLatex(modelAnswer) ? 'correct' : 'unknown';
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { findMathErrors, findSolutionMathErrors, sanitizeLatex, sanitizeMathMarkdown, sanitizeSolution } from './mathFormatting';
+
+describe('sanitizeMathMarkdown', () => {
+    it('turns \\( \\) and \\[ \\] delimiters into dollars', () => {
+        expect(sanitizeMathMarkdown('so \\( x^2 \\) and \\[ \\frac{1}{2} \\]')).toBe('so $x^2$ and $$\\frac{1}{2}$$');
+    });
+
+    it('turns Unicode symbols inside math into LaTeX', () => {
+        expect(sanitizeMathMarkdown('$x → ∞$')).toBe('$x \\to  \\infty$');
+        expect(sanitizeMathMarkdown('$$√(x+1) − 1$$')).toBe('$$\\sqrt{x+1} - 1$$');
+    });
+
+    it('wraps Unicode math outside math in dollars, with its operand', () => {
+        expect(sanitizeMathMarkdown('so x² grows')).toBe('so $x^{2}$ grows');
+        expect(sanitizeMathMarkdown('take √x here')).toBe('take $\\sqrt{x}$ here');
+        expect(sanitizeMathMarkdown('the limit is ∞.')).toBe('the limit is $\\infty$.');
+    });
+
+    it('closes math left open at the end', () => {
+        expect(sanitizeMathMarkdown('so $x + 1')).toBe('so $x + 1$');
+        expect(sanitizeMathMarkdown('$$x')).toBe('$$x$$');
+    });
+
+    it('leaves escaped dollars and single dollars inside $$ math alone', () => {
+        expect(sanitizeMathMarkdown('costs \\$5')).toBe('costs \\$5');
+        expect(sanitizeMathMarkdown('$$a $ b$$ and $c$')).toBe('$$a $ b$$ and $c$');
+    });
+});
+
+describe('sanitizeLatex', () => {
+    it('strips delimiters and converts Unicode', () => {
+        expect(sanitizeLatex(' $\\frac{1}{2}$ ')).toBe('\\frac{1}{2}');
+        expect(sanitizeLatex('\\(x ≤ 1\\)')).toBe('x \\le  1');
+        expect(sanitizeLatex('+∞')).toBe('+\\infty');
+    });
+
+    it('keeps escaped dollars', () => {
+        expect(sanitizeLatex('\\$x')).toBe('\\$x');
+    });
+});
+
+describe('sanitizeSolution', () => {
+    it('cleans every field', () => {
+        const solution = sanitizeSolution({
+            problemLatex: '$\\lim_{x → 0} x$',
+            limitForm: '',
+            steps: [{ explanationKm: 'x → 0', explanationEn: '\\(x\\)', latex: '$x$' }],
+            finalAnswerLatex: '$0$',
+        });
+        expect(solution).toEqual({
+            problemLatex: '\\lim_{x \\to  0} x',
+            limitForm: '',
+            steps: [{ explanationKm: 'x $\\to$ 0', explanationEn: '$x$', latex: 'x' }],
+            finalAnswerLatex: '0',
+        });
+    });
+
+    it('keeps the topic', () => {
+        const solution = sanitizeSolution({ topic: 'derivatives', problemLatex: 'x', limitForm: '', steps: [], finalAnswerLatex: '1' });
+        expect(solution.topic).toBe('derivatives');
+    });
+});
+
+describe('findMathErrors', () => {
+    it('finds only the formulas KaTeX cannot render', () => {
+        const errors = findMathErrors('fine $\\frac{1}{2}$, broken $\\frac{1}{2$ and $$\\foo$$');
+        expect(errors.map(error => error.latex)).toEqual(['\\frac{1}{2', '\\foo']);
+        expect(errors.every(error => error.message.length > 0)).toBe(true);
+    });
+
+    it('ignores plain text and empty math', () => {
+        expect(findMathErrors('no math here, \\$5 only')).toEqual([]);
+    });
+});
+
+describe('findSolutionMathErrors', () => {
+    it('checks the LaTeX fields and the explanations', () => {
+        const errors = findSolutionMathErrors({
+            problemLatex: '\\lim_{x \\to 0} x',
+            limitForm: '',
+            steps: [{ explanationKm: 'ok $x$', explanationEn: 'bad $\\sqrt{$', latex: 'x^{' }],
+            finalAnswerLatex: '0',
+        });
+        expect(errors.map(error => error.latex)).toEqual(['\\sqrt{', 'x^{']);
+    });
+
+    it('checks a legacy Markdown solution as Markdown', () => {
+        expect(findSolutionMathErrors('## $\\lim_{x \\to 0} \\frac{1}{x$')).toHaveLength(1);
+    });
+});
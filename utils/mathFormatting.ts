@@ -0,0 +1,183 @@
+import katex from 'katex';
+import type { StructuredSolution } from '../types';
+
+// Clean-up of model output before it reaches ReactMarkdown/KaTeX, and detection of the math KaTeX still cannot render.
+// The prompts ask for LaTeX inside `$...$`, but models still slip in Unicode symbols, `\(...\)` delimiters or a lone `$`.
+
+/** A formula KaTeX could not render. */
+export interface MathError {
+    /** The formula, without delimiters. */
+    latex: string;
+    /** KaTeX's parse error message. */
+    message: string;
+}
+
+// Unicode math symbols and their LaTeX commands. A trailing space keeps a command from running into the next letter.
+const UNICODE_COMMANDS: [RegExp, string][] = [
+    [/≠/g, '\\ne '],
+    [/→|⟶/g, '\\to '],
+    [/∞/g, '\\infty '],
+    [/≤|⩽/g, '\\le '],
+    [/≥|⩾/g, '\\ge '],
+    [/≈/g, '\\approx '],
+    [/±/g, '\\pm '],
+    [/×/g, '\\times '],
+    [/÷/g, '\\div '],
+    [/·|⋅/g, '\\cdot '],
+    [/⇒|⟹/g, '\\Rightarrow '],
+    [/⇔|⟺/g, '\\Leftrightarrow '],
+    [/∈/g, '\\in '],
+    [/π/g, '\\pi '],
+    [/θ/g, '\\theta '],
+    [/α/g, '\\alpha '],
+    [/β/g, '\\beta '],
+    [/Δ/g, '\\Delta '],
+    [/δ/g, '\\delta '],
+    [/ε/g, '\\varepsilon '],
+    [/ℝ/g, '\\mathbb{R} '],
+    [/−/g, '-'],
+];
+
+const SUPERSCRIPTS: Record<string, string> = { '²': '2', '³': '3' };
+
+// Matches a symbol outside math together with the operand it applies to, so `√x` and `x²` become one formula.
+const TEXT_MATH = /√\(([^()]*)\)|√([A-Za-z0-9.]+)|([A-Za-z0-9)]+)([²³])|[≠→⟶∞≤⩽≥⩾≈±×÷⇒⟹⇔⟺∈π]/g;
+
+const unicodeToLatex = (latex: string): string =>
+    UNICODE_COMMANDS.reduce(
+        (text, [pattern, command]) => text.replace(pattern, command),
+        latex
+            .replace(/√\(([^()]*)\)/g, '\\sqrt{$1}')
+            .replace(/√([A-Za-z0-9.]+)/g, '\\sqrt{$1}')
+            .replace(/√/g, '\\sqrt')
+            .replace(/[²³]/g, digit => `^{${SUPERSCRIPTS[digit]}}`),
+    ).replace(/ +$/, '');
+
+type Delimiter = '$' | '$$';
+
+interface Segment {
+    text: string;
+    /** The math delimiter around `text`, or `null` for plain Markdown. Math still open at the end counts as closed. */
+    delimiter: Delimiter | null;
+}
+
+// Splits Markdown into plain text and `$`/`$$` math, honouring `\$` escapes. A `$$` span only ends at `$$`.
+const splitMath = (markdown: string): Segment[] => {
+    const segments: Segment[] = [];
+    let open: Delimiter | null = null;
+    let start = 0;
+    let i = 0;
+    while (i < markdown.length) {
+        if (markdown[i] === '\\') {
+            i += 2;
+            continue;
+        }
+        if (markdown[i] !== '$') {
+            i++;
+            continue;
+        }
+        const delimiter: Delimiter = markdown[i + 1] === '$' ? '$$' : '$';
+        if (open === '$$' && delimiter === '$') {
+            i++;
+            continue;
+        }
+        const length = open === '$' ? 1 : delimiter.length;
+        segments.push({ text: markdown.slice(start, i), delimiter: open });
+        open = open ? null : delimiter;
+        i += length;
+        start = i;
+    }
+    segments.push({ text: markdown.slice(start), delimiter: open });
+    return segments.filter(segment => segment.text || segment.delimiter);
+};
+
+/**
+ * Cleans up Markdown with embedded math: `\(...\)` and `\[...\]` become `$...$` and `$$...$$`, Unicode math symbols
+ * become LaTeX (wrapped in `$` when outside math), and math left open at the end is closed.
+ * @param markdown The model's Markdown.
+ * @returns The cleaned Markdown.
+ */
+export const sanitizeMathMarkdown = (markdown: string): string => {
+    const normalized = markdown
+        .replace(/\\\[([\s\S]+?)\\\]/g, (_, latex: string) => `$$${latex.trim()}$$`)
+        .replace(/\\\(([\s\S]+?)\\\)/g, (_, latex: string) => `$${latex.trim()}$`);
+    return splitMath(normalized).map(({ text, delimiter }) => {
+        if (!delimiter) {
+            return text.replace(TEXT_MATH, match => `$${unicodeToLatex(match)}$`);
+        }
+        return `${delimiter}${unicodeToLatex(text)}${delimiter}`;
+    }).join('');
+};
+
+/**
+ * Cleans up a LaTeX field, which should hold bare LaTeX: strips `$`, `\(...\)` and `\[...\]` delimiters and
+ * turns Unicode math symbols into LaTeX commands.
+ * @param latex The field as the model wrote it.
+ * @returns The cleaned LaTeX.
+ */
+export const sanitizeLatex = (latex: string): string =>
+    unicodeToLatex(
+        latex
+            .trim()
+            .replace(/^\\[([]|\\[)\]]$/g, '')
+            .replace(/(?<!\\)\$/g, '')
+            .trim(),
+    );
+
+/**
+ * Applies `sanitizeLatex` to a solution's LaTeX fields and `sanitizeMathMarkdown` to its explanations.
+ * @param solution The solution as parsed from the model response.
+ * @returns The cleaned solution.
+ */
+export const sanitizeSolution = (solution: StructuredSolution): StructuredSolution => ({
+    ...(solution.topic ? { topic: solution.topic } : {}),
+    problemLatex: sanitizeLatex(solution.problemLatex),
+    limitForm: sanitizeLatex(solution.limitForm),
+    steps: solution.steps.map(step => ({
+        explanationKm: sanitizeMathMarkdown(step.explanationKm),
+        ...(step.explanationEn !== undefined ? { explanationEn: sanitizeMathMarkdown(step.explanationEn) } : {}),
+        latex: sanitizeLatex(step.latex),
+    })),
+    finalAnswerLatex: sanitizeLatex(solution.finalAnswerLatex),
+});
+
+const checkLatex = (latex: string, displayMode: boolean): MathError | null => {
+    if (!latex.trim()) return null;
+    try {
+        katex.renderToString(latex, { displayMode, throwOnError: true, strict: false });
+        return null;
+    } catch (error) {
+        if (error instanceof katex.ParseError) return { latex, message: error.message };
+        throw error;
+    }
+};
+
+/**
+ * Finds the formulas in Markdown that KaTeX cannot render (and would show as red error text).
+ * @param markdown The Markdown, as it will be rendered.
+ * @returns The failing formulas, in order.
+ */
+export const findMathErrors = (markdown: string): MathError[] =>
+    splitMath(markdown).flatMap(({ text, delimiter }) => {
+        const error = delimiter && checkLatex(text, delimiter === '$$');
+        return error ? [error] : [];
+    });
+
+/**
+ * Finds the formulas in a solution that KaTeX cannot render.
+ * @param solution A structured solution, or a legacy Markdown one.
+ * @returns The failing formulas, in the order they are shown.
+ */
+export const findSolutionMathErrors = (solution: StructuredSolution | string): MathError[] => {
+    if (typeof solution === 'string') return findMathErrors(solution);
+    return [
+        checkLatex(solution.problemLatex, true),
+        checkLatex(solution.limitForm, false),
+        ...solution.steps.flatMap(step => [
+            ...findMathErrors(step.explanationKm),
+            ...findMathErrors(step.explanationEn ?? ''),
+            checkLatex(step.latex, true),
+        ]),
+        checkLatex(solution.finalAnswerLatex, true),
+    ].filter((error): error is MathError => !!error);
+};
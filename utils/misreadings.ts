@@ -0,0 +1,60 @@
+import type { ProblemCorrection } from '../types';
+
+// Which parts of a problem the model tends to misread, worked out from the corrections users made before re-solving.
+
+/** A misread LaTeX fragment, what it should have been, and how many corrections made that change. */
+export interface Misreading {
+    recognized: string;
+    corrected: string;
+    count: number;
+}
+
+// Commands, escaped symbols and single characters; whitespace carries no meaning in LaTeX math.
+const tokenize = (latex: string): string[] => latex.match(/\\[A-Za-z]+|\\.|\S/g) ?? [];
+
+// A command needs a space before a following letter, or `\to x` would read as `\tox`.
+const joinTokens = (tokens: string[]): string =>
+    tokens.reduce((text, token) => (/\\[A-Za-z]+$/.test(text) && /^[A-Za-z]/.test(token) ? `${text} ${token}` : text + token), '');
+
+/**
+ * Finds the part of the problem a correction changed.
+ * A pure insertion or deletion keeps one token either side, so a missing `^` shows as `x2` → `x^2`.
+ * @param correction The recognized and corrected LaTeX.
+ * @returns The changed fragment before and after, or `null` if only spacing changed.
+ */
+export const misreadFragment = ({ recognizedLatex, correctedLatex }: ProblemCorrection): Pick<Misreading, 'recognized' | 'corrected'> | null => {
+    const before = tokenize(recognizedLatex);
+    const after = tokenize(correctedLatex);
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let end = 0;
+    while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+    if (start + end === before.length && start + end === after.length) return null;
+
+    if (start + end === before.length || start + end === after.length) {
+        start = Math.max(0, start - 1);
+        end = Math.max(0, end - 1);
+    }
+    return {
+        recognized: joinTokens(before.slice(start, before.length - end)),
+        corrected: joinTokens(after.slice(start, after.length - end)),
+    };
+};
+
+/**
+ * Groups corrections by the change they made, most frequent first.
+ * @param corrections Every stored correction.
+ * @returns One item per distinct change; ties keep the order the change was first seen in.
+ */
+export const summarizeMisreadings = (corrections: ProblemCorrection[]): Misreading[] => {
+    const counts = new Map<string, Misreading>();
+    for (const correction of corrections) {
+        const fragment = misreadFragment(correction);
+        if (!fragment) continue;
+        const key = `${fragment.recognized}\u0000${fragment.corrected}`;
+        const misreading = counts.get(key);
+        if (misreading) misreading.count++;
+        else counts.set(key, { ...fragment, count: 1 });
+    }
+    return [...counts.values()].sort((a, b) => b.count - a.count);
+};
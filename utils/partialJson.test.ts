@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+    it('parses a complete document', () => {
+        expect(parsePartialJson('{"a": [1, 2], "b": "c"}')).toEqual({ a: [1, 2], b: 'c' });
+    });
+
+    it('closes open containers', () => {
+        expect(parsePartialJson('{"steps": [{"latex": "x"}')).toEqual({ steps: [{ latex: 'x' }] });
+        expect(parsePartialJson('[1, 2')).toEqual([1, 2]);
+    });
+
+    it('keeps a string that is still arriving', () => {
+        expect(parsePartialJson('{"problemLatex": "\\\\lim_{x')).toEqual({ problemLatex: '\\lim_{x' });
+    });
+
+    it('drops a half-received escape sequence', () => {
+        expect(parsePartialJson('{"a": "x\\')).toEqual({ a: 'x' });
+        expect(parsePartialJson('{"a": "x\\u00')).toEqual({ a: 'x' });
+        expect(parsePartialJson('{"a": "x\\\\')).toEqual({ a: 'x\\' });
+    });
+
+    it('drops a trailing comma or a key without a value', () => {
+        expect(parsePartialJson('{"a": 1,')).toEqual({ a: 1 });
+        expect(parsePartialJson('{"a": 1, "b":')).toEqual({ a: 1 });
+        expect(parsePartialJson('{"a": 1, "b"')).toEqual({ a: 1 });
+        expect(parsePartialJson('{"a": 1, "b": "')).toEqual({ a: 1, b: '' });
+    });
+
+    it('ignores brackets inside strings', () => {
+        expect(parsePartialJson('{"a": "[{", "b": [')).toEqual({ a: '[{', b: [] });
+    });
+
+    it('returns undefined when nothing usable has arrived', () => {
+        expect(parsePartialJson('')).toBeUndefined();
+        expect(parsePartialJson('{"a": tr')).toBeUndefined();
+    });
+});
@@ -0,0 +1,53 @@
+// Best-effort parsing of a JSON document that is still being streamed, e.g. `{"steps": [{"latex": "\\fr`.
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Parses the longest valid prefix of a truncated JSON document by closing the open string and containers.
+ * A trailing key without a value is dropped; a trailing string is kept with whatever text it has so far.
+ * @param text The JSON received so far.
+ * @returns The parsed value, or `undefined` if nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const ch of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            stack.push(ch);
+        } else if (ch === '}' || ch === ']') {
+            stack.pop();
+        }
+    }
+
+    let repaired = text.trimEnd();
+    if (inString) {
+        // Drop a half-received escape sequence (`\` or `\u12`) before closing the string.
+        if (escaped) repaired = repaired.slice(0, -1);
+        else repaired = repaired.replace(/((?:^|[^\\])(?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, '$1');
+        repaired += '"';
+    }
+    const closers = stack.map(open => CLOSERS[open]).reverse().join('');
+
+    const candidates = [
+        repaired,
+        repaired.replace(/,\s*$/, ''),
+        // A key whose value has not started yet, e.g. `{"a": "b", "c":` or `{"c"`.
+        repaired.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, ''),
+    ];
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate + closers);
+        } catch {
+            // Try the next, more aggressive repair.
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,49 @@
+// Scores of finished similar-problem quizzes, kept on this device.
+
+const STORAGE_KEY = 'quizScores';
+// Oldest scores are dropped beyond this, so the list stays cheap to read on every quiz.
+const MAX_SCORES = 200;
+
+export interface QuizScore {
+    /** The solved problem the quiz was generated from. */
+    problemLatex: string;
+    correct: number;
+    total: number;
+    /** Epoch milliseconds. */
+    takenAt: number;
+}
+
+const isQuizScore = (value: unknown): value is QuizScore => {
+    const score = value as Partial<QuizScore> | null;
+    return !!score && typeof score.problemLatex === 'string' && typeof score.correct === 'number'
+        && typeof score.total === 'number' && typeof score.takenAt === 'number';
+};
+
+const readScores = (): QuizScore[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (Array.isArray(saved)) return saved.filter(isQuizScore);
+    } catch (error) {
+        console.error("Failed to read quiz scores from localStorage:", error);
+    }
+    return [];
+};
+
+/**
+ * Reads the scores of quizzes generated from one problem.
+ * @param problemLatex The solved problem's LaTeX.
+ * @returns Its scores, newest first.
+ */
+export const getQuizScores = (problemLatex: string): QuizScore[] =>
+    readScores().filter(score => score.problemLatex === problemLatex).reverse();
+
+/**
+ * Saves the score of a finished quiz.
+ * @param score The score.
+ * @returns The scores of quizzes generated from the same problem, newest first.
+ */
+export const recordQuizScore = (score: QuizScore): QuizScore[] => {
+    const scores = [...readScores(), score].slice(-MAX_SCORES);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scores));
+    return scores.filter(saved => saved.problemLatex === score.problemLatex).reverse();
+};
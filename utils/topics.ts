@@ -0,0 +1,44 @@
+import type { StructuredSolution, Topic, TopicChoice } from '../types';
+
+/** Every topic, in the order they are offered. */
+export const TOPICS: Topic[] = ['limits', 'derivatives', 'integrals', 'continuity', 'sequences'];
+
+/**
+ * Tells whether the limit tools (form classification, solving methods, graph, similar-problem quiz) apply to a topic.
+ * @param topic The topic, or `auto` when the model decides.
+ * @returns True for limits and sequences, and for `auto`, which may turn out to be either.
+ */
+export const isLimitTopic = (topic: TopicChoice): boolean => topic === 'auto' || topic === 'limits' || topic === 'sequences';
+
+/**
+ * The topic of a solution; solutions saved before topics existed are all limits.
+ * @param solution The solution.
+ * @returns Its topic.
+ */
+export const topicOf = (solution: Pick<StructuredSolution, 'topic'>): Topic => solution.topic ?? 'limits';
+
+/**
+ * Fills in the chosen topic when the model left it out, as servers without a response schema may.
+ * @param solution The solution as parsed.
+ * @param topic The topic the problem was solved as.
+ * @returns The solution, with its topic set unless the model was left to detect it.
+ */
+export const withTopic = (solution: StructuredSolution, topic: TopicChoice): StructuredSolution =>
+    solution.topic || topic === 'auto' ? solution : { ...solution, topic };
+
+/**
+ * The one-line text the history list shows for a problem. Layout that only matters when rendered is dropped:
+ * `\left`/`\right`, spacing commands and, for continuity problems, the rows of a piecewise definition.
+ * @param solution The solved problem.
+ * @returns The snippet.
+ */
+export const problemSnippet = (solution: StructuredSolution): string => {
+    let latex = solution.problemLatex
+        .replace(/\\(?:left|right)\b/g, '')
+        .replace(/\\[,;:!]|\\quad\b|\\qquad\b/g, ' ');
+    if (topicOf(solution) === 'continuity') {
+        latex = latex.replace(/\\begin\{cases\}([\s\S]*?)\\end\{cases\}/g, (_, rows: string) =>
+            `\\{ ${rows.split('\\\\').map(row => row.replace(/\s*&\s*/g, ', ').trim()).filter(Boolean).join('; ')} \\}`);
+    }
+    return latex.replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,57 @@
+// A running tally of how much preprocessing shrinks the images we upload, kept on this device.
+
+const STORAGE_KEY = 'uploadSavings';
+
+export interface UploadSavings {
+    images: number;
+    /** Total size of the photos as chosen by the user. */
+    originalBytes: number;
+    /** Total size of the images actually sent to the model. */
+    uploadedBytes: number;
+}
+
+const EMPTY_SAVINGS: UploadSavings = { images: 0, originalBytes: 0, uploadedBytes: 0 };
+
+/**
+ * Reads the tally.
+ * @returns The totals so far, or zeros if nothing has been recorded (or the stored value is unreadable).
+ */
+export const getUploadSavings = (): UploadSavings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (saved && typeof saved.images === 'number' && typeof saved.originalBytes === 'number' && typeof saved.uploadedBytes === 'number') {
+            return saved;
+        }
+    } catch (error) {
+        console.error("Failed to read upload savings from localStorage:", error);
+    }
+    return EMPTY_SAVINGS;
+};
+
+/**
+ * Adds one processed image to the tally.
+ * @param originalBytes The size of the photo before preprocessing.
+ * @param uploadedBytes The size of the image that will be uploaded.
+ * @returns The updated totals.
+ */
+export const recordUploadSavings = (originalBytes: number, uploadedBytes: number): UploadSavings => {
+    const current = getUploadSavings();
+    const updated = {
+        images: current.images + 1,
+        originalBytes: current.originalBytes + originalBytes,
+        uploadedBytes: current.uploadedBytes + uploadedBytes,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    return updated;
+};
+
+/**
+ * Formats a byte count for display, e.g. `2.4 MB`.
+ * @param bytes The size in bytes.
+ * @returns The formatted size.
+ */
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -1,12 +1,43 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
+
+// The CDN scripts and stylesheets index.html loads. Its import map is left out: the build bundles those modules.
+const cdnAssets = (html: string): string[] =>
+    Array.from(html.matchAll(/<(script|link)\b[^>]*?\b(?:src|href)="(https:\/\/[^"]+)"[^>]*>/g))
+        .filter(([tag, name]) => name === 'script' || /\brel="stylesheet"/.test(tag))
+        .map(([, , url]) => url.replace(/&amp;/g, '&'));
+
+// Emits serviceWorker.js as /sw.js with this build's files and the CDN assets of index.html to precache. The build id
+// names the cache, so every deployment installs a fresh worker and drops the previous cache.
+const serviceWorker = (): Plugin => ({
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+        const files = Object.keys(bundle).map(fileName => `/${fileName}`);
+        const cdn = cdnAssets(fs.readFileSync(path.resolve(__dirname, 'index.html'), 'utf-8'));
+        const buildId = createHash('sha256').update([...files, ...cdn].join('\n')).digest('hex').slice(0, 12);
+        const source = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf-8')
+            .replace('self.__BUILD_ID__', JSON.stringify(buildId))
+            .replace('self.__BUILD_FILES__', JSON.stringify(files))
+            .replace('self.__CDN_ASSETS__', JSON.stringify(cdn));
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SOLVER_PROVIDER': JSON.stringify(env.SOLVER_PROVIDER ?? ''),
+        'process.env.SOLVER_MODEL': JSON.stringify(env.SOLVER_MODEL ?? ''),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL ?? ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY ?? '')
       },
       resolve: {
         alias: {